@@ -0,0 +1,133 @@
+/**
+ * Action Processor CLI
+ *
+ * Runs the action processor outside the browser.
+ *
+ * Against the Firebase emulator (the room must already exist):
+ *   FIREBASE_DATABASE_EMULATOR_HOST=127.0.0.1:9000 npm run processor -- --room ABC123
+ *
+ * Against an in-memory room, reading one queued action per line from stdin
+ * as {"senderId": "team1" | "team2", "action": DraftActionPayload}:
+ *   npm run processor -- --mock < actions.jsonl
+ */
+
+import { createInterface } from "node:readline";
+import { parseArgs } from "node:util";
+import { initializeApp } from "firebase/app";
+import { connectDatabaseEmulator, getDatabase } from "firebase/database";
+
+import { getInitialDraftState } from "../src/draftLogic";
+import type { DraftActionResult } from "../src/draftActions";
+import {
+  createFirebaseProcessorStore,
+  createMemoryProcessorStore,
+  startActionProcessor,
+} from "../src/services/actionProcessor";
+import type {
+  FirebasePendingAction,
+  FirebaseRoom,
+} from "../src/types/firebase";
+
+const logAction = (
+  { senderId, action }: FirebasePendingAction,
+  result: DraftActionResult,
+) => {
+  const label = `${senderId} ${action.action} ${action.itemType} ${action.itemId}`;
+  if (result.ok) {
+    console.log(
+      `applied  ${label} -> ${result.state.phase} (${result.state.currentTeam})`,
+    );
+  } else {
+    console.warn(`rejected ${label}: ${result.reason}`);
+  }
+};
+
+async function runOnEmulator(roomCode: string) {
+  const emulatorHost = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+  if (!emulatorHost) {
+    throw new Error(
+      "Set FIREBASE_DATABASE_EMULATOR_HOST (e.g. 127.0.0.1:9000)",
+    );
+  }
+  const [host, port] = emulatorHost.split(":");
+  const projectId = process.env.FIREBASE_PROJECT_ID ?? "demo-uma-drafting";
+
+  const app = initializeApp({
+    projectId,
+    databaseURL: `http://${emulatorHost}?ns=${projectId}-default-rtdb`,
+  });
+  const db = getDatabase(app);
+  connectDatabaseEmulator(db, host, Number(port));
+
+  const processor = await startActionProcessor(
+    createFirebaseProcessorStore(db, roomCode),
+    { onAction: logAction },
+  );
+  console.log(`Processing room ${roomCode} (Ctrl+C to stop)`);
+
+  process.once("SIGINT", () => {
+    processor.stop().finally(() => process.exit(0));
+  });
+}
+
+async function runOnMock() {
+  const now = Date.now();
+  const seat = (id: string, team: "team1" | "team2") => ({
+    id,
+    name: id,
+    type: team === "team1" ? ("host" as const) : ("player" as const),
+    team,
+    joinedAt: now,
+    connected: true,
+    lastSeen: now,
+  });
+  const room: FirebaseRoom = {
+    roomId: "MOCK01",
+    hostId: "team1",
+    format: "5v5",
+    status: "in-progress",
+    createdAt: now,
+    updatedAt: now,
+    team1Name: "Team 1",
+    team2Name: "Team 2",
+    players: { team1: seat("team1", "team1"), team2: seat("team2", "team2") },
+    spectators: {},
+    draftState: getInitialDraftState(process.env.DRAFT_SEED),
+    version: 1,
+  };
+
+  const store = createMemoryProcessorStore(room);
+  const processor = await startActionProcessor(store, { onAction: logAction });
+
+  for await (const line of createInterface({ input: process.stdin })) {
+    if (!line.trim()) continue;
+    const { senderId, action } = JSON.parse(line) as FirebasePendingAction;
+    store.sendAction(senderId, action);
+    await processor.idle();
+  }
+  await processor.stop();
+
+  const finalState = store.room.draftState;
+  console.log(`Final phase: ${finalState?.phase}`);
+  if (finalState?.pickOrderHistoryText) {
+    console.log(finalState.pickOrderHistoryText);
+  }
+}
+
+const { values } = parseArgs({
+  options: {
+    room: { type: "string" },
+    mock: { type: "boolean", default: false },
+  },
+});
+
+const run = values.mock
+  ? runOnMock()
+  : values.room
+    ? runOnEmulator(values.room.toUpperCase())
+    : Promise.reject(new Error("Pass --room <code> or --mock"));
+
+run.catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -17,6 +17,7 @@ import {
   clearDraftSession,
   type DraftSession,
 } from "./utils/sessionStorage";
+import type { DraftRuleset } from "./types";
 
 type DraftFormat = "5v5" | "3v3v3" | null;
 
@@ -25,6 +26,8 @@ interface MultiplayerConfig {
   playerName: string;
   isHost: boolean;
   isSpectator: boolean;
+  /** Ruleset chosen when hosting a 5v5 room */
+  ruleset?: DraftRuleset;
 }
 
 interface InviteConfig {
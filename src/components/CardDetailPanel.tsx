@@ -0,0 +1,208 @@
+import { useState } from "react";
+import type { Card } from "../types3v3v3";
+import {
+  compareCardEffects,
+  formatEffectValue,
+  getCardDetails,
+} from "../utils/supportCards";
+
+interface CardDetailPanelProps {
+  /** Cards being inspected (one shows its details, several are compared) */
+  cards: Card[];
+  /** Callback to drop a card from the panel */
+  onRemove: (card: Card) => void;
+  /** Callback to close the panel */
+  onClear: () => void;
+}
+
+const LEVELS = [1, 10, 20, 25, 30, 35, 40, 45, 50];
+
+/**
+ * Support card detail panel for the 3v3v3 card pick
+ * Training effects, unique effect and hint skills, side by side when more
+ * than one card is inspected.
+ */
+export default function CardDetailPanel({
+  cards,
+  onRemove,
+  onClear,
+}: CardDetailPanelProps) {
+  const [level, setLevel] = useState<number | "max">("max");
+  const rows = compareCardEffects(cards, level);
+  const details = cards.map(getCardDetails);
+  const isComparing = cards.length > 1;
+
+  return (
+    <div className="mt-3 lg:mt-4 bg-gray-900/60 rounded-lg border border-gray-700 p-3">
+      <div className="flex items-center gap-2 mb-2">
+        <h4 className="text-sm font-bold text-gray-100 uppercase tracking-wider">
+          {isComparing ? "Compare Cards" : "Card Details"}
+        </h4>
+        <label className="ml-auto flex items-center gap-1.5 text-xs text-gray-400">
+          Level
+          <select
+            value={level}
+            onChange={(e) =>
+              setLevel(
+                e.target.value === "max" ? "max" : Number(e.target.value),
+              )
+            }
+            className="px-1.5 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-gray-100 focus:outline-none focus:border-blue-500"
+          >
+            <option value="max">Max (limit broken)</option>
+            {LEVELS.map((l) => (
+              <option key={l} value={l}>
+                {l}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={onClear}
+          className="text-gray-400 hover:text-gray-200 text-sm px-1"
+          title="Close"
+        >
+          X
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              <th />
+              {cards.map((card, index) => (
+                <th key={card.id} className="px-2 pb-2 align-top font-normal">
+                  <div className="flex items-center gap-2 text-left">
+                    {card.imageUrl && (
+                      <img
+                        src={card.imageUrl}
+                        alt={card.name}
+                        className="w-10 h-10 rounded object-cover"
+                      />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-100 truncate">
+                        {card.name}
+                      </p>
+                      <p className="text-[10px] text-gray-400 truncate">
+                        {card.rarity} · {details[index]?.title}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => onRemove(card)}
+                      className="ml-auto text-gray-500 hover:text-gray-300"
+                      title="Remove"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td
+                colSpan={cards.length + 1}
+                className="pt-1 text-[10px] text-gray-500 uppercase font-semibold"
+              >
+                Training Effects
+              </td>
+            </tr>
+            {rows.map((row) => (
+              <tr key={row.type} className="border-t border-gray-800">
+                <td className="py-0.5 pr-2 text-gray-400 whitespace-nowrap">
+                  {row.name}
+                </td>
+                {row.values.map((value, index) => (
+                  <td
+                    key={cards[index].id}
+                    className={`px-2 py-0.5 text-center ${
+                      value === 0
+                        ? "text-gray-600"
+                        : isComparing && value === row.best
+                          ? "text-emerald-300 font-semibold"
+                          : "text-gray-200"
+                    }`}
+                  >
+                    {value === 0 ? "–" : formatEffectValue(row.type, value)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+
+            <tr>
+              <td
+                colSpan={cards.length + 1}
+                className="pt-2 text-[10px] text-gray-500 uppercase font-semibold"
+              >
+                Unique Effect
+              </td>
+            </tr>
+            <tr>
+              <td />
+              {details.map((detail, index) => (
+                <td
+                  key={cards[index].id}
+                  className="px-2 py-0.5 align-top text-gray-200"
+                >
+                  {detail?.uniqueEffect ? (
+                    <>
+                      <p className="text-[10px] text-gray-500">
+                        From level {detail.uniqueEffect.unlockLevel}
+                      </p>
+                      {detail.uniqueEffect.effects.map((effect) => (
+                        <p key={effect.type}>
+                          {effect.name}{" "}
+                          {formatEffectValue(effect.type, effect.value)}
+                          {effect.extraValues.length > 0 &&
+                            ` (${effect.extraValues.join(" / ")})`}
+                        </p>
+                      ))}
+                    </>
+                  ) : (
+                    <span className="text-gray-600">None</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+
+            <tr>
+              <td
+                colSpan={cards.length + 1}
+                className="pt-2 text-[10px] text-gray-500 uppercase font-semibold"
+              >
+                Hints
+              </td>
+            </tr>
+            <tr>
+              <td />
+              {details.map((detail, index) => (
+                <td
+                  key={cards[index].id}
+                  className="px-2 py-0.5 align-top text-gray-200"
+                >
+                  {detail && detail.hints.length > 0 ? (
+                    <ul className="space-y-0.5">
+                      {detail.hints.map((hint) => (
+                        <li
+                          key={hint.skillId ?? hint.name}
+                          className={hint.skillId ? "" : "text-gray-400"}
+                        >
+                          {hint.name}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <span className="text-gray-600">None</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import {
+  CONDITION_POLICY_PRESETS,
+  GROUNDS,
+  SEASONS,
+  WEATHERS,
+  getConditionPresetId,
+  validateConditionPolicy,
+} from "../conditionPolicy";
+import { COURSE_MAPS } from "../data";
+import type { ConditionPolicy, TrackConditions } from "../types";
+import { formatTrackConditions } from "../utils/trackConditions";
+
+interface ConditionPolicyEditorProps {
+  /** Policy being edited */
+  policy: ConditionPolicy;
+  /** Callback when the policy changes (omit for a read-only summary) */
+  onChange?: (policy: ConditionPolicy) => void;
+}
+
+// JP has every course; map ids are the same in both course sets
+const PINNABLE_MAPS = COURSE_MAPS.jp;
+
+const selectClass =
+  "px-1.5 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-gray-100 focus:outline-none focus:border-blue-500 disabled:opacity-60";
+
+/**
+ * Track condition policy editor for 5v5 rooms
+ * Lets the host pick a weight table, when conditions are rolled and which
+ * maps have fixed conditions; everyone else sees a read-only summary.
+ */
+export default function ConditionPolicyEditor({
+  policy,
+  onChange,
+}: ConditionPolicyEditorProps) {
+  const [pinMapId, setPinMapId] = useState(PINNABLE_MAPS[0]?.id ?? "");
+  const [pinConditions, setPinConditions] = useState<TrackConditions>({
+    season: "Spring",
+    ground: "Firm",
+    weather: "Sunny",
+  });
+
+  const presetId = getConditionPresetId(policy);
+  const errors = validateConditionPolicy(policy);
+  const pinned = Object.entries(policy.pinnedConditions ?? {});
+  const readOnly = !onChange;
+
+  const handlePresetChange = (id: string) => {
+    const preset = CONDITION_POLICY_PRESETS.find((p) => p.id === id);
+    if (!preset) return;
+    onChange?.({
+      ...preset.policy,
+      pinnedConditions: policy.pinnedConditions,
+      rollTiming: policy.rollTiming,
+    });
+  };
+
+  const handlePin = () => {
+    if (!pinMapId) return;
+    onChange?.({
+      ...policy,
+      pinnedConditions: {
+        ...policy.pinnedConditions,
+        [pinMapId]: pinConditions,
+      },
+    });
+  };
+
+  const handleUnpin = (mapId: string) => {
+    const remaining = { ...policy.pinnedConditions };
+    delete remaining[mapId];
+    onChange?.({ ...policy, pinnedConditions: remaining });
+  };
+
+  return (
+    <div className="text-left space-y-2">
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+        <label className="flex items-center justify-between gap-2 min-w-0">
+          <span className="text-xs text-gray-400 truncate">Weights</span>
+          <select
+            value={presetId ?? "custom"}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            disabled={readOnly}
+            className={selectClass}
+          >
+            {CONDITION_POLICY_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.label}
+              </option>
+            ))}
+            {!presetId && <option value="custom">Custom</option>}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2 min-w-0">
+          <span className="text-xs text-gray-400 truncate">Roll</span>
+          <select
+            value={policy.rollTiming}
+            onChange={(e) =>
+              onChange?.({
+                ...policy,
+                rollTiming: e.target.value as ConditionPolicy["rollTiming"],
+              })
+            }
+            disabled={readOnly}
+            className={selectClass}
+          >
+            <option value="draft-start">At draft start</option>
+            <option value="race-time">At race time</option>
+          </select>
+        </label>
+      </div>
+
+      {pinned.length > 0 && (
+        <ul className="space-y-0.5">
+          {pinned.map(([mapId, conditions]) => (
+            <li
+              key={mapId}
+              className="flex items-center justify-between gap-2 text-xs"
+            >
+              <span className="text-gray-300 truncate">
+                {PINNABLE_MAPS.find((m) => m.id === mapId)?.name ?? mapId}
+              </span>
+              <span className="flex items-center gap-1.5 shrink-0">
+                <span className="text-gray-400">
+                  {formatTrackConditions(conditions)}
+                </span>
+                {!readOnly && (
+                  <button
+                    onClick={() => handleUnpin(mapId)}
+                    className="text-gray-500 hover:text-red-300"
+                    title="Unpin"
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-1">
+          <select
+            value={pinMapId}
+            onChange={(e) => setPinMapId(e.target.value)}
+            className={`${selectClass} flex-1 min-w-0`}
+          >
+            {PINNABLE_MAPS.map((map) => (
+              <option key={map.id} value={map.id}>
+                {map.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={pinConditions.season}
+            onChange={(e) =>
+              setPinConditions({
+                ...pinConditions,
+                season: e.target.value as TrackConditions["season"],
+              })
+            }
+            className={selectClass}
+          >
+            {SEASONS.map((season) => (
+              <option key={season}>{season}</option>
+            ))}
+          </select>
+          <select
+            value={pinConditions.weather}
+            onChange={(e) =>
+              setPinConditions({
+                ...pinConditions,
+                weather: e.target.value as TrackConditions["weather"],
+              })
+            }
+            className={selectClass}
+          >
+            {WEATHERS.map((weather) => (
+              <option key={weather}>{weather}</option>
+            ))}
+          </select>
+          <select
+            value={pinConditions.ground}
+            onChange={(e) =>
+              setPinConditions({
+                ...pinConditions,
+                ground: e.target.value as TrackConditions["ground"],
+              })
+            }
+            className={selectClass}
+          >
+            {GROUNDS.map((ground) => (
+              <option key={ground}>{ground}</option>
+            ))}
+          </select>
+          <button
+            onClick={handlePin}
+            className="px-2 py-1 rounded text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+          >
+            Pin
+          </button>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="space-y-0.5">
+          {errors.map((error) => (
+            <li key={error} className="text-xs text-red-300">
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
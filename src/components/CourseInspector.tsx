@@ -0,0 +1,126 @@
+import type { CourseSet, Map } from "../types";
+import { formatRaceTime, getCourseProfile } from "../utils/courseProfile";
+
+interface CourseInspectorProps {
+  /** Map to inspect */
+  map: Map;
+  /** Course data the room uses */
+  courseSet?: CourseSet;
+}
+
+/**
+ * Course profile panel for the map draft
+ * Draws the straight/corner layout and slopes to scale, with the final
+ * straight and expected finish time range underneath.
+ */
+export default function CourseInspector({
+  map,
+  courseSet,
+}: CourseInspectorProps) {
+  const profile = getCourseProfile(map, courseSet);
+
+  if (!profile) {
+    return (
+      <div className="bg-gray-900/60 rounded-lg p-3 border border-gray-700 text-xs text-gray-500">
+        No course data for {map.name}
+      </div>
+    );
+  }
+
+  const toPercent = (meters: number) => (meters / profile.distance) * 100;
+
+  return (
+    <div className="bg-gray-900/60 rounded-lg p-3 border border-gray-700">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <p className="text-sm font-bold text-gray-100 truncate">{map.name}</p>
+        <p className="text-xs text-gray-400 shrink-0">
+          {map.direction === "right"
+            ? "Right-handed"
+            : map.direction === "left"
+              ? "Left-handed"
+              : "Straight"}
+        </p>
+      </div>
+
+      {/* Layout: straights and corners */}
+      <div className="relative h-4 rounded bg-gray-700 overflow-hidden">
+        {profile.segments.map((segment) => (
+          <div
+            key={`${segment.type}-${segment.start}`}
+            className={`absolute inset-y-0 border-r border-gray-900/60 ${
+              segment.type === "corner" ? "bg-blue-500/70" : "bg-gray-500/70"
+            }`}
+            style={{
+              left: `${toPercent(segment.start)}%`,
+              width: `${toPercent(segment.end - segment.start)}%`,
+            }}
+            title={`${segment.type === "corner" ? "Corner" : "Straight"} ${segment.start}–${segment.end}m`}
+          />
+        ))}
+      </div>
+
+      {/* Slopes */}
+      <div className="relative h-3 mt-1 rounded bg-gray-800 overflow-hidden">
+        {profile.slopes.map((slope) => (
+          <div
+            key={slope.start}
+            className={`absolute inset-y-0 ${
+              slope.gradient > 0 ? "bg-red-500/70" : "bg-green-500/70"
+            }`}
+            style={{
+              left: `${toPercent(slope.start)}%`,
+              width: `${toPercent(slope.end - slope.start)}%`,
+            }}
+            title={`${slope.gradient > 0 ? "Uphill" : "Downhill"} ${Math.abs(slope.gradient)}% at ${slope.start}–${slope.end}m`}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+        <span>0m</span>
+        <span>{profile.distance}m</span>
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5 mt-1.5 text-xs text-gray-300">
+        <span>
+          <span className="text-gray-500">Final straight</span>{" "}
+          {profile.finalStraight}m
+        </span>
+        <span>
+          <span className="text-gray-500">Corners</span> {profile.cornerCount}
+        </span>
+        <span>
+          <span className="text-gray-500">Slopes</span>{" "}
+          {profile.slopes.length === 0
+            ? "Flat"
+            : profile.slopes
+                .map(
+                  (slope) =>
+                    `${slope.gradient > 0 ? "↑" : "↓"}${Math.abs(slope.gradient)}%`,
+                )
+                .join(" ")}
+        </span>
+        <span>
+          <span className="text-gray-500">Finish</span>{" "}
+          {formatRaceTime(profile.finishTimeMin)}–
+          {formatRaceTime(profile.finishTimeMax)}
+        </span>
+      </div>
+
+      <div className="flex gap-3 mt-1 text-[10px] text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-gray-500/70" /> Straight
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-blue-500/70" /> Corner
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-red-500/70" /> Uphill
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-sm bg-green-500/70" /> Downhill
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import {
+  DECK_CONSTRAINT_LIMITS,
+  DEFAULT_DECK_CONSTRAINTS,
+} from "../draftLogic3v3v3";
+import type { DeckConstraints } from "../types3v3v3";
+
+interface DeckConstraintsEditorProps {
+  /** Deck rules being edited */
+  constraints: DeckConstraints;
+  /** Callback when any rule changes (omit for a read-only summary) */
+  onChange?: (constraints: DeckConstraints) => void;
+}
+
+/** Display order of the numeric deck rules */
+const CONSTRAINT_FIELDS: (keyof typeof DECK_CONSTRAINT_LIMITS)[] = [
+  "maxSSR",
+  "maxFriendCards",
+  "minPerStatType",
+  "maxPerStatType",
+];
+
+/**
+ * Deck rules editor for the 3v3v3 card draft
+ * Shows a stepper per rule for the host, or a read-only summary for everyone else
+ */
+export default function DeckConstraintsEditor({
+  constraints,
+  onChange,
+}: DeckConstraintsEditorProps) {
+  const isDefault =
+    CONSTRAINT_FIELDS.every(
+      (key) => constraints[key] === DEFAULT_DECK_CONSTRAINTS[key],
+    ) &&
+    constraints.uniqueCharacters === DEFAULT_DECK_CONSTRAINTS.uniqueCharacters;
+
+  const handleStep = (
+    key: keyof typeof DECK_CONSTRAINT_LIMITS,
+    delta: number,
+  ) => {
+    const { min, max } = DECK_CONSTRAINT_LIMITS[key];
+    const value = Math.min(max, Math.max(min, constraints[key] + delta));
+    onChange?.({ ...constraints, [key]: value });
+  };
+
+  return (
+    <div className="text-left">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-x-3 gap-y-1.5">
+        {CONSTRAINT_FIELDS.map((key) => {
+          const { min, max, label } = DECK_CONSTRAINT_LIMITS[key];
+          return (
+            <div
+              key={key}
+              className="flex items-center justify-between gap-2 min-w-0"
+            >
+              <span className="text-xs text-gray-400 truncate">{label}</span>
+              {onChange ? (
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleStep(key, -1)}
+                    disabled={constraints[key] <= min}
+                    className="w-6 h-6 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    -
+                  </button>
+                  <span className="w-5 text-center text-sm font-semibold text-gray-100">
+                    {constraints[key]}
+                  </span>
+                  <button
+                    onClick={() => handleStep(key, 1)}
+                    disabled={constraints[key] >= max}
+                    className="w-6 h-6 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    +
+                  </button>
+                </div>
+              ) : (
+                <span className="text-sm font-semibold text-gray-100 shrink-0">
+                  {constraints[key]}
+                </span>
+              )}
+            </div>
+          );
+        })}
+        <label className="flex items-center justify-between gap-2 min-w-0">
+          <span className="text-xs text-gray-400 truncate">
+            Unique characters
+          </span>
+          <input
+            type="checkbox"
+            checked={constraints.uniqueCharacters}
+            disabled={!onChange}
+            onChange={(e) =>
+              onChange?.({
+                ...constraints,
+                uniqueCharacters: e.target.checked,
+              })
+            }
+            className="w-4 h-4 accent-blue-500 shrink-0"
+          />
+        </label>
+      </div>
+
+      {onChange && !isDefault && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_DECK_CONSTRAINTS })}
+          className="mt-2 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          Reset to default rules
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,45 @@
-import { useState } from "react";
-import type { DraftState3v3v3, Card } from "../types3v3v3";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  DraftState3v3v3,
+  DraftAction3v3v3,
+  Card,
+  DeckConstraints,
+  Team3v3v3,
+} from "../types3v3v3";
 import type { UmaMusume } from "../types";
+import type { FirebasePendingAction } from "../types/firebase";
 import {
+  applyAction3v3v3,
+  getActionError3v3v3,
+  getCardConstraintError,
+  getDeckConstraints,
   getInitialDraftState3v3v3,
-  getNextTeamAndPhase,
-  getTurnOrder,
+  getPickableCards,
+  getRandomTimeoutSelection3v3v3,
+  isCardDraftComplete,
+  isDeckStuck,
+  isUmaDraftComplete,
+  TIMED_PHASES_3V3V3,
 } from "../draftLogic3v3v3";
+import { useFirebaseRoom } from "../hooks/useFirebaseRoom";
+import { useTurnTimer } from "../hooks/useTurnTimer";
+import { roomExists } from "../services/firebaseRoom";
+import { clearDraftSession, saveDraftSession } from "../utils/sessionStorage";
+import DeckConstraintsEditor from "./DeckConstraintsEditor";
 import TeamPanel3v3v3 from "./TeamPanel3v3v3";
 import UmaCard from "./UmaCard";
+import UmaAptitudeFilter from "./UmaAptitudeFilter";
+import SkillBrowserModal from "./SkillBrowserModal";
+import UmaDetailPopover from "./UmaDetailPopover";
+import CardDetailPanel from "./CardDetailPanel";
+import { MAX_COMPARED_CARDS } from "../utils/supportCards";
+import RosterExportButtons from "./RosterExportButtons";
+import { buildRosterExport3v3v3 } from "../utils/rosterExport";
+import {
+  matchesAptitudeFilters,
+  type AptitudeFilter,
+} from "../utils/umaAptitudes";
+import WaitingRoom3v3v3 from "./WaitingRoom3v3v3";
 
 interface MultiplayerConfig {
   roomCode: string;
@@ -21,16 +53,48 @@ interface Draft3v3v3Props {
   multiplayerConfig?: MultiplayerConfig;
 }
 
-export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
-  const [draftState, setDraftState] = useState<DraftState3v3v3>(
+export default function Draft3v3v3({
+  onBackToMenu,
+  multiplayerConfig,
+}: Draft3v3v3Props) {
+  const isMultiplayer = !!multiplayerConfig;
+  // Local drafts and the multiplayer host own the draft state; everyone
+  // else sends actions to the host and renders the synced state
+  const canControlDraft = !multiplayerConfig || multiplayerConfig.isHost;
+
+  const {
+    room: firebaseRoom,
+    draftState3v3v3: syncedDraftState,
+    players: firebasePlayers,
+    spectators: firebaseSpectators,
+    userId,
+    roomCode: firebaseRoomCode,
+    createRoom: firebaseCreateRoom,
+    joinRoom: firebaseJoinRoom,
+    leaveRoom: firebaseLeaveRoom,
+    updateDraftState3v3v3,
+    sendAction,
+    setPendingActionHandler,
+    updateTeamNames,
+  } = useFirebaseRoom();
+  const roomCode = firebaseRoomCode || multiplayerConfig?.roomCode || "";
+  const roomSetupAttempted = useRef(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [isRetryingJoin, setIsRetryingJoin] = useState(false);
+
+  const [localDraftState, setDraftState] = useState<DraftState3v3v3>(
     getInitialDraftState3v3v3()
   );
+  const draftState = (isMultiplayer && syncedDraftState) || localDraftState;
+  // Latest state for the host's action handler (Firebase callbacks can fire
+  // before React re-renders)
+  const draftStateRef = useRef(draftState);
   const [history, setHistory] = useState<DraftState3v3v3[]>([
     getInitialDraftState3v3v3(),
   ]);
-  const [team1Name, setTeam1Name] = useState<string>("Team 1");
-  const [team2Name, setTeam2Name] = useState<string>("Team 2");
-  const [team3Name, setTeam3Name] = useState<string>("Team 3");
+  const [localTeam1Name, setTeam1Name] = useState<string>("Team 1");
+  const [localTeam2Name, setTeam2Name] = useState<string>("Team 2");
+  const [localTeam3Name, setTeam3Name] = useState<string>("Team 3");
   const [tempTeam1Name, setTempTeam1Name] = useState<string>("Team 1");
   const [tempTeam2Name, setTempTeam2Name] = useState<string>("Team 2");
   const [tempTeam3Name, setTempTeam3Name] = useState<string>("Team 3");
@@ -38,22 +102,272 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
     "SSR" | "SR" | "R" | null
   >(null);
   const [umaSearch, setUmaSearch] = useState<string>("");
+  const [aptitudeFilters, setAptitudeFilters] = useState<AptitudeFilter[]>([]);
+  const [detailUma, setDetailUma] = useState<UmaMusume | null>(null);
+  const [showSkillBrowser, setShowSkillBrowser] = useState<boolean>(false);
   const [cardSearch, setCardSearch] = useState<string>("");
+  const [inspectedCards, setInspectedCards] = useState<Card[]>([]);
   const [showResetConfirm, setShowResetConfirm] = useState<boolean>(false);
   const [showMenuConfirm, setShowMenuConfirm] = useState<boolean>(false);
 
+  // Team names live on the room in multiplayer
+  const team1Name = isMultiplayer
+    ? (firebaseRoom?.team1Name ?? "Team 1")
+    : localTeam1Name;
+  const team2Name = isMultiplayer
+    ? (firebaseRoom?.team2Name ?? "Team 2")
+    : localTeam2Name;
+  const team3Name = isMultiplayer
+    ? (firebaseRoom?.team3Name ?? "Team 3")
+    : localTeam3Name;
+
+  // Seat of this client (host is always Team 1, spectators have none)
+  const localTeam: Team3v3v3 | undefined = !multiplayerConfig
+    ? undefined
+    : multiplayerConfig.isHost
+      ? "team1"
+      : userId
+        ? firebaseRoom?.players?.[userId]?.team
+        : undefined;
+  const isMyTurn = !isMultiplayer || draftState.currentTeam === localTeam;
+  const deckConstraints = getDeckConstraints(draftState);
+  const startUmaDraftError =
+    draftState.phase === "card-preban"
+      ? getActionError3v3v3(draftState, { type: "start-uma-draft" })
+      : null;
+  const deckRulesLifted =
+    draftState.phase === "card-pick" &&
+    isDeckStuck(draftState, draftState.currentTeam);
+
+  useEffect(() => {
+    draftStateRef.current = draftState;
+  }, [draftState]);
+
+  /**
+   * Applies a new draft state locally and, in multiplayer, writes it to the room
+   * If another write got in first, the action that produced the state (if
+   * given) is reapplied to the room's latest state.
+   */
+  const commitState = useCallback(
+    (
+      newState: DraftState3v3v3,
+      addHistory = true,
+      action?: DraftAction3v3v3,
+    ) => {
+      draftStateRef.current = newState;
+      setDraftState(newState);
+      if (addHistory) setHistory((prev) => [...prev, newState]);
+      if (isMultiplayer) {
+        updateDraftState3v3v3(newState, {
+          rebase: action
+            ? (latest) => {
+                const rebased = applyAction3v3v3(latest, action);
+                return rebased !== latest ? rebased : null;
+              }
+            : undefined,
+        });
+      }
+    },
+    [isMultiplayer, updateDraftState3v3v3],
+  );
+
+  // Initialize Firebase room (create or join)
+  useEffect(() => {
+    if (!multiplayerConfig) return;
+    if (roomSetupAttempted.current) return; // Prevent double creation in StrictMode
+    roomSetupAttempted.current = true;
+
+    const setupRoom = async () => {
+      try {
+        if (multiplayerConfig.isHost) {
+          // Reconnect to an existing room as host if there is one
+          if (
+            multiplayerConfig.roomCode &&
+            (await roomExists(multiplayerConfig.roomCode))
+          ) {
+            const result = await firebaseJoinRoom({
+              roomCode: multiplayerConfig.roomCode,
+              playerName: multiplayerConfig.playerName,
+              connectionType: "host",
+              team: "team1",
+            });
+            if (result.success) return;
+            console.warn(
+              "Failed to rejoin room as host, creating new room:",
+              result.error,
+            );
+            clearDraftSession();
+          }
+
+          const result = await firebaseCreateRoom({
+            format: "3v3v3",
+            hostName: multiplayerConfig.playerName,
+            team1Name: multiplayerConfig.playerName,
+            team2Name: "Team 2",
+            team3Name: "Team 3",
+          });
+          if (!result.success) {
+            setJoinError(
+              result.error ||
+                "Failed to create room. Check your connection and try again.",
+            );
+          }
+        } else {
+          // Players are seated in the first free team by the room service
+          const result = await firebaseJoinRoom({
+            roomCode: multiplayerConfig.roomCode,
+            playerName: multiplayerConfig.playerName,
+            connectionType: multiplayerConfig.isSpectator
+              ? "spectator"
+              : "player",
+          });
+          if (!result.success) {
+            setJoinError(
+              result.error ||
+                "Failed to join room. Check the room code and try again.",
+            );
+          }
+        }
+      } catch (err) {
+        console.error("Failed to setup room:", err);
+        setJoinError(
+          "Connection failed. Please check your internet and try again.",
+        );
+      }
+    };
+
+    setupRoom();
+  }, [multiplayerConfig, firebaseCreateRoom, firebaseJoinRoom]);
+
+  // Save session to localStorage for reconnection after page refresh
+  useEffect(() => {
+    if (!multiplayerConfig || !firebaseRoomCode) return;
+
+    saveDraftSession({
+      roomCode: firebaseRoomCode,
+      playerName: multiplayerConfig.playerName,
+      isHost: multiplayerConfig.isHost,
+      isSpectator: multiplayerConfig.isSpectator,
+      format: "3v3v3",
+      joinedAt: Date.now(),
+    });
+  }, [multiplayerConfig, firebaseRoomCode]);
+
+  // Handle incoming draft actions from seated players (host only).
+  // The sender's seat comes from the room, so players can only act for
+  // their own team and only on their own turn.
+  useEffect(() => {
+    if (!multiplayerConfig?.isHost) return;
+
+    const handlePendingAction = ({
+      action,
+      senderId,
+    }: FirebasePendingAction) => {
+      const state = draftStateRef.current;
+      const senderTeam = firebaseRoom?.players?.[senderId]?.team;
+      if (!senderTeam) {
+        console.warn("Ignoring action from unseated user:", senderId);
+        return;
+      }
+
+      if (action.itemType === "control") {
+        if (action.action === "team-name" && action.itemId === senderTeam) {
+          const names: Record<Team3v3v3, string> = {
+            team1: firebaseRoom?.team1Name ?? "Team 1",
+            team2: firebaseRoom?.team2Name ?? "Team 2",
+            team3: firebaseRoom?.team3Name ?? "Team 3",
+          };
+          names[senderTeam] = action.phase || names[senderTeam];
+          updateTeamNames(names.team1, names.team2, names.team3);
+        }
+        return;
+      }
+
+      let draftAction: DraftAction3v3v3 | null = null;
+      if (action.itemType === "uma") {
+        // Bans and picks share a turn slot, so the sender's intent must
+        // match the phase the host is in
+        const expected = state.phase === "uma-ban" ? "ban" : "pick";
+        if (action.action === expected) {
+          draftAction = {
+            type: "select-uma",
+            team: senderTeam,
+            umaId: action.itemId,
+          };
+        }
+      } else if (action.itemType === "card" && action.action === "pick") {
+        draftAction = {
+          type: "select-card",
+          team: senderTeam,
+          cardId: action.itemId,
+        };
+      }
+
+      if (!draftAction) {
+        console.warn("Rejected action:", action, "Phase:", state.phase);
+        return;
+      }
+      const newState = applyAction3v3v3(state, draftAction);
+      if (newState !== state) commitState(newState, true, draftAction);
+    };
+
+    setPendingActionHandler(handlePendingAction);
+
+    return () => {
+      setPendingActionHandler(null);
+    };
+  }, [
+    multiplayerConfig,
+    firebaseRoom,
+    commitState,
+    setPendingActionHandler,
+    updateTeamNames,
+  ]);
+
   const confirmTeamNames = () => {
     setTeam1Name(tempTeam1Name || "Team 1");
     setTeam2Name(tempTeam2Name || "Team 2");
     setTeam3Name(tempTeam3Name || "Team 3");
-    setDraftState({ ...draftState, phase: "card-preban" });
+    setDraftState(applyAction3v3v3(draftState, { type: "start-draft" }));
+  };
+
+  /**
+   * Applies a flow or selection action this client is allowed to take
+   */
+  const dispatch = (action: DraftAction3v3v3, addHistory = true) => {
+    const newState = applyAction3v3v3(draftState, action);
+    if (newState !== draftState) commitState(newState, addHistory, action);
+  };
+
+  const handleStartMultiplayerDraft = () => {
+    dispatch({ type: "start-draft" }, false);
+  };
+
+  const handleTeamNameChange = (team: Team3v3v3, name: string) => {
+    if (!canControlDraft) {
+      sendAction({
+        action: "team-name",
+        itemType: "control",
+        itemId: team,
+        phase: name,
+      });
+      return;
+    }
+
+    const names: Record<Team3v3v3, string> = {
+      team1: team1Name,
+      team2: team2Name,
+      team3: team3Name,
+    };
+    names[team] = name;
+    updateTeamNames(names.team1, names.team2, names.team3);
   };
 
   const handleUndo = () => {
     if (history.length > 1) {
       const newHistory = history.slice(0, -1);
       setHistory(newHistory);
-      setDraftState(newHistory[newHistory.length - 1]);
+      commitState(newHistory[newHistory.length - 1], false);
       setUmaSearch("");
       setCardSearch("");
     }
@@ -65,7 +379,7 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
 
   const confirmReset = () => {
     const initialState = getInitialDraftState3v3v3();
-    setDraftState(initialState);
+    commitState(initialState, false);
     setHistory([initialState]);
     setTeam1Name("Team 1");
     setTeam2Name("Team 2");
@@ -83,158 +397,187 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
   };
 
   const confirmBackToMenu = () => {
+    if (isMultiplayer) clearDraftSession();
+    onBackToMenu();
+  };
+
+  // Leaving the lobby frees the seat for someone else
+  const handleWaitingRoomLeave = () => {
+    firebaseLeaveRoom();
+    clearDraftSession();
     onBackToMenu();
   };
 
+  // Handle retrying a failed join/create from the waiting room
+  const handleRetryConnection = async () => {
+    if (!multiplayerConfig) return;
+    setIsRetryingJoin(true);
+    setJoinError(null);
+
+    try {
+      const result = multiplayerConfig.isHost
+        ? await firebaseCreateRoom({
+            format: "3v3v3",
+            hostName: multiplayerConfig.playerName,
+            team1Name: multiplayerConfig.playerName,
+            team2Name: "Team 2",
+            team3Name: "Team 3",
+          })
+        : await firebaseJoinRoom({
+            roomCode: multiplayerConfig.roomCode,
+            playerName: multiplayerConfig.playerName,
+            connectionType: multiplayerConfig.isSpectator
+              ? "spectator"
+              : "player",
+          });
+      if (!result.success) {
+        setJoinError(result.error || "Connection failed. Please try again.");
+      }
+    } catch (err) {
+      console.error("Retry failed:", err);
+      setJoinError(
+        "Connection failed. Please check your internet and try again.",
+      );
+    } finally {
+      setIsRetryingJoin(false);
+    }
+  };
+
   const toggleCardPreBan = (card: Card) => {
-    const isPreBanned = draftState.preBannedCards.some((c) => c.id === card.id);
-    const newPreBannedCards = isPreBanned
-      ? draftState.preBannedCards.filter((c) => c.id !== card.id)
-      : [...draftState.preBannedCards, card];
+    if (!canControlDraft) return;
+    dispatch({ type: "toggle-card-preban", cardId: card.id }, false);
+  };
 
-    setDraftState({ ...draftState, preBannedCards: newPreBannedCards });
+  const handleDeckConstraintsChange = (constraints: DeckConstraints) => {
+    if (!canControlDraft) return;
+    dispatch({ type: "set-deck-constraints", constraints }, false);
   };
 
   const startUmaDraft = () => {
-    const newState: DraftState3v3v3 = { ...draftState, phase: "uma-ban" };
-    setDraftState(newState);
-    setHistory([...history, newState]);
+    dispatch({ type: "start-uma-draft" });
+  };
+
+  // Newest cards stay when the comparison is full
+  const toggleInspectedCard = (card: Card) => {
+    setInspectedCards((cards) =>
+      cards.some((c) => c.id === card.id)
+        ? cards.filter((c) => c.id !== card.id)
+        : [...cards, card].slice(-MAX_COMPARED_CARDS),
+    );
   };
 
   const continueToCardPick = () => {
-    const cardOrder = getTurnOrder(1, "card-pick");
-    const newState: DraftState3v3v3 = {
-      ...draftState,
-      phase: "card-pick",
-      currentTeam: cardOrder[0],
-      round: 1,
-      turnInRound: 0,
-    };
-    setDraftState(newState);
-    setHistory([...history, newState]);
+    dispatch({ type: "continue-to-card-pick" });
   };
 
   const continueToComplete = () => {
-    const newState: DraftState3v3v3 = {
-      ...draftState,
-      phase: "complete",
-    };
-    setDraftState(newState);
-    setHistory([...history, newState]);
+    dispatch({ type: "continue-to-complete" });
   };
 
   const handleUmaSelect = (uma: UmaMusume) => {
-    const { currentTeam, phase } = draftState;
-
-    // Prevent selection if uma-pick is complete (all teams have 3 umas)
-    if (
-      phase === "uma-pick" &&
-      draftState.team1.pickedUmas.length === 3 &&
-      draftState.team2.pickedUmas.length === 3 &&
-      draftState.team3.pickedUmas.length === 3
-    ) {
+    if (!isMyTurn) return;
+
+    if (!canControlDraft) {
+      sendAction({
+        action: draftState.phase === "uma-ban" ? "ban" : "pick",
+        itemType: "uma",
+        itemId: uma.id,
+      });
       return;
     }
 
-    if (phase === "uma-ban") {
-      const newState = {
-        ...draftState,
-        [currentTeam]: {
-          ...draftState[currentTeam],
-          bannedUmas: [...draftState[currentTeam].bannedUmas, uma],
-        },
-        availableUmas: draftState.availableUmas.filter((u) => u.id !== uma.id),
-      };
-
-      const nextState = getNextTeamAndPhase(newState);
-      newState.currentTeam = nextState.nextTeam;
-      newState.phase = nextState.nextPhase;
-      newState.round = nextState.nextRound;
-      newState.turnInRound = nextState.nextTurnInRound;
+    dispatch({
+      type: "select-uma",
+      team: draftState.currentTeam,
+      umaId: uma.id,
+    });
+  };
 
-      setDraftState(newState);
-      setHistory([...history, newState]);
-    } else if (phase === "uma-pick") {
-      const newState = {
-        ...draftState,
-        [currentTeam]: {
-          ...draftState[currentTeam],
-          pickedUmas: [...draftState[currentTeam].pickedUmas, uma],
-        },
-        availableUmas: draftState.availableUmas.filter((u) => u.id !== uma.id),
-      };
-
-      const nextState = getNextTeamAndPhase(newState);
-      // Don't auto-advance to card-pick phase, stay in uma-pick
-      if (nextState.nextPhase === "card-pick") {
-        newState.currentTeam = currentTeam;
-        newState.phase = "uma-pick";
-        newState.round = draftState.round;
-        newState.turnInRound = draftState.turnInRound;
-      } else {
-        newState.currentTeam = nextState.nextTeam;
-        newState.phase = nextState.nextPhase;
-        newState.round = nextState.nextRound;
-        newState.turnInRound = nextState.nextTurnInRound;
-      }
+  const handleCardSelect = (card: Card) => {
+    if (!isMyTurn) return;
 
-      setDraftState(newState);
-      setHistory([...history, newState]);
+    if (!canControlDraft) {
+      sendAction({ action: "pick", itemType: "card", itemId: card.id });
+      return;
     }
+
+    dispatch({
+      type: "select-card",
+      team: draftState.currentTeam,
+      cardId: card.id,
+    });
   };
 
-  const handleCardSelect = (card: Card) => {
-    if (draftState.phase !== "card-pick") return;
-
-    // Prevent selection if card-pick is complete (all teams have 5 cards)
-    if (
-      draftState.team1.pickedCards.length === 5 &&
-      draftState.team2.pickedCards.length === 5 &&
-      draftState.team3.pickedCards.length === 5
-    ) {
+  /**
+   * Handles turn timeout - picks a random uma or card for the current team
+   * Card picks honour pre-bans and the rarity filter the team has applied
+   */
+  const handleTurnTimeout = () => {
+    const state = draftStateRef.current;
+    const selection = getRandomTimeoutSelection3v3v3(state, cardRarityFilter);
+    if (!selection) {
+      console.warn("No valid random selection available for timeout");
       return;
     }
 
-    const currentTeam = draftState.currentTeam;
-    const newState = {
-      ...draftState,
-      [currentTeam]: {
-        ...draftState[currentTeam],
-        pickedCards: [...draftState[currentTeam].pickedCards, card],
-      },
-      pickedCards: [...draftState.pickedCards, card],
-      availableCards: draftState.availableCards.filter((c) => c.id !== card.id),
-    };
-
-    const nextState = getNextTeamAndPhase(newState);
-    // Don't auto-advance to complete phase, stay in card-pick
-    if (nextState.nextPhase === "complete") {
-      newState.currentTeam = currentTeam;
-      newState.phase = "card-pick";
-      newState.round = draftState.round;
-      newState.turnInRound = draftState.turnInRound;
-    } else {
-      newState.currentTeam = nextState.nextTeam;
-      newState.phase = nextState.nextPhase;
-      newState.round = nextState.nextRound;
-      newState.turnInRound = nextState.nextTurnInRound;
+    if (!canControlDraft) {
+      if (selection.type === "select-uma") {
+        sendAction({
+          action: state.phase === "uma-ban" ? "ban" : "pick",
+          itemType: "uma",
+          itemId: selection.umaId,
+        });
+      } else if (selection.type === "select-card") {
+        sendAction({
+          action: "pick",
+          itemType: "card",
+          itemId: selection.cardId,
+        });
+      }
+      return;
     }
 
-    setDraftState(newState);
-    setHistory([...history, newState]);
+    const newState = applyAction3v3v3(state, selection);
+    if (newState !== state) commitState(newState, true, selection);
   };
 
+  // Every ban or pick moves the turn on, even when the same team acts twice
+  const completedSelections =
+    draftState.team1.bannedUmas.length +
+    draftState.team2.bannedUmas.length +
+    draftState.team3.bannedUmas.length +
+    draftState.team1.pickedUmas.length +
+    draftState.team2.pickedUmas.length +
+    draftState.team3.pickedUmas.length +
+    draftState.pickedCards.length;
+  const currentTurnKey = `${draftState.phase}-${draftState.currentTeam}-${completedSelections}`;
+
+  // The clock stops once a stage is finished and waits on the Continue button
+  const isAwaitingContinue =
+    (draftState.phase === "uma-pick" && isUmaDraftComplete(draftState)) ||
+    (draftState.phase === "card-pick" && isCardDraftComplete(draftState));
+
+  const { timeRemaining, isRunning, isWarning, isCritical } = useTurnTimer({
+    enabled: !isAwaitingContinue,
+    onTimeout: handleTurnTimeout,
+    phase: draftState.phase,
+    activePhases: TIMED_PHASES_3V3V3,
+    currentTurnKey,
+    isTimerAuthority: isMyTurn,
+  });
+
   const getFilteredUmas = () => {
-    if (!umaSearch.trim()) return draftState.availableUmas;
-    return draftState.availableUmas.filter((uma) =>
+    const umas = draftState.availableUmas.filter((uma) =>
+      matchesAptitudeFilters(uma, aptitudeFilters),
+    );
+    if (!umaSearch.trim()) return umas;
+    return umas.filter((uma) =>
       uma.name.toLowerCase().includes(umaSearch.toLowerCase())
     );
   };
 
   const getFilteredCards = () => {
-    let cards = draftState.availableCards.filter(
-      (card) => !draftState.preBannedCards.some((pb) => pb.id === card.id)
-    );
+    let cards = getPickableCards(draftState);
 
     if (cardSearch) {
       cards = cards.filter((card) =>
@@ -255,6 +598,28 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
     return team3Name;
   };
 
+  // Waiting Room (multiplayer lobby)
+  if (isMultiplayer && draftState.phase === "team-names") {
+    return (
+      <WaitingRoom3v3v3
+        roomCode={roomCode}
+        team1Name={team1Name}
+        team2Name={team2Name}
+        team3Name={team3Name}
+        isHost={canControlDraft}
+        localTeam={localTeam}
+        playerCount={firebasePlayers.length || 1}
+        spectatorCount={firebaseSpectators.length}
+        onStartDraft={handleStartMultiplayerDraft}
+        onLeave={handleWaitingRoomLeave}
+        onTeamNameChange={handleTeamNameChange}
+        connectionError={joinError}
+        onRetryConnection={handleRetryConnection}
+        isRetrying={isRetryingJoin}
+      />
+    );
+  }
+
   // Team Names Phase
   if (draftState.phase === "team-names") {
     return (
@@ -337,16 +702,36 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
                 Card Pre-ban Phase
               </h2>
               <p className="text-sm lg:text-base text-gray-400">
-                Select cards to ban from the draft pool (
-                {draftState.preBannedCards.length} banned)
+                {canControlDraft
+                  ? "Select cards to ban from the draft pool"
+                  : "The host is choosing cards to ban from the draft pool"}{" "}
+                ({draftState.preBannedCards.length} banned)
               </p>
             </div>
-            <button
-              onClick={startUmaDraft}
-              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-1.5 lg:py-2 px-4 lg:px-6 xl:px-8 rounded-lg transition-colors text-sm lg:text-base"
-            >
-              Start Draft →
-            </button>
+            {canControlDraft && (
+              <button
+                onClick={startUmaDraft}
+                disabled={startUmaDraftError !== null}
+                title={startUmaDraftError ?? undefined}
+                className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-1.5 lg:py-2 px-4 lg:px-6 xl:px-8 rounded-lg transition-colors text-sm lg:text-base disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Start Draft →
+              </button>
+            )}
+          </div>
+          {startUmaDraftError && (
+            <p className="mt-2 text-xs text-red-300">{startUmaDraftError}</p>
+          )}
+          <div className="mt-2 lg:mt-3 pt-2 lg:pt-3 border-t border-gray-700">
+            <h3 className="text-xs lg:text-sm font-bold text-blue-400 uppercase tracking-wider mb-1.5">
+              Deck Rules
+            </h3>
+            <DeckConstraintsEditor
+              constraints={deckConstraints}
+              onChange={
+                canControlDraft ? handleDeckConstraintsChange : undefined
+              }
+            />
           </div>
         </div>
 
@@ -376,7 +761,8 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
                   <button
                     key={card.id}
                     onClick={() => toggleCardPreBan(card)}
-                    className={`p-2 rounded-lg border-2 transition-all ${
+                    disabled={!canControlDraft}
+                    className={`p-2 rounded-lg border-2 transition-all disabled:cursor-default ${
                       isBanned
                         ? "bg-red-900 border-red-600 opacity-50"
                         : "bg-gray-700 border-gray-600 hover:border-gray-500"
@@ -452,7 +838,21 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
                 <span className="text-base lg:text-lg xl:text-xl text-gray-500">•</span>
                 <span className={`text-sm lg:text-base xl:text-lg font-semibold ${currentTeamColor}`}>
                   {getTeamName(draftState.currentTeam)}
+                  {isMultiplayer && isMyTurn && " (You)"}
                 </span>
+                {isRunning && (
+                  <span
+                    className={`px-3 py-0.5 rounded-full font-mono text-base lg:text-lg xl:text-xl font-black border ${
+                      isCritical
+                        ? "bg-red-900/60 text-red-400 border-red-500/40"
+                        : isWarning
+                          ? "bg-yellow-900/40 text-yellow-400 border-yellow-600/30"
+                          : "bg-gray-700/60 text-gray-200 border-gray-600/30"
+                    }`}
+                  >
+                    {timeRemaining}s
+                  </span>
+                )}
               </>
             )}
             {draftState.phase === "complete" && (
@@ -463,11 +863,9 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
           </div>
           <div className="flex-1 flex items-center justify-end gap-1 lg:gap-2">
             {/* Continue button for uma-pick complete */}
-            {draftState.phase === "uma-pick" &&
-              draftState.round === 3 &&
-              draftState.team1.pickedUmas.length === 3 &&
-              draftState.team2.pickedUmas.length === 3 &&
-              draftState.team3.pickedUmas.length === 3 && (
+            {canControlDraft &&
+              draftState.phase === "uma-pick" &&
+              isUmaDraftComplete(draftState) && (
                 <button
                   onClick={continueToCardPick}
                   className="bg-slate-600 hover:bg-slate-700 text-white font-semibold py-1.5 px-4 rounded-lg transition-colors text-sm"
@@ -476,11 +874,9 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
                 </button>
               )}
             {/* Continue button for card-pick complete */}
-            {draftState.phase === "card-pick" &&
-              draftState.round === 5 &&
-              draftState.team1.pickedCards.length === 5 &&
-              draftState.team2.pickedCards.length === 5 &&
-              draftState.team3.pickedCards.length === 5 && (
+            {canControlDraft &&
+              draftState.phase === "card-pick" &&
+              isCardDraftComplete(draftState) && (
                 <button
                   onClick={continueToComplete}
                   className="bg-slate-600 hover:bg-slate-700 text-white font-semibold py-1.5 px-4 rounded-lg transition-colors text-sm"
@@ -488,19 +884,23 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
                   View Results →
                 </button>
               )}
-            <button
-              onClick={handleUndo}
-              disabled={history.length <= 1}
-              className="bg-gray-700 hover:bg-gray-600 text-gray-100 font-semibold py-1.5 px-4 rounded-lg transition-colors border border-gray-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              ← Undo
-            </button>
-            <button
-              onClick={handleReset}
-              className="bg-gray-700 hover:bg-gray-600 text-gray-100 font-semibold py-1.5 px-4 rounded-lg transition-colors border border-gray-600 text-sm"
-            >
-              Reset
-            </button>
+            {canControlDraft && (
+              <>
+                <button
+                  onClick={handleUndo}
+                  disabled={history.length <= 1}
+                  className="bg-gray-700 hover:bg-gray-600 text-gray-100 font-semibold py-1.5 px-4 rounded-lg transition-colors border border-gray-600 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ← Undo
+                </button>
+                <button
+                  onClick={handleReset}
+                  className="bg-gray-700 hover:bg-gray-600 text-gray-100 font-semibold py-1.5 px-4 rounded-lg transition-colors border border-gray-600 text-sm"
+                >
+                  Reset
+                </button>
+              </>
+            )}
             <button
               onClick={handleBackToMenuClick}
               className="bg-gray-700 hover:bg-gray-600 text-gray-100 font-semibold py-1.5 px-4 rounded-lg transition-colors border border-gray-600 text-sm"
@@ -522,6 +922,7 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
             teamData={draftState.team1}
             isCurrentTurn={draftState.currentTeam === "team1"}
             phase={draftState.phase}
+            deckConstraints={deckConstraints}
           />
           <TeamPanel3v3v3
             team="team2"
@@ -529,6 +930,7 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
             teamData={draftState.team2}
             isCurrentTurn={draftState.currentTeam === "team2"}
             phase={draftState.phase}
+            deckConstraints={deckConstraints}
           />
           <TeamPanel3v3v3
             team="team3"
@@ -536,6 +938,7 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
             teamData={draftState.team3}
             isCurrentTurn={draftState.currentTeam === "team3"}
             phase={draftState.phase}
+            deckConstraints={deckConstraints}
           />
         </div>
       )}
@@ -545,10 +948,18 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
         {(draftState.phase === "uma-ban" ||
           draftState.phase === "uma-pick") && (
           <>
-            <h2 className="text-lg lg:text-xl xl:text-2xl font-bold mb-2 lg:mb-4 text-gray-100">
-              {draftState.phase === "uma-pick" && "Available Umamusume"}
-              {draftState.phase === "uma-ban" && "Available Umamusume"}
-            </h2>
+            <div className="flex items-start justify-between gap-2">
+              <h2 className="text-lg lg:text-xl xl:text-2xl font-bold mb-2 lg:mb-4 text-gray-100">
+                {draftState.phase === "uma-pick" && "Available Umamusume"}
+                {draftState.phase === "uma-ban" && "Available Umamusume"}
+              </h2>
+              <button
+                onClick={() => setShowSkillBrowser(true)}
+                className="shrink-0 px-3 py-1 rounded-lg text-xs lg:text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 transition-colors"
+              >
+                Skill Browser
+              </button>
+            </div>
             <input
               type="text"
               placeholder="Search Umamusume..."
@@ -556,9 +967,19 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
               onChange={(e) => setUmaSearch(e.target.value)}
               className="w-full mb-2 lg:mb-4 px-3 lg:px-4 py-1.5 lg:py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm lg:text-base text-gray-100 placeholder-gray-400 focus:outline-none focus:border-gray-500"
             />
+            <UmaAptitudeFilter
+              filters={aptitudeFilters}
+              onChange={setAptitudeFilters}
+            />
             <div className="grid grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-2 lg:gap-3 xl:gap-4">
               {getFilteredUmas().map((uma) => (
-                <UmaCard key={uma.id} uma={uma} onSelect={handleUmaSelect} />
+                <UmaCard
+                  key={uma.id}
+                  uma={uma}
+                  onSelect={handleUmaSelect}
+                  disabled={!isMyTurn}
+                  onShowDetails={setDetailUma}
+                />
               ))}
             </div>
           </>
@@ -617,43 +1038,87 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
               </button>
             </div>
 
+            {deckRulesLifted && (
+              <p className="mb-3 lg:mb-4 text-xs lg:text-sm text-amber-300 bg-amber-900/20 border border-amber-600/35 rounded-lg p-2 text-center">
+                No card left fits {getTeamName(draftState.currentTeam)}'s deck
+                rules, so any card can be picked this turn.
+              </p>
+            )}
             <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10 xl:grid-cols-15 gap-2 lg:gap-3 xl:gap-4">
-              {getFilteredCards().map((card) => (
-                <button
-                  key={card.id}
-                  onClick={() => handleCardSelect(card)}
-                  className="p-2 bg-gray-700 border-2 border-gray-600 rounded-lg hover:border-gray-500 hover:shadow-lg transition-all"
-                >
-                  <div className="aspect-square bg-gray-600 rounded mb-1 overflow-hidden relative p-2">
-                    {card.imageUrl ? (
-                      <img
-                        src={card.imageUrl}
-                        alt={card.name}
-                        className="w-full h-full object-cover rounded"
-                        onError={(e) => {
-                          const target = e.target as HTMLImageElement;
-                          target.style.display = "none";
-                        }}
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <span className="text-2xl text-gray-400">?</span>
+              {getFilteredCards().map((card) => {
+                const constraintError = deckRulesLifted
+                  ? null
+                  : getCardConstraintError(
+                      draftState[draftState.currentTeam],
+                      card,
+                      deckConstraints,
+                    );
+                const isInspected = inspectedCards.some(
+                  (c) => c.id === card.id,
+                );
+                return (
+                  <div key={card.id} className="relative">
+                    <button
+                      onClick={() => handleCardSelect(card)}
+                      disabled={!isMyTurn || constraintError !== null}
+                      title={constraintError ?? undefined}
+                      className="w-full h-full p-2 bg-gray-700 border-2 border-gray-600 rounded-lg hover:border-gray-500 hover:shadow-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <div className="aspect-square bg-gray-600 rounded mb-1 overflow-hidden relative p-2">
+                        {card.imageUrl ? (
+                          <img
+                            src={card.imageUrl}
+                            alt={card.name}
+                            className="w-full h-full object-cover rounded"
+                            onError={(e) => {
+                              const target = e.target as HTMLImageElement;
+                              target.style.display = "none";
+                            }}
+                          />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center">
+                            <span className="text-2xl text-gray-400">?</span>
+                          </div>
+                        )}
+                        {card.type && (
+                          <img
+                            src={`./type/${card.type === "friend" ? "pal" : card.type}.svg`}
+                            alt={card.type}
+                            className="absolute top-1 right-1 w-6 h-6 object-contain"
+                          />
+                        )}
                       </div>
-                    )}
-                    {card.type && (
-                      <img
-                        src={`./type/${card.type === 'friend' ? 'pal' : card.type}.svg`}
-                        alt={card.type}
-                        className="absolute top-1 right-1 w-6 h-6 object-contain"
-                      />
-                    )}
+                      <p className="text-xs font-semibold text-gray-100 text-center truncate">
+                        {card.name}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => toggleInspectedCard(card)}
+                      className={`absolute top-1 left-1 w-5 h-5 rounded-full text-[11px] font-bold transition-colors ${
+                        isInspected
+                          ? "bg-blue-600 text-white"
+                          : "bg-black/70 text-gray-200 hover:bg-blue-600"
+                      }`}
+                      title={
+                        isInspected
+                          ? "Remove from comparison"
+                          : "Details and compare"
+                      }
+                    >
+                      i
+                    </button>
                   </div>
-                  <p className="text-xs font-semibold text-gray-100 text-center truncate">
-                    {card.name}
-                  </p>
-                </button>
-              ))}
+                );
+              })}
             </div>
+
+            {inspectedCards.length > 0 && (
+              <CardDetailPanel
+                cards={inspectedCards}
+                onRemove={toggleInspectedCard}
+                onClear={() => setInspectedCards([])}
+              />
+            )}
           </>
         )}
         {draftState.phase === "complete" && (
@@ -777,6 +1242,18 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
                 ))}
               </div>
             </div>
+
+            <div className="flex flex-wrap gap-2 justify-center">
+              <RosterExportButtons
+                buildRoster={() =>
+                  buildRosterExport3v3v3(draftState, [
+                    team1Name,
+                    team2Name,
+                    team3Name,
+                  ])
+                }
+              />
+            </div>
           </div>
         )}{" "}
       </div>
@@ -790,7 +1267,8 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
             </h2>
             <p className="text-sm lg:text-base text-gray-400 mb-4 lg:mb-5 xl:mb-6">
               Are you sure you want to reset the draft? All progress will be
-              lost and you will return to the team name selection.
+              lost and you will return to the{" "}
+              {isMultiplayer ? "waiting room" : "team name selection"}.
             </p>
             <div className="flex gap-2 lg:gap-3 justify-end">
               <button
@@ -838,6 +1316,15 @@ export default function Draft3v3v3({ onBackToMenu }: Draft3v3v3Props) {
           </div>
         </div>
       )}
+
+      <SkillBrowserModal
+        isOpen={showSkillBrowser}
+        onClose={() => setShowSkillBrowser(false)}
+      />
+
+      {detailUma && (
+        <UmaDetailPopover uma={detailUma} onClose={() => setDetailUma(null)} />
+      )}
     </div>
   );
 }
@@ -1,5 +1,15 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react";
-import type { DraftState, UmaMusume, Map } from "../types";
+import type {
+  ConditionPolicy,
+  DraftRollback,
+  DraftRuleset,
+  DraftState,
+  Team,
+  UmaMusume,
+  Map,
+  MapPool,
+  ServerConfig,
+} from "../types";
 import {
   getInitialDraftState,
   selectUma,
@@ -11,9 +21,19 @@ import {
   countDistances,
   countDirtTracks,
   getRandomTimeoutSelection,
+  getLockedCharaIds,
+  getMapConditions,
+  isVariantLocked,
+  applyConditionPolicy,
+  applyMapPool,
+  applyServerConfig,
+  startRace,
 } from "../draftLogic";
-import { SAMPLE_MAPS } from "../data";
+import { getConditionPolicy } from "../conditionPolicy";
+import { getMapPool } from "../mapPool";
+import { getServerConfig } from "../serverMode";
 import { generateTrackConditions } from "../utils/trackConditions";
+import { generateSeed } from "../utils/seededRandom";
 import {
   saveDraftSession,
   clearDraftSession,
@@ -22,15 +42,38 @@ import {
 import { formatRoomCode } from "../utils/roomCode";
 import { roomExists } from "../services/firebaseRoom";
 import DraftHeader from "./DraftHeader";
-import { getTimelineForPhase } from "./DraftTimeline";
+import {
+  getCompletedStepCount,
+  getDraftScript,
+  getResumeTurn,
+  getTimelineForPhase,
+} from "../draftScript";
+import { getRuleset } from "../ruleset";
 import TeamPanel from "./TeamPanel";
 import UmaCard from "./UmaCard";
 import MapCard from "./MapCard";
+import CourseInspector from "./CourseInspector";
+import UmaAptitudeFilter from "./UmaAptitudeFilter";
+import {
+  matchesAptitudeFilters,
+  type AptitudeFilter,
+} from "../utils/umaAptitudes";
 import SpectatorView from "./SpectatorView";
 import WaitingRoom from "./WaitingRoom";
 import PhaseAnnouncement from "./PhaseAnnouncement";
 import MatchStatisticsModal from "./MatchStatisticsModal";
+import SeedVerifyModal from "./SeedVerifyModal";
+import RollbackModal from "./RollbackModal";
+import RollbackNotice from "./RollbackNotice";
+import SkillBrowserModal from "./SkillBrowserModal";
+import UmaDetailPopover from "./UmaDetailPopover";
+import { searchRaceMaps } from "../utils/raceCalendar";
 import MatchSummaryTeamRoster from "./MatchSummaryTeamRoster";
+import SuccessionPlanner from "./SuccessionPlanner";
+import RosterExportButtons from "./RosterExportButtons";
+import { buildRosterExport5v5 } from "../utils/rosterExport";
+import { buildPickOrderHistoryText } from "../utils/pickOrder";
+import { applyDraftAction } from "../draftActions";
 import {
   compareUmasByRelease,
   formatUmaName,
@@ -41,9 +84,12 @@ import { useFirebaseRoom } from "../hooks/useFirebaseRoom";
 import { useTurnTimer, DEFAULT_TURN_DURATION } from "../hooks/useTurnTimer";
 import { buildUmaMatchStats } from "../utils/matchStats";
 import type {
+  DraftStateWriteOptions,
   FirebasePendingAction,
   FirebasePendingSelection,
+  NewDraftLogEntry,
 } from "../types/firebase";
+import type { DraftActionPayload } from "../types/multiplayer";
 
 // ─── Match Reporting Config ───────────────────────────────────────────
 // Toggle between "points" and "wins" scoring systems
@@ -84,114 +130,6 @@ function isMatchSeriesOver(results: RaceResult[]): boolean {
   return team1Wins >= WINS_TO_WIN || team2Wins >= WINS_TO_WIN;
 }
 
-function buildPickOrderHistoryText(
-  history: DraftState[],
-  team1Name: string,
-  team2Name: string,
-): string {
-  const umaLabel = (u: { id: string | number; name: string; title?: string }) =>
-    formatUmaName(u);
-  const formatVariant = (m: { variant?: string }) =>
-    m.variant ? ` (${m.variant})` : "";
-
-  const t1n = team1Name || "Team 1";
-  const t2n = team2Name || "Team 2";
-  const pickOrder: string[] = [];
-
-  for (let i = 1; i < history.length; i++) {
-    const prev = history[i - 1];
-    const curr = history[i];
-
-    // Pre-bans
-    if (
-      (curr.team1.preBannedUmas?.length || 0) >
-      (prev.team1.preBannedUmas?.length || 0)
-    ) {
-      const newBans = (curr.team1.preBannedUmas || []).slice(
-        prev.team1.preBannedUmas?.length || 0,
-      );
-      newBans.forEach((u) => pickOrder.push(`${t1n} pre-ban: ${umaLabel(u)}`));
-    }
-    if (
-      (curr.team2.preBannedUmas?.length || 0) >
-      (prev.team2.preBannedUmas?.length || 0)
-    ) {
-      const newBans = (curr.team2.preBannedUmas || []).slice(
-        prev.team2.preBannedUmas?.length || 0,
-      );
-      newBans.forEach((u) => pickOrder.push(`${t2n} pre-ban: ${umaLabel(u)}`));
-    }
-
-    // Uma picks
-    if (curr.team1.pickedUmas.length > prev.team1.pickedUmas.length) {
-      const newPicks = curr.team1.pickedUmas.slice(
-        prev.team1.pickedUmas.length,
-      );
-      newPicks.forEach((u) => pickOrder.push(`${t1n} pick: ${umaLabel(u)}`));
-    }
-    if (curr.team2.pickedUmas.length > prev.team2.pickedUmas.length) {
-      const newPicks = curr.team2.pickedUmas.slice(
-        prev.team2.pickedUmas.length,
-      );
-      newPicks.forEach((u) => pickOrder.push(`${t2n} pick: ${umaLabel(u)}`));
-    }
-
-    // Uma bans (veto) - opposing team performs the veto
-    if (curr.team1.bannedUmas.length > prev.team1.bannedUmas.length) {
-      const newBans = curr.team1.bannedUmas.slice(prev.team1.bannedUmas.length);
-      newBans.forEach((u) => pickOrder.push(`${t2n} veto: ${umaLabel(u)}`));
-    }
-    if (curr.team2.bannedUmas.length > prev.team2.bannedUmas.length) {
-      const newBans = curr.team2.bannedUmas.slice(prev.team2.bannedUmas.length);
-      newBans.forEach((u) => pickOrder.push(`${t1n} veto: ${umaLabel(u)}`));
-    }
-
-    // Map picks
-    if (curr.team1.pickedMaps.length > prev.team1.pickedMaps.length) {
-      const newPicks = curr.team1.pickedMaps.slice(
-        prev.team1.pickedMaps.length,
-      );
-      newPicks.forEach((m) =>
-        pickOrder.push(
-          `${t1n} map pick: ${m.track}${formatVariant(m)} ${m.distance}m`,
-        ),
-      );
-    }
-    if (curr.team2.pickedMaps.length > prev.team2.pickedMaps.length) {
-      const newPicks = curr.team2.pickedMaps.slice(
-        prev.team2.pickedMaps.length,
-      );
-      newPicks.forEach((m) =>
-        pickOrder.push(
-          `${t2n} map pick: ${m.track}${formatVariant(m)} ${m.distance}m`,
-        ),
-      );
-    }
-
-    // Map vetoes - opposing team performs the veto
-    if (curr.team1.bannedMaps.length > prev.team1.bannedMaps.length) {
-      const newBans = curr.team1.bannedMaps.slice(prev.team1.bannedMaps.length);
-      newBans.forEach((m) =>
-        pickOrder.push(
-          `${t2n} map veto: ${m.track}${formatVariant(m)} ${m.distance}m`,
-        ),
-      );
-    }
-    if (curr.team2.bannedMaps.length > prev.team2.bannedMaps.length) {
-      const newBans = curr.team2.bannedMaps.slice(prev.team2.bannedMaps.length);
-      newBans.forEach((m) =>
-        pickOrder.push(
-          `${t1n} map veto: ${m.track}${formatVariant(m)} ${m.distance}m`,
-        ),
-      );
-    }
-  }
-
-  return pickOrder.length > 0
-    ? `=== PICK ORDER ===\n\n${pickOrder.map((s, i) => `${i + 1}. ${s}`).join("\n")}`
-    : "No pick order history available.";
-}
-
 // ─── Match Result Types ──────────────────────────────────────────────
 interface RacePlacement {
   position: 1 | 2 | 3;
@@ -219,6 +157,8 @@ interface MultiplayerConfig {
   playerName: string;
   isHost: boolean;
   isSpectator: boolean;
+  /** Ruleset chosen when hosting (host only) */
+  ruleset?: DraftRuleset;
 }
 
 interface Draft5v5Props {
@@ -243,6 +183,38 @@ const SFX_BASE_VOLUMES: Record<SfxKey, number> = {
   timerTick: 1,
 };
 
+/** Action log entry for a draft action this client applies itself */
+function toLogEntry(
+  state: DraftState,
+  action: DraftActionPayload,
+  actor: string | null,
+  team: Team = state.currentTeam,
+): NewDraftLogEntry {
+  return {
+    actor: actor ?? "",
+    team,
+    action,
+    phase: state.phase,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Rebase for a draft action this client applies itself
+ * Reapplies the action to the state that won a racing write, or drops it if
+ * it no longer applies there.
+ */
+function rebaseDraftAction(
+  action: DraftActionPayload,
+  team?: Team,
+  hostTeam?: Team,
+): (latest: DraftState) => DraftState | null {
+  return (latest) => {
+    const result = applyDraftAction(latest, action, team, hostTeam);
+    return result.ok ? result.state : null;
+  };
+}
+
 export default function Draft5v5({
   onBackToMenu,
   multiplayerConfig,
@@ -258,18 +230,29 @@ export default function Draft5v5({
     isConnected,
     players: firebasePlayers,
     spectators: firebaseSpectators,
+    awayPlayerIds,
+    isProcessorAttached,
+    draftHistory: loggedDraftHistory,
+    draftPickOrder,
+    userId,
     roomCode: firebaseRoomCode,
     createRoom: firebaseCreateRoom,
     joinRoom: firebaseJoinRoom,
     updateDraftState: syncUpdateDraftState,
+    rollbackDraft: syncRollbackDraft,
     sendAction: sendDraftAction,
     setPendingActionHandler,
     updatePendingSelection,
     pendingSelections,
     firebaseRoomCodes,
     updateRoomCodes: firebaseUpdateRoomCodes,
+    updateRuleset: firebaseUpdateRuleset,
   } = useFirebaseRoom();
 
+  // With an action processor attached, the host sends its draft actions like
+  // any other player instead of applying them
+  const appliesDraftActions = isHost && !isProcessorAttached;
+
   // Use Firebase room code, or fallback to config for joiners
   const roomCode = firebaseRoomCode || multiplayerConfig?.roomCode || "";
 
@@ -303,6 +286,9 @@ export default function Draft5v5({
           : multiplayerConfig.playerName,
         turnDuration: DEFAULT_TURN_DURATION,
       };
+      if (multiplayerConfig.isHost && multiplayerConfig.ruleset) {
+        initialState.ruleset = multiplayerConfig.ruleset;
+      }
     }
 
     return initialState;
@@ -317,6 +303,10 @@ export default function Draft5v5({
   ]);
   const [selectedTrack, setSelectedTrack] = useState<string | null>(null);
   const [umaSearch, setUmaSearch] = useState<string>("");
+  const [raceSearch, setRaceSearch] = useState<string>("");
+  const [aptitudeFilters, setAptitudeFilters] = useState<AptitudeFilter[]>([]);
+  const [detailUma, setDetailUma] = useState<UmaMusume | null>(null);
+  const [showSkillBrowser, setShowSkillBrowser] = useState<boolean>(false);
   const [showResetConfirm, setShowResetConfirm] = useState<boolean>(false);
   const [showMenuConfirm, setShowMenuConfirm] = useState<boolean>(false);
   const [showWildcardModal, setShowWildcardModal] = useState<boolean>(false);
@@ -341,6 +331,7 @@ export default function Draft5v5({
   // Pending selection state for lock-in system
   const [pendingUma, setPendingUma] = useState<UmaMusume | null>(null);
   const [pendingMap, setPendingMap] = useState<Map | null>(null);
+  const [hoveredMap, setHoveredMap] = useState<Map | null>(null);
   const [sfxVolume, setSfxVolume] = useState<number>(() => {
     const saved = localStorage.getItem("draft5v5SfxVolume");
     if (!saved) return 70;
@@ -388,6 +379,15 @@ export default function Draft5v5({
   const [showMatchReporting, setShowMatchReporting] = useState<boolean>(false);
   const [showMatchStatistics, setShowMatchStatistics] =
     useState<boolean>(false);
+  const [showSeedVerify, setShowSeedVerify] = useState<boolean>(false);
+  const [showRollback, setShowRollback] = useState<boolean>(false);
+  // Rollback request the opponent already answered (hides the buttons until
+  // the host's update arrives)
+  const [answeredRollbackAt, setAnsweredRollbackAt] = useState<number | null>(
+    null,
+  );
+  // Applied rollback whose history this client has already picked up
+  const seenRollbackRef = useRef<number | null>(null);
   const [pendingReport, setPendingReport] = useState<PendingReport | null>(
     null,
   );
@@ -471,74 +471,25 @@ export default function Draft5v5({
     }
   }, [seriesOver, isMultiplayer]);
 
-  const finalizeDraftStateForSync = useCallback(
-    (state: DraftState, historyOverride?: DraftState[]) => {
-      if (
-        !isMultiplayer ||
-        !isHost ||
-        state.phase !== "complete" ||
-        state.pickOrderHistoryText
-      ) {
-        return state;
-      }
-
-      const draftHistory =
-        historyOverride ||
-        (history[history.length - 1] === state ? history : [...history, state]);
-
-      return {
-        ...state,
-        pickOrderHistoryText: buildPickOrderHistoryText(
-          draftHistory,
-          team1Name,
-          team2Name,
-        ),
-      };
-    },
-    [history, isHost, isMultiplayer, team1Name, team2Name],
-  );
-
+  // Draft actions go in with a log entry; the room builds the pick order
+  // text from its action log when one completes the draft
   const persistDraftState = useCallback(
-    (state: DraftState, historyOverride?: DraftState[]) => {
-      const finalizedState = finalizeDraftStateForSync(state, historyOverride);
-      syncUpdateDraftState(finalizedState);
-      return finalizedState;
+    (state: DraftState, options?: DraftStateWriteOptions) => {
+      syncUpdateDraftState(state, options).then((saved) => {
+        // Another write got in first (or the room added the pick order) —
+        // show what the room actually holds
+        if (saved && saved !== state) {
+          setDraftState((prev) => ({
+            ...saved,
+            multiplayer: prev.multiplayer,
+          }));
+        }
+      });
+      return state;
     },
-    [finalizeDraftStateForSync, syncUpdateDraftState],
+    [syncUpdateDraftState],
   );
 
-  // Host emits finalized pick-order text exactly once when draft completes.
-  useEffect(() => {
-    if (!isMultiplayer || !isHost || draftState.phase !== "complete") return;
-    if (draftState.pickOrderHistoryText) return;
-
-    const draftHistory =
-      history[history.length - 1] === draftState
-        ? history
-        : [...history, draftState];
-    const pickOrderHistoryText = buildPickOrderHistoryText(
-      draftHistory,
-      team1Name,
-      team2Name,
-    );
-    const newState: DraftState = {
-      ...draftState,
-      pickOrderHistoryText,
-    };
-
-    draftStateRef.current = newState;
-    setDraftState(newState);
-    persistDraftState(newState, draftHistory);
-  }, [
-    isMultiplayer,
-    isHost,
-    draftState,
-    history,
-    team1Name,
-    team2Name,
-    persistDraftState,
-  ]);
-
   // Clear pending selection when phase or turn changes
   useEffect(() => {
     setPendingUma(null);
@@ -706,9 +657,21 @@ export default function Draft5v5({
     };
   }, []);
 
+  // Seats whose player has been offline past the grace period — the host
+  // runs their turn timer so the draft doesn't stall on them
+  const awayTeams = firebasePlayers
+    .filter((player) => awayPlayerIds.includes(player.id))
+    .map((player) => player.team);
+  const awayTeamsRef = useRef(awayTeams);
+  awayTeamsRef.current = awayTeams;
+  const firebasePlayersRef = useRef(firebasePlayers);
+  firebasePlayersRef.current = firebasePlayers;
+
   // Timer authority: you control timer when it's your turn (or always in local mode)
   const isTimerAuthority =
-    !isMultiplayer || draftState.currentTeam === localTeam;
+    !isMultiplayer ||
+    draftState.currentTeam === localTeam ||
+    (appliesDraftActions && awayTeams.includes(draftState.currentTeam));
 
   // Processing lock — prevents overlapping timeout/action processing.
   // Set true before processing, cleared after state is committed (ref + setDraftState).
@@ -733,10 +696,18 @@ export default function Draft5v5({
       return;
     }
 
-    // HARD GUARD 2: verify this timeout is genuinely for our turn.
+    // HARD GUARD 2: verify this timeout is genuinely for our turn (or for
+    // an away team the host is covering).
     const currentLocalTeam =
       currentState.multiplayer?.localTeam || (isHost ? "team1" : "team2");
-    if (isMultiplayer && currentState.currentTeam !== currentLocalTeam) {
+    const isCoveringAwayTeam =
+      appliesDraftActions &&
+      awayTeamsRef.current.includes(currentState.currentTeam);
+    if (
+      isMultiplayer &&
+      currentState.currentTeam !== currentLocalTeam &&
+      !isCoveringAwayTeam
+    ) {
       console.log("Ignoring stale timeout — not our turn anymore");
       return;
     }
@@ -811,6 +782,7 @@ export default function Draft5v5({
       // Helper to handle local state update (for host or non-multiplayer)
       const updateLocalState = (
         newState: DraftState,
+        action: DraftActionPayload,
         clearTrack: boolean = false,
       ) => {
         if (newState !== currentState) {
@@ -818,8 +790,11 @@ export default function Draft5v5({
           // callback that fires before React re-renders sees the new state.
           const historyForState = [...history, newState];
           const finalizedState =
-            isMultiplayer && isHost
-              ? persistDraftState(newState, historyForState)
+            isMultiplayer && appliesDraftActions
+              ? persistDraftState(newState, {
+                  logEntry: toLogEntry(currentState, action, userId),
+                  rebase: rebaseDraftAction(action, currentState.currentTeam),
+                })
               : newState;
           draftStateRef.current = finalizedState;
           setDraftState(finalizedState);
@@ -830,16 +805,18 @@ export default function Draft5v5({
         }
       };
 
-      // Helper to send action for non-host multiplayer
+      // Helper to send the action to the host or processor
       const sendAction = (
         itemId: string,
         itemType: "uma" | "map",
         action: "pick" | "ban",
+        raceId?: number,
       ) => {
         sendDraftAction({
           action,
           itemId,
           itemType,
+          ...(raceId !== undefined && { raceId }),
         });
         // Non-host: don't update local state - wait for Firebase sync
         // Just reset track selection for map picks
@@ -848,15 +825,15 @@ export default function Draft5v5({
         }
       };
 
-      // If user has a pending selection, lock it in
-      if (pendingUma && isUmaPhaseNow) {
+      // If user has a pending selection, lock it in (never for an away team)
+      if (pendingUma && isUmaPhaseNow && !isCoveringAwayTeam) {
         console.log("Locking in pending uma:", pendingUma.name);
         playSfx(timeoutClickSfxKey);
         playUmaVoiceline(
           pendingUma,
           currentState.phase === "uma-pick" ? "picked" : "banned",
         );
-        if (isMultiplayer && !isHost) {
+        if (isMultiplayer && !appliesDraftActions) {
           sendAction(
             pendingUma.id.toString(),
             "uma",
@@ -864,7 +841,11 @@ export default function Draft5v5({
           );
         } else {
           const newState = selectUma(currentState, pendingUma);
-          updateLocalState(newState);
+          updateLocalState(newState, {
+            action: currentState.phase === "uma-pick" ? "pick" : "ban",
+            itemId: pendingUma.id.toString(),
+            itemType: "uma",
+          });
         }
         setPendingUma(null);
         setUmaSearch("");
@@ -872,22 +853,32 @@ export default function Draft5v5({
         return;
       }
 
-      if (pendingMap && isMapPhaseNow) {
+      if (pendingMap && isMapPhaseNow && !isCoveringAwayTeam) {
         console.log("Locking in pending map:", pendingMap.name);
         playSfx(timeoutClickSfxKey);
-        if (isMultiplayer && !isHost) {
+        if (isMultiplayer && !appliesDraftActions) {
           sendAction(
             pendingMap.name,
             "map",
             currentState.phase === "map-pick" ? "pick" : "ban",
+            pendingMap.race?.id,
           );
         } else {
           const mapWithConditions: Map = {
             ...pendingMap,
-            conditions: pendingMap.conditions || generateTrackConditions(),
+            conditions: getMapConditions(currentState, pendingMap),
           };
           const newState = selectMap(currentState, mapWithConditions);
-          updateLocalState(newState, true);
+          updateLocalState(
+            newState,
+            {
+              action: currentState.phase === "map-pick" ? "pick" : "ban",
+              itemId: pendingMap.name,
+              itemType: "map",
+              ...(pendingMap.race && { raceId: pendingMap.race.id }),
+            },
+            true,
+          );
         }
         setPendingMap(null);
         resolve();
@@ -913,7 +904,7 @@ export default function Draft5v5({
           uma,
           currentState.phase === "uma-pick" ? "picked" : "banned",
         );
-        if (isMultiplayer && !isHost) {
+        if (isMultiplayer && !appliesDraftActions) {
           sendAction(
             uma.id.toString(),
             "uma",
@@ -921,12 +912,16 @@ export default function Draft5v5({
           );
         } else {
           const newState = selectUma(currentState, uma);
-          updateLocalState(newState);
+          updateLocalState(newState, {
+            action: currentState.phase === "uma-pick" ? "pick" : "ban",
+            itemId: uma.id.toString(),
+            itemType: "uma",
+          });
         }
         setUmaSearch("");
       } else {
         const map = selection.item as Map;
-        if (isMultiplayer && !isHost) {
+        if (isMultiplayer && !appliesDraftActions) {
           sendAction(
             map.name,
             "map",
@@ -935,10 +930,18 @@ export default function Draft5v5({
         } else {
           const mapWithConditions: Map = {
             ...map,
-            conditions: map.conditions || generateTrackConditions(),
+            conditions: getMapConditions(currentState, map),
           };
           const newState = selectMap(currentState, mapWithConditions);
-          updateLocalState(newState, true);
+          updateLocalState(
+            newState,
+            {
+              action: currentState.phase === "map-pick" ? "pick" : "ban",
+              itemId: map.name,
+              itemType: "map",
+            },
+            true,
+          );
         }
       }
 
@@ -964,6 +967,8 @@ export default function Draft5v5({
   }, [
     isMultiplayer,
     isHost,
+    appliesDraftActions,
+    userId,
     syncUpdateDraftState,
     sendDraftAction,
     pendingUma,
@@ -1166,7 +1171,7 @@ export default function Draft5v5({
         syncedDraftState_phase: syncedDraftState.phase,
         syncedDraftState_currentTeam: syncedDraftState.currentTeam,
         syncedDraftState_multiplayer: syncedDraftState.multiplayer,
-        isHost: multiplayerConfig?.isHost,
+        isHost,
       });
 
       // Host is the authority — it already sets local state directly in every
@@ -1176,7 +1181,8 @@ export default function Draft5v5({
       // match reports) — NOT the main draft state overwrite.
       // Exception: on reconnect (phase === "reconnecting"), host MUST apply
       // the Firebase state once to restore where the draft left off.
-      if (!multiplayerConfig?.isHost) {
+      // Uses the room's hostId, which moves if the host stays offline.
+      if (!isHost) {
         // Non-host: always apply the full synced state
         setDraftState((prevState) => {
           const localTeam =
@@ -1219,14 +1225,16 @@ export default function Draft5v5({
         });
       } else {
         // Host: only apply synced state when reconnecting (to restore draft)
+        // or while an action processor is the authority
         setDraftState((prevState) => {
-          if (prevState.phase !== "reconnecting") return prevState; // Skip — host is authority
+          if (prevState.phase !== "reconnecting" && !isProcessorAttached)
+            return prevState; // Skip — host is authority
           return {
             ...syncedDraftState,
             multiplayer: {
               enabled: true,
               connectionType: "host",
-              localTeam: "team1",
+              localTeam: prevState.multiplayer?.localTeam || "team1",
               roomId:
                 syncedDraftState.multiplayer?.roomId ||
                 multiplayerConfig?.roomCode ||
@@ -1241,6 +1249,22 @@ export default function Draft5v5({
         });
       }
 
+      // History comes from the room's action log, except for the acting host
+      // once it has restored it on reconnect (or picked up a rollback)
+      const appliedRollbackAt =
+        syncedDraftState.rollback?.status === "applied"
+          ? syncedDraftState.rollback.requestedAt
+          : null;
+      if (
+        loggedDraftHistory &&
+        (!appliesDraftActions ||
+          draftStateRef.current.phase === "reconnecting" ||
+          appliedRollbackAt !== seenRollbackRef.current)
+      ) {
+        setHistory(loggedDraftHistory);
+        seenRollbackRef.current = appliedRollbackAt;
+      }
+
       // Also update local team name state from synced multiplayer state
       if (syncedDraftState.multiplayer?.team1Name) {
         setTeam1Name(syncedDraftState.multiplayer.team1Name);
@@ -1262,7 +1286,7 @@ export default function Draft5v5({
       ) {
         setShowWildcardModal(true);
         // Auto-start reveal for non-host players so animation syncs
-        if (!multiplayerConfig?.isHost) {
+        if (!isHost) {
           setRevealStarted(true);
         }
       }
@@ -1296,7 +1320,7 @@ export default function Draft5v5({
           return prev;
         });
       }
-      if (synced.pendingMatchReport && !multiplayerConfig?.isHost) {
+      if (synced.pendingMatchReport && !isHost) {
         // Only set if team 2 hasn't already responded to this exact submission
         const subId =
           synced.pendingMatchReport.submissionId ??
@@ -1309,7 +1333,7 @@ export default function Draft5v5({
             submissionId: subId,
           });
         }
-      } else if (!synced.pendingMatchReport && !multiplayerConfig?.isHost) {
+      } else if (!synced.pendingMatchReport && !isHost) {
         // Host cleared it
         setPendingReport(null);
         respondedReportRef.current = null;
@@ -1317,6 +1341,10 @@ export default function Draft5v5({
     }
   }, [
     isMultiplayer,
+    isHost,
+    isProcessorAttached,
+    appliesDraftActions,
+    loggedDraftHistory,
     syncedDraftState,
     multiplayerConfig,
     showWildcardModal,
@@ -1332,9 +1360,13 @@ export default function Draft5v5({
     // Helper: read latest state from ref, apply update, sync to Firebase,
     // and update the ref synchronously so the next action in the same tick
     // also sees the latest state.
-    const applyState = (newState: DraftState, addHistory = true) => {
+    const applyState = (
+      newState: DraftState,
+      addHistory = true,
+      options?: DraftStateWriteOptions,
+    ) => {
       const historyForState = addHistory ? [...history, newState] : history;
-      const finalizedState = persistDraftState(newState, historyForState);
+      const finalizedState = persistDraftState(newState, options);
       draftStateRef.current = finalizedState;
       setDraftState(finalizedState);
       if (addHistory) setHistory(historyForState);
@@ -1347,6 +1379,7 @@ export default function Draft5v5({
 
       // Always read from ref — closure may be stale after a rapid state update.
       const state = draftStateRef.current;
+      const hostTeam = state.multiplayer?.localTeam ?? "team1";
 
       // Don't process actions while host is still restoring state from Firebase.
       if (state.phase === "reconnecting") {
@@ -1373,7 +1406,7 @@ export default function Draft5v5({
         state.currentTeam,
       );
 
-      // Handle control actions (phase transitions and ready state)
+      // Handle control actions (team names and match reports)
       if (action.itemType === "control") {
         // Handle team name change
         if (action.action === "team-name") {
@@ -1408,17 +1441,6 @@ export default function Draft5v5({
           return;
         }
 
-        // Handle ready action
-        if (action.action === "ready") {
-          const team = action.itemId as "team1" | "team2";
-          const newState = {
-            ...state,
-            [team === "team1" ? "team1Ready" : "team2Ready"]: true,
-          };
-          applyState(newState, false);
-          return;
-        }
-
         // Handle match result confirmation from team 2
         if (action.action === "match-confirm") {
           try {
@@ -1449,6 +1471,48 @@ export default function Draft5v5({
           return;
         }
 
+        // Handle the opponent's answer to the host's rollback request
+        if (
+          action.action === "rollback-confirm" ||
+          action.action === "rollback-reject"
+        ) {
+          const request = state.rollback;
+          const sender = firebasePlayersRef.current.find(
+            (player) => player.id === senderId,
+          );
+          if (
+            request?.status !== "pending" ||
+            String(request.requestedAt) !== action.itemId ||
+            !sender?.team ||
+            sender.team === hostTeam
+          ) {
+            console.warn("Ignoring rollback answer:", action, senderId);
+            return;
+          }
+
+          if (action.action === "rollback-reject") {
+            const declined = { ...request, status: "declined" as const };
+            applyState({ ...state, rollback: declined }, false, {
+              rebase: (latest) =>
+                latest.rollback?.requestedAt === request.requestedAt
+                  ? { ...latest, rollback: declined }
+                  : null,
+            });
+            return;
+          }
+
+          syncRollbackDraft(request, hostTeam).then((rolledBack) => {
+            if (!rolledBack) return;
+            const newState = {
+              ...rolledBack,
+              multiplayer: draftStateRef.current.multiplayer,
+            };
+            draftStateRef.current = newState;
+            setDraftState(newState);
+          });
+          return;
+        }
+
         // Handle match result rejection from team 2
         if (action.action === "match-reject") {
           setPendingReport(null);
@@ -1463,130 +1527,31 @@ export default function Draft5v5({
           });
           return;
         }
-
-        if (action.phase === "map-pick" && state.phase === "pre-draft-pause") {
-          const newState = {
-            ...state,
-            phase: "map-pick" as const,
-            currentTeam: "team1" as const,
-            team1Ready: false,
-            team2Ready: false,
-          };
-          applyState(newState);
-          return;
-        } else if (
-          action.phase === "uma-pre-ban" &&
-          state.phase === "post-map-pause"
-        ) {
-          const newState = {
-            ...state,
-            phase: "uma-pre-ban" as const,
-            currentTeam: "team1" as const,
-            team1Ready: false,
-            team2Ready: false,
-          };
-          applyState(newState);
-          return;
-        }
       }
 
-      // Process the action based on type
-      if (action.itemType === "map") {
-        let map: Map | undefined;
-        if (state.phase === "map-ban") {
-          const opponentTeam =
-            state.currentTeam === "team1" ? "team2" : "team1";
-          map = state[opponentTeam].pickedMaps.find(
-            (m) => m.name === action.itemId,
-          );
-        } else {
-          map = state.availableMaps.find((m) => m.name === action.itemId);
-        }
-        console.log(
-          "Looking for map:",
-          action.itemId,
-          "Phase:",
-          state.phase,
-          "Found:",
-          !!map,
-        );
-        if (map) {
-          const mapWithConditions: Map = {
-            ...map,
-            conditions: map.conditions || generateTrackConditions(),
-          };
-          const newState = selectMap(state, mapWithConditions);
-          console.log(
-            "State changed:",
-            newState !== state,
-            "New phase:",
-            newState.phase,
-          );
-          if (newState !== state) {
-            applyState(newState);
-          }
-        } else {
-          console.error("Map not found:", action.itemId, "Phase:", state.phase);
-          if (state.phase === "map-ban") {
-            const opponentTeam =
-              state.currentTeam === "team1" ? "team2" : "team1";
-            console.log(
-              "Opponent picked maps:",
-              state[opponentTeam].pickedMaps.map((m) => m.name),
-            );
-          } else {
-            console.log(
-              "Available maps:",
-              state.availableMaps.map((m) => m.name),
-            );
-          }
-        }
-      } else if (action.itemType === "uma") {
-        let uma: UmaMusume | undefined;
-        if (state.phase === "uma-ban") {
-          const opponentTeam =
-            state.currentTeam === "team1" ? "team2" : "team1";
-          uma = state[opponentTeam].pickedUmas.find(
-            (u) => u.id.toString() === action.itemId,
-          );
-        } else {
-          uma = state.availableUmas.find(
-            (u) => u.id.toString() === action.itemId,
-          );
-        }
-        console.log(
-          "Looking for uma:",
-          action.itemId,
-          "Phase:",
-          state.phase,
-          "Found:",
-          !!uma,
-        );
-        if (uma) {
-          const newState = selectUma(state, uma);
-          console.log(
-            "State changed:",
-            newState !== state,
-            "New phase:",
-            newState.phase,
-          );
-          if (newState !== state) {
-            applyState(newState);
-          }
-        } else {
-          console.error("Uma not found:", action.itemId, "Phase:", state.phase);
-          if (state.phase === "uma-ban") {
-            const opponentTeam =
-              state.currentTeam === "team1" ? "team2" : "team1";
-            console.log(
-              "Opponent picked umas:",
-              state[opponentTeam].pickedUmas.map((u) => u.id),
-            );
-          } else {
-            console.log("Available umas count:", state.availableUmas.length);
-          }
-        }
+      // Ready, resume, picks and bans use the same validation as the action
+      // processor
+      const sender = firebasePlayersRef.current.find(
+        (player) => player.id === senderId,
+      );
+      const senderTeam = sender?.team as Team | undefined;
+      const result = applyDraftAction(state, action, senderTeam, hostTeam);
+      if (!result.ok) {
+        console.error("Rejected action:", result.reason, action);
+        return;
       }
+      // Logged for the sender's seat (or the team the action was valid for)
+      const team =
+        senderTeam ??
+        (action.action === "ready"
+          ? (action.itemId as Team)
+          : state.currentTeam);
+      // Ready flags don't get an undo history entry. If another write lands
+      // first, the action is reapplied to that state.
+      applyState(result.state, action.action !== "ready", {
+        logEntry: toLogEntry(state, action, senderId, team),
+        rebase: rebaseDraftAction(action, senderTeam, hostTeam),
+      });
     };
 
     setPendingActionHandler(handlePendingAction);
@@ -1594,7 +1559,60 @@ export default function Draft5v5({
     return () => {
       setPendingActionHandler(null);
     };
-  }, [isMultiplayer, isHost, setPendingActionHandler, syncUpdateDraftState]);
+  }, [
+    isMultiplayer,
+    isHost,
+    setPendingActionHandler,
+    syncUpdateDraftState,
+    syncRollbackDraft,
+  ]);
+
+  // Host: ask the opponent to undo every pick and ban from a step on
+  const requestRollback = (step: number) => {
+    if (!draftPickOrder?.[step]) return;
+    const request: DraftRollback = {
+      step,
+      label: draftPickOrder[step],
+      status: "pending",
+      requestedAt: Date.now(),
+    };
+    const newState = { ...draftStateRef.current, rollback: request };
+    draftStateRef.current = newState;
+    setDraftState(newState);
+    persistDraftState(newState, {
+      rebase: (latest) => ({ ...latest, rollback: request }),
+    });
+  };
+
+  // Opponent: agree to or decline the host's rollback request
+  const answerRollback = (confirm: boolean) => {
+    const request = draftState.rollback;
+    if (request?.status !== "pending") return;
+    setAnsweredRollbackAt(request.requestedAt);
+    sendDraftAction({
+      action: confirm ? "rollback-confirm" : "rollback-reject",
+      itemType: "control",
+      itemId: String(request.requestedAt),
+    });
+  };
+
+  const isDraftInProgress =
+    isUmaPhase ||
+    draftState.phase === "map-pick" ||
+    draftState.phase === "map-ban" ||
+    draftState.phase === "pre-draft-pause" ||
+    draftState.phase === "post-map-pause";
+  const canRequestRollback =
+    isMultiplayer &&
+    isHost &&
+    isDraftInProgress &&
+    draftState.rollback?.status !== "pending" &&
+    !!draftPickOrder?.length;
+  // The host asks for rollbacks; the player in the other seat answers
+  const isHostTeam2 =
+    firebaseRoom?.players?.[firebaseRoom.hostId]?.team === "team2";
+  const hostTeamName = isHostTeam2 ? team2Name : team1Name;
+  const hostOpponentName = isHostTeam2 ? team1Name : team2Name;
 
   // Handle connection events (disconnections)
   useEffect(() => {
@@ -1736,19 +1754,23 @@ export default function Draft5v5({
         draftState.phase === "uma-pick" ? "picked" : "banned",
       );
       setUmaSearch("");
-      if (isMultiplayer && isHost) {
+      const action: DraftActionPayload = {
+        action: draftState.phase === "uma-pick" ? "pick" : "ban",
+        itemId: uma.id.toString(),
+        itemType: "uma",
+      };
+      if (isMultiplayer && appliesDraftActions) {
         // Host broadcasts state to all peers and updates local state
         const historyForState = [...history, newState];
-        const finalizedState = persistDraftState(newState, historyForState);
+        const finalizedState = persistDraftState(newState, {
+          logEntry: toLogEntry(draftState, action, userId, team),
+          rebase: rebaseDraftAction(action, team),
+        });
         setDraftState(finalizedState);
         setHistory(historyForState);
       } else if (isMultiplayer) {
-        // Non-host sends action request to host - wait for Firebase sync (no optimistic update)
-        sendDraftAction({
-          action: draftState.phase === "uma-pick" ? "pick" : "ban",
-          itemId: uma.id.toString(),
-          itemType: "uma",
-        });
+        // Send action request to the host or processor - wait for Firebase sync (no optimistic update)
+        sendDraftAction(action);
         // Don't update local state - wait for confirmed state from Firebase
       } else {
         // Local mode - just update state
@@ -1776,7 +1798,7 @@ export default function Draft5v5({
     // Use the map's pre-generated conditions (fallback just in case)
     const mapWithConditions: Map = {
       ...map,
-      conditions: map.conditions || generateTrackConditions(),
+      conditions: getMapConditions(draftState, map),
     };
 
     // Use multiplayer-aware select function
@@ -1787,28 +1809,36 @@ export default function Draft5v5({
     // Only update if state changed (permission check passed)
     if (newState !== draftState) {
       console.log("[confirmMapSelect] Selection allowed, updating state");
-      if (isMultiplayer && isHost) {
+      const action: DraftActionPayload = {
+        action: draftState.phase === "map-pick" ? "pick" : "ban",
+        itemId: map.name,
+        itemType: "map",
+        ...(map.race && { raceId: map.race.id }),
+      };
+      if (isMultiplayer && appliesDraftActions) {
         // Host broadcasts state to all peers and updates local state
         const historyForState = [...history, newState];
-        const finalizedState = persistDraftState(newState, historyForState);
+        const finalizedState = persistDraftState(newState, {
+          logEntry: toLogEntry(draftState, action, userId, team),
+          rebase: rebaseDraftAction(action, team),
+        });
         setDraftState(finalizedState);
         setHistory(historyForState);
         setSelectedTrack(null); // Reset track selection after picking
+        setRaceSearch("");
       } else if (isMultiplayer) {
-        // Non-host sends action request to host - wait for Firebase sync (no optimistic update)
-        sendDraftAction({
-          action: draftState.phase === "map-pick" ? "pick" : "ban",
-          itemId: map.name,
-          itemType: "map",
-        });
+        // Send action request to the host or processor - wait for Firebase sync (no optimistic update)
+        sendDraftAction(action);
         // Don't update local state - wait for confirmed state from Firebase
         // But do reset track selection so UI is ready for next pick
         setSelectedTrack(null);
+        setRaceSearch("");
       } else {
         // Local mode - just update state
         setDraftState(newState);
         setHistory([...history, newState]);
         setSelectedTrack(null); // Reset track selection after picking
+        setRaceSearch("");
       }
     } else {
       console.log("[confirmMapSelect] Selection DENIED - state unchanged");
@@ -1887,16 +1917,25 @@ export default function Draft5v5({
     const localTeam =
       draftState.multiplayer?.localTeam || (isHost ? "team1" : "team2");
 
-    if (isMultiplayer && isHost) {
-      // Host sets their own ready state and syncs
+    if (isMultiplayer && appliesDraftActions) {
+      // Host sets their own seat's ready state and syncs (the host isn't
+      // team 1 once the role has been handed over)
       const newState = {
         ...draftState,
-        team1Ready: true,
+        [localTeam === "team1" ? "team1Ready" : "team2Ready"]: true,
       };
-      persistDraftState(newState);
+      const action: DraftActionPayload = {
+        action: "ready",
+        itemType: "control",
+        itemId: localTeam,
+      };
+      persistDraftState(newState, {
+        logEntry: toLogEntry(draftState, action, userId, localTeam),
+        rebase: rebaseDraftAction(action, localTeam),
+      });
       setDraftState(newState);
     } else if (isMultiplayer) {
-      // Non-host sends ready action to host — don't update local state
+      // Send ready action to the host or processor — don't update local state
       // Wait for Firebase sync confirmation to avoid double-render
       sendDraftAction({
         action: "ready",
@@ -1910,8 +1949,7 @@ export default function Draft5v5({
   const handleStartMapDraft = () => {
     const newState = {
       ...draftState,
-      phase: "map-pick" as const,
-      currentTeam: "team1" as const,
+      ...getResumeTurn(draftState),
       team1Ready: false,
       team2Ready: false,
     };
@@ -1919,16 +1957,20 @@ export default function Draft5v5({
     setDraftState(newState);
 
     // Sync to all clients in multiplayer
-    if (isMultiplayer && isHost) {
-      persistDraftState(newState);
-    } else if (isMultiplayer && !isHost) {
-      // Non-host players send action to host
-      sendDraftAction({
-        action: "pick",
-        itemType: "control",
-        itemId: "start-map-draft",
-        phase: "map-pick",
+    const action: DraftActionPayload = {
+      action: "pick",
+      itemType: "control",
+      itemId: "start-map-draft",
+      phase: "map-pick",
+    };
+    if (isMultiplayer && appliesDraftActions) {
+      persistDraftState(newState, {
+        logEntry: toLogEntry(draftState, action, userId, localTeam),
+        rebase: rebaseDraftAction(action, localTeam, localTeam),
       });
+    } else if (isMultiplayer) {
+      // Send action to the host or processor
+      sendDraftAction(action);
     }
   };
 
@@ -1936,8 +1978,7 @@ export default function Draft5v5({
   const handleContinueToUma = () => {
     const newState = {
       ...draftState,
-      phase: "uma-pre-ban" as const,
-      currentTeam: "team1" as const,
+      ...getResumeTurn(draftState),
       team1Ready: false,
       team2Ready: false,
     };
@@ -1945,16 +1986,20 @@ export default function Draft5v5({
     setDraftState(newState);
 
     // Sync to all clients in multiplayer
-    if (isMultiplayer && isHost) {
-      persistDraftState(newState);
-    } else if (isMultiplayer && !isHost) {
-      // Non-host players send action to host
-      sendDraftAction({
-        action: "ban",
-        itemType: "control",
-        itemId: "continue-to-uma",
-        phase: "uma-pre-ban",
+    const action: DraftActionPayload = {
+      action: "ban",
+      itemType: "control",
+      itemId: "continue-to-uma",
+      phase: "uma-pre-ban",
+    };
+    if (isMultiplayer && appliesDraftActions) {
+      persistDraftState(newState, {
+        logEntry: toLogEntry(draftState, action, userId, localTeam),
+        rebase: rebaseDraftAction(action, localTeam, localTeam),
       });
+    } else if (isMultiplayer) {
+      // Send action to the host or processor
+      sendDraftAction(action);
     }
   };
 
@@ -1964,6 +2009,10 @@ export default function Draft5v5({
       return;
     }
 
+    // Race-time policies keep conditions hidden until each race comes up
+    const showConditions =
+      draftState.conditionPolicy?.rollTiming !== "race-time";
+    const cycleMaps = [draftState.wildcardMap, ...draftState.availableMaps];
     let cycleCount = 0;
     const fastCycles = 20; // Fast spin for ~1.5 seconds
     const slowCycles = 8; // Slowdown for ~1.0 seconds
@@ -1980,9 +2029,8 @@ export default function Draft5v5({
         return;
       }
 
-      const randomMap =
-        SAMPLE_MAPS[Math.floor(Math.random() * SAMPLE_MAPS.length)];
-      const conditions = generateTrackConditions();
+      const randomMap = cycleMaps[Math.floor(Math.random() * cycleMaps.length)];
+      const conditions = showConditions ? generateTrackConditions() : undefined;
       setCyclingMap({ ...randomMap, conditions });
 
       // Calculate delay - fast at first, then slow down
@@ -2004,7 +2052,13 @@ export default function Draft5v5({
         clearTimeout(timeoutId);
       }
     };
-  }, [showWildcardModal, revealStarted, draftState.wildcardMap]);
+  }, [
+    showWildcardModal,
+    revealStarted,
+    draftState.wildcardMap,
+    draftState.availableMaps,
+    draftState.conditionPolicy?.rollTiming,
+  ]);
 
   const confirmTeamNames = () => {
     const name1 = tempTeam1Name || "Team 1";
@@ -2083,6 +2137,37 @@ export default function Draft5v5({
     }
   };
 
+  // Handle ruleset change from waiting room (host only, before the draft starts)
+  const handleRulesetChange = (ruleset: DraftRuleset) => {
+    if (draftState.phase !== "lobby") return;
+    setDraftState({ ...draftState, ruleset });
+    firebaseUpdateRuleset(ruleset);
+  };
+
+  // Handle condition policy change from waiting room (host only, before the draft starts)
+  const handleConditionPolicyChange = (policy: ConditionPolicy) => {
+    if (draftState.phase !== "lobby") return;
+    const newState = applyConditionPolicy(draftState, policy);
+    setDraftState(newState);
+    persistDraftState(newState);
+  };
+
+  // Handle map pool change from waiting room (host only, before the draft starts)
+  const handleMapPoolChange = (pool: MapPool) => {
+    if (draftState.phase !== "lobby") return;
+    const newState = applyMapPool(draftState, pool);
+    setDraftState(newState);
+    persistDraftState(newState);
+  };
+
+  // Handle server change from waiting room (host only, before the draft starts)
+  const handleServerConfigChange = (config: ServerConfig) => {
+    if (draftState.phase !== "lobby") return;
+    const newState = applyServerConfig(draftState, config);
+    setDraftState(newState);
+    persistDraftState(newState);
+  };
+
   // Handle starting the draft from lobby (host only)
   const handleStartDraft = () => {
     if (!isHost) return;
@@ -2208,6 +2293,29 @@ export default function Draft5v5({
     return schedule.length; // all reported
   }, [matchResults, getMapSchedule]);
 
+  // Race-time policies leave the next race's conditions unrolled until the
+  // host starts it
+  const nextRaceMap = getMapSchedule()[nextRaceIndex]?.map;
+  const isNextRaceStarted = !nextRaceMap || !!nextRaceMap.conditions;
+
+  // Start the next race (host), rolling and saving its conditions
+  const startNextRace = () => {
+    if (!nextRaceMap) return;
+    const raceIndex = nextRaceIndex;
+    const salt = generateSeed();
+    const newState = startRace(draftState, raceIndex, nextRaceMap, salt);
+    if (newState === draftState) return;
+    setDraftState(newState);
+    if (isMultiplayer) {
+      persistDraftState(newState, {
+        rebase: (latest) => {
+          const rebased = startRace(latest, raceIndex, nextRaceMap, salt);
+          return rebased === latest ? null : rebased;
+        },
+      });
+    }
+  };
+
   // Open reporting modal for the next race
   const openMatchReporting = () => {
     setReportRaceIndex(nextRaceIndex);
@@ -2330,14 +2438,15 @@ export default function Draft5v5({
 
     const currentTeam = draftState.currentTeam;
     const currentTeamMaps = draftState[currentTeam].pickedMaps;
+    const { maxMapsPerDistance, maxDirtMaps } = getRuleset(draftState);
 
     // Check distance constraint
-    if (!canPickDistance(currentTeamMaps, map.distance)) {
+    if (!canPickDistance(currentTeamMaps, map.distance, maxMapsPerDistance)) {
       return false;
     }
 
     // Check dirt surface constraint
-    if (map.surface === "Dirt" && !canPickDirt(currentTeamMaps)) {
+    if (map.surface === "Dirt" && !canPickDirt(currentTeamMaps, maxDirtMaps)) {
       return false;
     }
 
@@ -2355,8 +2464,16 @@ export default function Draft5v5({
     return draftState.availableUmas;
   };
 
+  // Vetoes target the opponent's picks, which are the locks themselves
+  const lockedCharaIds =
+    draftState.phase === "uma-ban"
+      ? new Set<number>()
+      : getLockedCharaIds(draftState);
+
   const getFilteredUmas = () => {
-    const sortedUmas = [...getBannableUmas()].sort(compareUmasByRelease);
+    const sortedUmas = [...getBannableUmas()]
+      .filter((uma) => matchesAptitudeFilters(uma, aptitudeFilters))
+      .sort(compareUmasByRelease);
     if (!umaSearch.trim()) return sortedUmas;
     const q = umaSearch.toLowerCase();
     return sortedUmas.filter((uma) =>
@@ -2384,6 +2501,15 @@ export default function Draft5v5({
     return getBannableMaps().filter((m) => m.track === track);
   };
 
+  // Map shown in the course inspector: hovered first, then the pending pick.
+  // Cards unmount without a mouseleave, so ignore maps no longer on offer.
+  const inspectedMap =
+    draftState.phase === "map-pick" || draftState.phase === "map-ban"
+      ? ([hoveredMap, pendingMap].find(
+          (map) => map && getBannableMaps().some((m) => m.id === map.id),
+        ) ?? null)
+      : null;
+
   // Handle leaving from waiting room (clears session)
   const handleWaitingRoomLeave = () => {
     clearDraftSession();
@@ -2447,40 +2573,19 @@ export default function Draft5v5({
     }
   };
 
-  // Compute completed actions count for the draft timeline
-  const completedActions = (() => {
-    const { phase } = draftState;
-    const t1 = draftState.team1;
-    const t2 = draftState.team2;
-
-    if (phase === "map-pick") {
-      return (t1.pickedMaps?.length || 0) + (t2.pickedMaps?.length || 0);
-    }
-    if (phase === "map-ban") {
-      return (t1.bannedMaps?.length || 0) + (t2.bannedMaps?.length || 0);
-    }
-    if (phase === "uma-pick") {
-      const totalPicked =
-        (t1.pickedUmas?.length || 0) + (t2.pickedUmas?.length || 0);
-      const totalBanned =
-        (t1.bannedUmas?.length || 0) + (t2.bannedUmas?.length || 0);
-      // Each ban removed one uma from pickedUmas and added it to bannedUmas,
-      // so total uma-pick actions ever taken = current picks + bans.
-      if (totalBanned > 0) {
-        return totalPicked + totalBanned;
-      }
-      return totalPicked;
-    }
-    if (phase === "uma-ban") {
-      return (t1.bannedUmas?.length || 0) + (t2.bannedUmas?.length || 0);
-    }
-    return 0;
-  })();
+  // Completed draft script steps drive the timeline
+  const ruleset = getRuleset(draftState);
+  const draftScript = getDraftScript(draftState);
+  const completedActions = getCompletedStepCount(draftState);
 
   // Compute how many consecutive picks the current team has (for snake draft highlighting)
   const consecutivePicks = useMemo(() => {
     if (draftState.phase !== "uma-pick") return 1;
-    const timeline = getTimelineForPhase(draftState.phase, completedActions);
+    const timeline = getTimelineForPhase(
+      draftState.phase,
+      completedActions,
+      draftScript,
+    );
     if (!timeline) return 1;
     const { steps, currentIndex } = timeline;
     if (currentIndex >= steps.length) return 1;
@@ -2491,7 +2596,7 @@ export default function Draft5v5({
       else break;
     }
     return Math.max(count, 1);
-  }, [draftState.phase, completedActions]);
+  }, [draftState.phase, completedActions, draftScript]);
 
   const localGhostSelection: FirebasePendingSelection | null = pendingUma
     ? {
@@ -2672,6 +2777,14 @@ export default function Draft5v5({
         onTeamNameChange={handleTeamNameChange}
         turnDuration={turnDuration}
         onTurnDurationChange={handleTurnDurationChange}
+        ruleset={ruleset}
+        onRulesetChange={handleRulesetChange}
+        conditionPolicy={getConditionPolicy(draftState)}
+        onConditionPolicyChange={handleConditionPolicyChange}
+        mapPool={getMapPool(draftState)}
+        onMapPoolChange={handleMapPoolChange}
+        serverConfig={getServerConfig(draftState)}
+        onServerConfigChange={handleServerConfigChange}
         connectionError={joinError}
         onRetryConnection={handleRetryConnection}
         isRetrying={isRetryingJoin}
@@ -2692,6 +2805,7 @@ export default function Draft5v5({
         roomCode={multiplayerConfig.roomCode}
         team1Name={team1Name}
         team2Name={team2Name}
+        hostTeam={isHostTeam2 ? "team2" : "team1"}
         connectionStatus={isConnected ? "connected" : "disconnected"}
         onBackToMenu={onBackToMenu}
         timeRemaining={timeRemaining}
@@ -2733,6 +2847,8 @@ export default function Draft5v5({
           }
           distanceCounts={countDistances(draftState.team1.pickedMaps)}
           dirtCount={countDirtTracks(draftState.team1.pickedMaps)}
+          ruleset={ruleset}
+          raceSchedule={getMapSchedule()}
           phase={draftState.phase}
           showMapOrder={
             draftState.phase === "post-map-pause" ||
@@ -2766,14 +2882,30 @@ export default function Draft5v5({
             roomCode={roomCode}
             playerCount={firebasePlayers.length || 1}
             isHost={multiplayerConfig?.isHost || false}
+            onRollback={isHost ? () => setShowRollback(true) : undefined}
+            canRollback={canRequestRollback}
             timeRemaining={timeRemaining}
             timerEnabled={true}
             completedActions={completedActions}
+            draftScript={draftScript}
             sfxVolume={sfxVolume}
             onSfxVolumeChange={setSfxVolume}
             voicelineVolume={voicelineVolume}
             onVoicelineVolumeChange={setVoicelineVolume}
           />
+          {isMultiplayer && draftState.rollback && (
+            <RollbackNotice
+              rollback={draftState.rollback}
+              hostName={hostTeamName}
+              opponentName={hostOpponentName}
+              {...(!isHost &&
+                !multiplayerConfig?.isSpectator &&
+                answeredRollbackAt !== draftState.rollback.requestedAt && {
+                  onConfirm: () => answerRollback(true),
+                  onDecline: () => answerRollback(false),
+                })}
+            />
+          )}
         </div>
 
         <div className="flex-1 flex flex-col min-h-0">
@@ -2983,19 +3115,30 @@ export default function Draft5v5({
             draftState.phase !== "post-map-pause" && (
               <div className="bg-gray-800 rounded-lg shadow-lg p-3 lg:p-4 xl:p-6 border border-gray-700 flex flex-col h-full">
                 <div className="shrink-0">
-                  <h2 className="text-lg lg:text-xl xl:text-2xl font-bold mb-2 lg:mb-4 text-gray-100">
-                    {draftState.phase === "uma-pick" && "Available Umamusume"}
-                    {draftState.phase === "uma-pre-ban" && "Pre-Ban Umamusume"}
-                    {draftState.phase === "uma-ban" &&
-                      "Veto Opponent's Umamusume"}
-                    {draftState.phase === "map-pick" &&
-                      !selectedTrack &&
-                      "Select a Racecourse"}
-                    {draftState.phase === "map-pick" &&
-                      selectedTrack &&
-                      `Select Distance - ${selectedTrack}`}
-                    {draftState.phase === "map-ban" && "Veto Opponent's Map"}
-                  </h2>
+                  <div className="flex items-start justify-between gap-2">
+                    <h2 className="text-lg lg:text-xl xl:text-2xl font-bold mb-2 lg:mb-4 text-gray-100">
+                      {draftState.phase === "uma-pick" && "Available Umamusume"}
+                      {draftState.phase === "uma-pre-ban" &&
+                        "Pre-Ban Umamusume"}
+                      {draftState.phase === "uma-ban" &&
+                        "Veto Opponent's Umamusume"}
+                      {draftState.phase === "map-pick" &&
+                        !selectedTrack &&
+                        "Select a Racecourse"}
+                      {draftState.phase === "map-pick" &&
+                        selectedTrack &&
+                        `Select Distance - ${selectedTrack}`}
+                      {draftState.phase === "map-ban" && "Veto Opponent's Map"}
+                    </h2>
+                    {isUmaPhase && (
+                      <button
+                        onClick={() => setShowSkillBrowser(true)}
+                        className="shrink-0 px-3 py-1 rounded-lg text-xs lg:text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 transition-colors"
+                      >
+                        Skill Browser
+                      </button>
+                    )}
+                  </div>
 
                   {isUmaPhase && (
                     <div className="relative mb-2 lg:mb-4">
@@ -3021,6 +3164,23 @@ export default function Draft5v5({
                     </div>
                   )}
 
+                  {isUmaPhase && (
+                    <UmaAptitudeFilter
+                      filters={aptitudeFilters}
+                      onChange={setAptitudeFilters}
+                    />
+                  )}
+
+                  {draftState.phase === "map-pick" && !selectedTrack && (
+                    <input
+                      type="text"
+                      placeholder="Search races (e.g. Japan Cup, Arima Kinen)..."
+                      value={raceSearch}
+                      onChange={(e) => setRaceSearch(e.target.value)}
+                      className="w-full mb-2 lg:mb-4 px-3 lg:px-4 py-1.5 lg:py-2 bg-gray-700/80 border border-gray-600/60 rounded-lg text-sm lg:text-base text-gray-100 placeholder-gray-500 focus:outline-none focus:border-blue-500/50 focus:ring-1 focus:ring-blue-500/20"
+                    />
+                  )}
+
                   {draftState.phase === "map-pick" && selectedTrack && (
                     <button
                       onClick={() => {
@@ -3043,11 +3203,37 @@ export default function Draft5v5({
                           uma={uma}
                           onSelect={handleUmaClick}
                           isSelected={pendingUma?.id === uma.id}
+                          isLocked={isVariantLocked(
+                            draftState,
+                            uma,
+                            lockedCharaIds,
+                          )}
+                          onShowDetails={setDetailUma}
                         />
                       ))}
 
                     {draftState.phase === "map-pick" &&
                       !selectedTrack &&
+                      raceSearch.trim() !== "" &&
+                      searchRaceMaps(raceSearch, getBannableMaps()).map(
+                        (map) => (
+                          <MapCard
+                            key={`${map.race?.id}-${map.id}`}
+                            map={map}
+                            onSelect={handleMapClick}
+                            disabled={!canSelectMap(map)}
+                            isSelected={
+                              pendingMap?.id === map.id &&
+                              pendingMap.race?.id === map.race?.id
+                            }
+                            onHover={setHoveredMap}
+                          />
+                        ),
+                      )}
+
+                    {draftState.phase === "map-pick" &&
+                      !selectedTrack &&
+                      raceSearch.trim() === "" &&
                       getAvailableTracks().map((track) => (
                         <button
                           key={track}
@@ -3085,6 +3271,7 @@ export default function Draft5v5({
                           onSelect={handleMapClick}
                           disabled={!canSelectMap(map)}
                           isSelected={pendingMap?.id === map.id}
+                          onHover={setHoveredMap}
                         />
                       ))}
 
@@ -3095,10 +3282,21 @@ export default function Draft5v5({
                           map={map}
                           onSelect={handleMapClick}
                           isSelected={pendingMap?.id === map.id}
+                          onHover={setHoveredMap}
                         />
                       ))}
                   </div>
                 </div>
+
+                {/* Course inspector for the hovered (or pending) map */}
+                {inspectedMap && (
+                  <div className="shrink-0 mt-2 lg:mt-3">
+                    <CourseInspector
+                      map={inspectedMap}
+                      courseSet={getMapPool(draftState).courseSet}
+                    />
+                  </div>
+                )}
               </div>
             )}
 
@@ -3275,6 +3473,21 @@ export default function Draft5v5({
                 />
               </div>
 
+              {/* Succession Planner */}
+              <div className="grid grid-cols-2 gap-4 lg:gap-6 mb-6">
+                <SuccessionPlanner
+                  teamName={team1Name}
+                  accent="blue"
+                  pickedUmas={draftState.team1.pickedUmas}
+                />
+
+                <SuccessionPlanner
+                  teamName={team2Name}
+                  accent="red"
+                  pickedUmas={draftState.team2.pickedUmas}
+                />
+              </div>
+
               {/* Map Schedule */}
               <div className="mb-4 lg:mb-6">
                 <h3 className="text-gray-300 font-bold text-sm lg:text-base mb-2 uppercase tracking-wider text-center">
@@ -3496,9 +3709,26 @@ export default function Draft5v5({
                     ? "Copied!"
                     : "Copy Pick Order"}
                 </button>
+                <button
+                  onClick={() => setShowSeedVerify(true)}
+                  className="font-semibold py-2 px-6 rounded-lg transition-colors border text-sm bg-gray-700/80 hover:bg-gray-600 text-gray-200 border-gray-600/50"
+                >
+                  Verify Seed
+                </button>
+                <RosterExportButtons
+                  buildRoster={() =>
+                    buildRosterExport5v5(
+                      draftState,
+                      [team1Name, team2Name],
+                      getMapSchedule(),
+                    )
+                  }
+                />
                 {(!isMultiplayer || isHost) && !pendingReport && (
                   <button
-                    onClick={openMatchReporting}
+                    onClick={
+                      isNextRaceStarted ? openMatchReporting : startNextRace
+                    }
                     disabled={
                       nextRaceIndex >= getMapSchedule().length ||
                       (SCORING_MODE === "points" &&
@@ -3519,7 +3749,9 @@ export default function Draft5v5({
                       ? "Series Complete"
                       : nextRaceIndex >= getMapSchedule().length
                         ? "All Races Reported"
-                        : `Submit Results: Race ${nextRaceIndex + 1}`}
+                        : isNextRaceStarted
+                          ? `Submit Results: Race ${nextRaceIndex + 1}`
+                          : `Start Race ${nextRaceIndex + 1}`}
                   </button>
                 )}
               </div>
@@ -3611,6 +3843,8 @@ export default function Draft5v5({
           }
           distanceCounts={countDistances(draftState.team2.pickedMaps)}
           dirtCount={countDirtTracks(draftState.team2.pickedMaps)}
+          ruleset={ruleset}
+          raceSchedule={getMapSchedule()}
           phase={draftState.phase}
           showMapOrder={
             draftState.phase === "post-map-pause" ||
@@ -4243,6 +4477,29 @@ export default function Draft5v5({
         raceResults={matchResults}
         mapSchedule={getMapSchedule()}
       />
+
+      <SeedVerifyModal
+        isOpen={showSeedVerify}
+        onClose={() => setShowSeedVerify(false)}
+        draftState={draftState}
+      />
+
+      <RollbackModal
+        isOpen={showRollback}
+        onClose={() => setShowRollback(false)}
+        pickOrder={draftPickOrder ?? []}
+        opponentName={hostOpponentName}
+        onRequest={requestRollback}
+      />
+
+      <SkillBrowserModal
+        isOpen={showSkillBrowser}
+        onClose={() => setShowSkillBrowser(false)}
+      />
+
+      {detailUma && (
+        <UmaDetailPopover uma={detailUma} onClose={() => setDetailUma(null)} />
+      )}
     </div>
   );
 }
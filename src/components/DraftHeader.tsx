@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState } from "react";
-import type { DraftPhase, Team, Map } from "../types";
+import type { DraftPhase, DraftScript, Team, Map } from "../types";
 import type { ConnectionStatus } from "../types/multiplayer";
 import { formatRoomCode } from "../utils/roomCode";
 import DraftTimeline from "./DraftTimeline";
@@ -21,11 +21,15 @@ interface DraftHeaderProps {
   playerCount?: number;
   isHost?: boolean;
   isSpectator?: boolean;
+  /** Opens the rollback picker (multiplayer host only) */
+  onRollback?: () => void;
+  canRollback?: boolean;
   // Timer props
   timeRemaining?: number;
   timerEnabled?: boolean;
   // Timeline props
   completedActions?: number;
+  draftScript?: DraftScript;
   // SFX volume controls
   sfxVolume?: number;
   onSfxVolumeChange?: (volume: number) => void;
@@ -49,9 +53,12 @@ export default function DraftHeader({
   playerCount = 0,
   isHost = false,
   isSpectator = false,
+  onRollback,
+  canRollback = false,
   timeRemaining,
   timerEnabled = true,
   completedActions = 0,
+  draftScript,
   sfxVolume = 70,
   onSfxVolumeChange,
   voicelineVolume = 70,
@@ -246,6 +253,15 @@ export default function DraftHeader({
               >
                 Reset
               </button>
+              {isMultiplayer && onRollback && (
+                <button
+                  onClick={onRollback}
+                  disabled={!canRollback}
+                  className="bg-gray-700/80 text-gray-100 font-semibold py-1.5 px-3 lg:px-4 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed border border-gray-600/50 text-xs lg:text-sm"
+                >
+                  Rollback
+                </button>
+              )}
             </>
           )}
           {(onSfxVolumeChange || onVoicelineVolumeChange) && (
@@ -388,6 +404,7 @@ export default function DraftHeader({
             phase={phase}
             currentTeam={currentTeam}
             completedActions={completedActions}
+            script={draftScript}
             team1Name={team1Name}
             team2Name={team2Name}
           />
@@ -1,155 +1,21 @@
-import type { DraftPhase, Team } from "../types";
+import type { DraftPhase, DraftScript, Team } from "../types";
+import { getTimelineForPhase } from "../draftScript";
 
 interface DraftTimelineProps {
   /** Current draft phase */
   phase: DraftPhase;
   /** Current team whose turn it is */
   currentTeam: Team;
-  /** Number of picks/bans completed in current phase group */
+  /** Number of draft script steps completed so far */
   completedActions: number;
+  /** Pick/ban order to display (defaults to the standard draft script) */
+  script?: DraftScript;
   /** Team 1 display name */
   team1Name?: string;
   /** Team 2 display name */
   team2Name?: string;
 }
 
-/**
- * Draft order definition for each phase.
- * Each entry is [team, label] where label describes the action.
- */
-type TimelineStep = { team: Team; label: string };
-
-/** Uma pre-ban order: T1 bans 1, T2 bans 1 (matches PRE_BANS_PER_TEAM=1) */
-const UMA_PRE_BAN: TimelineStep[] = [
-  { team: "team1", label: "X" },
-  { team: "team2", label: "X" },
-];
-
-/** Pre-ban uma pick order: T1(1), T2(2), T1(2), T2(2), T1(2), T2(1) = 5 each */
-const UMA_PICK_PRE_BAN: TimelineStep[] = [
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-  { team: "team2", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-  { team: "team2", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-];
-
-/** Uma ban order: T2 first, then T1 */
-const UMA_BAN: TimelineStep[] = [
-  { team: "team2", label: "B" },
-  { team: "team1", label: "B" },
-];
-
-/** Post-ban uma pick order: T2(1), T1(2), T2(1) = 2 each */
-const UMA_PICK_POST_BAN: TimelineStep[] = [
-  { team: "team2", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-];
-
-/** Map pick order: alternating T1, T2 x4 */
-const MAP_PICK: TimelineStep[] = [
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-  { team: "team1", label: "P" },
-  { team: "team2", label: "P" },
-];
-
-/** Map ban order: T1 bans first, then T2 */
-const MAP_BAN: TimelineStep[] = [
-  { team: "team1", label: "B" },
-  { team: "team2", label: "B" },
-];
-
-/**
- * Resolves which timeline to display and the current step index
- * given the draft phase and number of completed actions.
- */
-export function getTimelineForPhase(
-  phase: DraftPhase,
-  completedActions: number,
-): {
-  steps: TimelineStep[];
-  currentIndex: number;
-  sectionLabel: string;
-} | null {
-  switch (phase) {
-    case "map-pick":
-      return {
-        steps: MAP_PICK,
-        currentIndex: completedActions,
-        sectionLabel: "Map Picks",
-      };
-    case "map-ban":
-      return {
-        steps: MAP_BAN,
-        currentIndex: completedActions,
-        sectionLabel: "Map Bans",
-      };
-    case "uma-pre-ban":
-      return {
-        steps: [
-          ...UMA_PRE_BAN,
-          ...UMA_PICK_PRE_BAN,
-          ...UMA_BAN,
-          ...UMA_PICK_POST_BAN,
-        ],
-        currentIndex: completedActions,
-        sectionLabel: "Uma Draft",
-      };
-    case "uma-pick": {
-      const preBanCount = UMA_PRE_BAN.length;
-      // Pre-ban picks (5 each = 10 total), then post-ban picks (2 each = 4 total)
-      if (completedActions < 10) {
-        return {
-          steps: [
-            ...UMA_PRE_BAN,
-            ...UMA_PICK_PRE_BAN,
-            ...UMA_BAN,
-            ...UMA_PICK_POST_BAN,
-          ],
-          currentIndex: preBanCount + completedActions,
-          sectionLabel: "Uma Draft",
-        };
-      }
-      // Post-ban phase: 10 pre-ban picks already done + 2 bans
-      return {
-        steps: [
-          ...UMA_PRE_BAN,
-          ...UMA_PICK_PRE_BAN,
-          ...UMA_BAN,
-          ...UMA_PICK_POST_BAN,
-        ],
-        currentIndex: preBanCount + 10 + 2 + (completedActions - 10),
-        sectionLabel: "Uma Draft",
-      };
-    }
-    case "uma-ban":
-      return {
-        steps: [
-          ...UMA_PRE_BAN,
-          ...UMA_PICK_PRE_BAN,
-          ...UMA_BAN,
-          ...UMA_PICK_POST_BAN,
-        ],
-        currentIndex: UMA_PRE_BAN.length + 10 + completedActions,
-        sectionLabel: "Uma Draft",
-      };
-    default:
-      return null;
-  }
-}
-
 /**
  * Horizontal strip showing the full pick/ban order for the current phase.
  *
@@ -159,10 +25,11 @@ export function getTimelineForPhase(
 export default function DraftTimeline({
   phase,
   completedActions,
+  script,
   team1Name = "Team 1",
   team2Name = "Team 2",
 }: DraftTimelineProps) {
-  const timeline = getTimelineForPhase(phase, completedActions);
+  const timeline = getTimelineForPhase(phase, completedActions, script);
   if (!timeline) return null;
 
   const { steps, currentIndex, sectionLabel } = timeline;
@@ -1,6 +1,10 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import RoomSetup from "./RoomSetup";
+import RulesetPresetLibrary from "./RulesetPresetLibrary";
+import RosterReviewModal from "./RosterReviewModal";
+import { getRoomFormat } from "../services/firebaseRoom";
+import type { DraftRuleset } from "../types";
 
 interface FormatSelectionProps {
   onSelectFormat: (
@@ -10,6 +14,7 @@ interface FormatSelectionProps {
       playerName: string;
       isHost: boolean;
       isSpectator: boolean;
+      ruleset?: DraftRuleset;
     },
   ) => void;
   inviteConfig?: {
@@ -25,9 +30,14 @@ export default function FormatSelection({
   const navigate = useNavigate();
   const [showRoomSetup, setShowRoomSetup] = useState(false);
   const [showHowToPlay, setShowHowToPlay] = useState(false);
+  const [showPresetLibrary, setShowPresetLibrary] = useState(false);
+  const [showRosterReview, setShowRosterReview] = useState(false);
+  // Ruleset picked from the preset library to host with
+  const [hostRuleset, setHostRuleset] = useState<DraftRuleset | null>(null);
   const [selectedFormat, setSelectedFormat] = useState<"5v5" | "3v3v3" | null>(
     null,
   );
+  const [isResolvingRoom, setIsResolvingRoom] = useState(false);
 
   useEffect(() => {
     if (!inviteConfig) return;
@@ -44,35 +54,61 @@ export default function FormatSelection({
     setShowRoomSetup(true);
   };
 
-  const handleRoomCreated = (roomCode: string, format: "5v5" | "3v3v3") => {
+  const handleHostWithPreset = (ruleset: DraftRuleset) => {
+    setShowPresetLibrary(false);
+    setHostRuleset(ruleset);
+    setSelectedFormat("5v5");
+    setShowRoomSetup(true);
+  };
+
+  const handleRoomCreated = (
+    roomCode: string,
+    format: "5v5" | "3v3v3",
+    ruleset?: DraftRuleset,
+  ) => {
     onSelectFormat(format, {
       roomCode,
       playerName: "Host",
       isHost: true,
       isSpectator: false,
+      ruleset,
     });
   };
 
-  const handleJoinRoom = (roomCode: string, playerName: string) => {
-    if (selectedFormat) {
-      onSelectFormat(selectedFormat, {
-        roomCode,
-        playerName,
-        isHost: false,
-        isSpectator: false,
-      });
+  // Joiners don't choose a format; open whichever draft the room was created for
+  const resolveRoomFormat = async (
+    roomCode: string,
+  ): Promise<"5v5" | "3v3v3"> => {
+    setIsResolvingRoom(true);
+    try {
+      return (await getRoomFormat(roomCode)) ?? selectedFormat ?? "5v5";
+    } catch (err) {
+      console.warn("Failed to look up room format:", err);
+      return selectedFormat ?? "5v5";
+    } finally {
+      setIsResolvingRoom(false);
     }
   };
 
-  const handleJoinAsSpectator = (roomCode: string, spectatorName: string) => {
-    if (selectedFormat) {
-      onSelectFormat(selectedFormat, {
-        roomCode,
-        playerName: spectatorName,
-        isHost: false,
-        isSpectator: true,
-      });
-    }
+  const handleJoinRoom = async (roomCode: string, playerName: string) => {
+    onSelectFormat(await resolveRoomFormat(roomCode), {
+      roomCode,
+      playerName,
+      isHost: false,
+      isSpectator: false,
+    });
+  };
+
+  const handleJoinAsSpectator = async (
+    roomCode: string,
+    spectatorName: string,
+  ) => {
+    onSelectFormat(await resolveRoomFormat(roomCode), {
+      roomCode,
+      playerName: spectatorName,
+      isHost: false,
+      isSpectator: true,
+    });
   };
 
   if (showRoomSetup) {
@@ -81,6 +117,7 @@ export default function FormatSelection({
         onRoomCreated={handleRoomCreated}
         onJoinRoom={handleJoinRoom}
         onJoinAsSpectator={handleJoinAsSpectator}
+        isProcessing={isResolvingRoom}
         onBack={() => {
           if (inviteConfig) {
             navigate("/");
@@ -88,9 +125,11 @@ export default function FormatSelection({
           }
           setShowRoomSetup(false);
           setSelectedFormat(null);
+          setHostRuleset(null);
         }}
-        initialMode={inviteConfig?.mode ?? null}
+        initialMode={inviteConfig?.mode ?? (hostRuleset ? "host" : null)}
         initialRoomCode={inviteConfig?.roomCode ?? ""}
+        initialRuleset={hostRuleset ?? undefined}
       />
     );
   }
@@ -152,6 +191,30 @@ export default function FormatSelection({
             </p>
           </button>
 
+          <button
+            onClick={() => setShowPresetLibrary(true)}
+            className="w-full group bg-gray-700/50 hover:bg-gray-700 border-2 border-gray-600 hover:border-gray-500 rounded-xl p-3 lg:p-4 transition-all shadow-lg"
+          >
+            <div className="text-lg lg:text-xl font-bold text-gray-300 mb-0.5 lg:mb-1">
+              Rule Presets
+            </div>
+            <p className="text-gray-500 text-xs lg:text-sm">
+              Save, share and host with custom rules
+            </p>
+          </button>
+
+          <button
+            onClick={() => setShowRosterReview(true)}
+            className="w-full group bg-gray-700/50 hover:bg-gray-700 border-2 border-gray-600 hover:border-gray-500 rounded-xl p-3 lg:p-4 transition-all shadow-lg"
+          >
+            <div className="text-lg lg:text-xl font-bold text-gray-300 mb-0.5 lg:mb-1">
+              Roster Review
+            </div>
+            <p className="text-gray-500 text-xs lg:text-sm">
+              Open an exported draft roster
+            </p>
+          </button>
+
           <button
             onClick={() => setShowHowToPlay(true)}
             className="w-full group bg-gray-700/50 hover:bg-gray-700 border-2 border-gray-600 hover:border-gray-500 rounded-xl p-3 lg:p-4 transition-all shadow-lg"
@@ -187,6 +250,17 @@ export default function FormatSelection({
         </div>
       </div>
 
+      {showPresetLibrary && (
+        <RulesetPresetLibrary
+          onClose={() => setShowPresetLibrary(false)}
+          onHostWithPreset={handleHostWithPreset}
+        />
+      )}
+
+      {showRosterReview && (
+        <RosterReviewModal onClose={() => setShowRosterReview(false)} />
+      )}
+
       {/* How To Play Modal */}
       {showHowToPlay && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
@@ -222,6 +296,10 @@ export default function FormatSelection({
                 <h3 className="text-lg font-bold text-blue-400 mb-2">
                   Drafting Rules
                 </h3>
+                <p className="text-xs text-gray-400 mb-2">
+                  Default rules shown. Online hosts can change pick, ban and
+                  veto counts when creating a room.
+                </p>
                 <ul className="space-y-2 text-gray-300">
                   <li className="flex gap-2">
                     <span className="text-blue-400">•</span>
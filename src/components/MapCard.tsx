@@ -1,31 +1,58 @@
-import type { Map } from "../types";
+import type { Map, RaceGrade } from "../types";
+import { getMapRaces, getTopGrade } from "../utils/raceCalendar";
 
 interface MapCardProps {
   map: Map;
   onSelect: (map: Map) => void;
   disabled?: boolean;
   isSelected?: boolean;
+  /** Called with the map on hover and null when the pointer leaves */
+  onHover?: (map: Map | null) => void;
 }
 
+const GRADE_BADGE_CLASSES: Record<RaceGrade, string> = {
+  G1: "bg-blue-600 text-white",
+  G2: "bg-red-600 text-white",
+  G3: "bg-green-600 text-white",
+};
+
 export default function MapCard({
   map,
   onSelect,
   disabled,
   isSelected,
+  onHover,
 }: MapCardProps) {
   const surfaceColor =
     map.surface.toLowerCase() === "turf" ? "bg-green-700" : "bg-amber-800";
+  const grade = getTopGrade(map);
+  // Races run here, listed on hover unless the map is drafted as one race
+  const raceList = map.race
+    ? undefined
+    : getMapRaces(map)
+        .map((race) => `${race.grade} ${race.name}`)
+        .join("\n") || undefined;
 
   return (
     <button
       onClick={() => onSelect(map)}
+      onMouseEnter={() => onHover?.(map)}
+      onMouseLeave={() => onHover?.(null)}
       disabled={disabled}
-      className={`p-2 lg:p-3 bg-gray-700/80 border-2 rounded-lg hover:border-gray-500 hover:shadow-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-600 ${
+      title={raceList}
+      className={`relative p-2 lg:p-3 bg-gray-700/80 border-2 rounded-lg hover:border-gray-500 hover:shadow-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-600 ${
         isSelected
           ? "border-yellow-400 ring-2 ring-yellow-400/50 selected-glow"
           : "border-gray-600/60"
       }`}
     >
+      {grade && (
+        <span
+          className={`absolute top-1 right-1 px-1 rounded text-[9px] font-bold leading-tight ${GRADE_BADGE_CLASSES[grade]}`}
+        >
+          {grade}
+        </span>
+      )}
       <div
         className={`${surfaceColor} rounded px-2 py-2 lg:py-3 mb-1.5 lg:mb-2 flex flex-col items-center justify-center`}
       >
@@ -33,6 +60,11 @@ export default function MapCard({
           {map.surface}
         </span>
       </div>
+      {map.race && (
+        <p className="text-xs lg:text-sm font-bold text-yellow-200 text-center mb-0.5 lg:mb-1">
+          {map.race.name}
+        </p>
+      )}
       <p className="text-xs lg:text-sm font-bold text-gray-100 text-center mb-0.5 lg:mb-1">
         {map.track}
       </p>
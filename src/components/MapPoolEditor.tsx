@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { COURSE_MAPS } from "../data";
+import {
+  DEFAULT_MAP_POOL,
+  DISTANCE_CATEGORIES,
+  SURFACES,
+  getCourseSetTracks,
+  getPoolMaps,
+  isMapInPool,
+  toggleMapInPool,
+} from "../mapPool";
+import type { MapPool } from "../types";
+
+interface MapPoolEditorProps {
+  /** Pool being edited */
+  pool: MapPool;
+  /** Problems with the pool under the room's rules */
+  errors?: string[];
+  /** Callback when the pool changes (omit for a read-only summary) */
+  onChange?: (pool: MapPool) => void;
+}
+
+/**
+ * Toggles a value in a list
+ */
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value)
+    ? list.filter((item) => item !== value)
+    : [...list, value];
+}
+
+/**
+ * Map pool editor for 5v5 rooms
+ * Filter chips for surface, distance and track, plus a per-map list for
+ * fine-tuning. The course set follows the room's server. Read-only for
+ * everyone but the host.
+ */
+export default function MapPoolEditor({
+  pool,
+  errors = [],
+  onChange,
+}: MapPoolEditorProps) {
+  const [showMaps, setShowMaps] = useState(false);
+  const readOnly = !onChange;
+  const poolMaps = getPoolMaps(pool);
+  // Resetting keeps the course set, which belongs to the server setting
+  const defaultPool: MapPool = {
+    ...DEFAULT_MAP_POOL,
+    courseSet: pool.courseSet,
+  };
+  const isDefault = JSON.stringify(pool) === JSON.stringify(defaultPool);
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-0.5 rounded text-xs font-semibold transition-colors disabled:cursor-default ${
+      active
+        ? "bg-blue-600/80 text-white"
+        : "bg-gray-700 text-gray-400 line-through"
+    } ${readOnly ? "" : "hover:brightness-110"}`;
+
+  return (
+    <div className="text-left space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {SURFACES.map((surface) => (
+          <button
+            key={surface}
+            onClick={() =>
+              onChange?.({ ...pool, surfaces: toggle(pool.surfaces, surface) })
+            }
+            disabled={readOnly}
+            className={chipClass(pool.surfaces.includes(surface))}
+          >
+            {surface}
+          </button>
+        ))}
+        <span className="mx-1 h-4 border-l border-gray-600" />
+        {DISTANCE_CATEGORIES.map((category) => (
+          <button
+            key={category}
+            onClick={() =>
+              onChange?.({
+                ...pool,
+                distanceCategories: toggle(pool.distanceCategories, category),
+              })
+            }
+            disabled={readOnly}
+            className={`${chipClass(pool.distanceCategories.includes(category))} capitalize`}
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {getCourseSetTracks(pool.courseSet).map((track) => (
+          <button
+            key={track}
+            onClick={() =>
+              onChange?.({
+                ...pool,
+                excludedTracks: toggle(pool.excludedTracks, track),
+              })
+            }
+            disabled={readOnly}
+            className={chipClass(!pool.excludedTracks.includes(track))}
+          >
+            {track}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setShowMaps(!showMaps)}
+          className="text-xs text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          {showMaps ? "▾" : "▸"} {poolMaps.length} of{" "}
+          {COURSE_MAPS[pool.courseSet].length} maps in pool
+        </button>
+        {onChange && !isDefault && (
+          <button
+            onClick={() => onChange(defaultPool)}
+            className="text-xs text-gray-400 hover:text-gray-200 transition-colors"
+          >
+            Reset to default pool
+          </button>
+        )}
+      </div>
+
+      {showMaps && (
+        <ul className="max-h-48 overflow-y-auto custom-scrollbar space-y-0.5 pr-1">
+          {COURSE_MAPS[pool.courseSet].map((map) => (
+            <li key={map.id}>
+              <label className="flex items-center gap-2 text-xs text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={isMapInPool(pool, map)}
+                  disabled={readOnly}
+                  onChange={() => onChange?.(toggleMapInPool(pool, map))}
+                  className="w-3.5 h-3.5 accent-blue-500 shrink-0"
+                />
+                <span className="truncate">{map.name}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="space-y-0.5">
+          {errors.map((error) => (
+            <li key={error} className="text-xs text-red-300">
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+
+interface RollbackModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Pick order lines of the picks and bans made so far */
+  pickOrder: string[];
+  opponentName: string;
+  /** Asks the opponent to undo every pick and ban from this step on */
+  onRequest: (step: number) => void;
+}
+
+/**
+ * Rollback picker (multiplayer host)
+ *
+ * Lists the picks and bans made so far; the host picks the first one to
+ * undo and the opponent is asked to agree before anything changes.
+ */
+export default function RollbackModal({
+  isOpen,
+  onClose,
+  pickOrder,
+  opponentName,
+  onRequest,
+}: RollbackModalProps) {
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setSelectedStep(null);
+    onClose();
+  };
+
+  const handleRequest = () => {
+    if (selectedStep === null) return;
+    onRequest(selectedStep);
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 border-2 border-gray-700 max-w-lg w-full max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-100">Roll Back Draft</h2>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-200 text-2xl"
+          >
+            X
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-3">
+          Pick the first step to undo. It and every later step are undone once{" "}
+          {opponentName} agrees.
+        </p>
+
+        {pickOrder.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing has been picked yet.</p>
+        ) : (
+          <div className="space-y-1.5 mb-4">
+            {pickOrder.map((line, index) => {
+              const undone = selectedStep !== null && index >= selectedStep;
+              return (
+                <button
+                  key={`${line}-${index}`}
+                  type="button"
+                  onClick={() => setSelectedStep(index)}
+                  className={`w-full text-left rounded-lg p-2 border text-xs transition-colors ${
+                    undone
+                      ? "bg-red-900/20 border-red-700/50 text-red-200 line-through"
+                      : "bg-gray-900/50 border-gray-700 text-gray-200 hover:bg-gray-700/60"
+                  }`}
+                >
+                  {index + 1}. {line}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={handleClose}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1.5 px-5 rounded-lg text-sm border border-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRequest}
+            disabled={selectedStep === null}
+            className="bg-amber-600 hover:bg-amber-700 text-white font-semibold py-1.5 px-5 rounded-lg text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {selectedStep === null
+              ? "Ask to Roll Back"
+              : `Ask to Roll Back to Step ${selectedStep + 1}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import type { DraftRollback } from "../types";
+
+interface RollbackNoticeProps {
+  rollback: DraftRollback;
+  /** Name of the host's team (who asked) */
+  hostName: string;
+  /** Name of the team that has to agree */
+  opponentName: string;
+  /** Shown to the opponent while the request is pending */
+  onConfirm?: () => void;
+  onDecline?: () => void;
+}
+
+/**
+ * Rollback request banner
+ *
+ * Shows the host's pending rollback request (with confirm and decline
+ * buttons for the opponent) and, until dismissed, whether it was applied or
+ * declined. Players and spectators all read it from the room's draft state.
+ */
+export default function RollbackNotice({
+  rollback,
+  hostName,
+  opponentName,
+  onConfirm,
+  onDecline,
+}: RollbackNoticeProps) {
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+
+  if (rollback.status !== "pending" && dismissedAt === rollback.requestedAt) {
+    return null;
+  }
+
+  const step = `step ${rollback.step + 1} (${rollback.label})`;
+
+  if (rollback.status === "pending") {
+    return (
+      <div className="mb-2 bg-amber-900/20 border border-amber-600/35 rounded-lg p-3 text-center">
+        <p className="text-amber-300 text-sm">
+          {hostName} asked to roll the draft back to {step}. That step and
+          every later one will be undone.
+        </p>
+        {onConfirm && onDecline ? (
+          <div className="flex justify-center gap-3 mt-2">
+            <button
+              onClick={onDecline}
+              className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1.5 px-5 rounded-lg text-sm border border-gray-600"
+            >
+              Decline
+            </button>
+            <button
+              onClick={onConfirm}
+              className="bg-amber-600 hover:bg-amber-700 text-white font-semibold py-1.5 px-5 rounded-lg text-sm"
+            >
+              Roll Back
+            </button>
+          </div>
+        ) : (
+          <p className="text-amber-300/70 text-xs mt-1">
+            Waiting for {opponentName} to agree...
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-2 bg-gray-800/80 border border-gray-700/60 rounded-lg p-2 flex items-center justify-center gap-3">
+      <p className="text-gray-300 text-sm">
+        {rollback.status === "applied"
+          ? `Draft rolled back to ${step}.`
+          : `${opponentName} declined rolling back to ${step}.`}
+      </p>
+      <button
+        onClick={() => setDismissedAt(rollback.requestedAt)}
+        className="text-gray-500 hover:text-gray-300 text-xs"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -1,11 +1,20 @@
 import { useEffect, useState } from "react";
 import { normalizeRoomCode, validateRoomCode } from "../utils/roomCode";
+import { DEFAULT_RULESET } from "../ruleset";
+import { dryRunRuleset } from "../draftLogic";
+import { getRulesetPresets } from "../utils/rulesetPresets";
+import type { DraftRuleset } from "../types";
+import RulesetEditor from "./RulesetEditor";
 
 type RoomMode = "local" | "host" | "join" | "spectate";
 
 interface RoomSetupProps {
   /** Callback when room is created (host mode) */
-  onRoomCreated: (roomCode: string, format: "5v5" | "3v3v3") => void;
+  onRoomCreated: (
+    roomCode: string,
+    format: "5v5" | "3v3v3",
+    ruleset?: DraftRuleset,
+  ) => void;
   /** Callback when joining a room (player mode) */
   onJoinRoom: (roomCode: string, playerName: string) => void;
   /** Callback when joining as spectator */
@@ -15,9 +24,11 @@ interface RoomSetupProps {
   /** Whether currently processing */
   isProcessing?: boolean;
   /** Optional mode to open immediately */
-  initialMode?: Extract<RoomMode, "join" | "spectate"> | null;
+  initialMode?: Extract<RoomMode, "host" | "join" | "spectate"> | null;
   /** Optional room code to prefill */
   initialRoomCode?: string;
+  /** Optional ruleset to prefill when hosting (e.g. from a saved preset) */
+  initialRuleset?: DraftRuleset;
 }
 
 /**
@@ -37,9 +48,12 @@ export default function RoomSetup({
   isProcessing = false,
   initialMode = null,
   initialRoomCode = "",
+  initialRuleset = DEFAULT_RULESET,
 }: RoomSetupProps) {
   const [mode, setMode] = useState<RoomMode | null>(initialMode);
   const [format, setFormat] = useState<"5v5" | "3v3v3">("5v5");
+  const [ruleset, setRuleset] = useState<DraftRuleset>(initialRuleset);
+  const [presets] = useState(getRulesetPresets);
   const [roomCode, setRoomCode] = useState(normalizeRoomCode(initialRoomCode));
   const [playerName, setPlayerName] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -57,6 +71,18 @@ export default function RoomSetup({
    */
   const handleCreateRoom = () => {
     setError(null);
+
+    if (format === "5v5") {
+      // Play the draft through once so an unfinishable ruleset never reaches a room
+      const rulesetErrors = dryRunRuleset(ruleset);
+      if (rulesetErrors.length > 0) {
+        setError(rulesetErrors[0]);
+        return;
+      }
+      onRoomCreated(roomCode, format, ruleset);
+      return;
+    }
+
     onRoomCreated(roomCode, format);
   };
 
@@ -165,15 +191,49 @@ export default function RoomSetup({
             <div className="text-xs mt-0.5 opacity-80">2 Players</div>
           </button>
           <button
-            disabled
-            className="py-2 lg:py-3 px-3 lg:px-4 rounded-xl font-semibold bg-gray-800 text-gray-500 cursor-not-allowed opacity-50 border-2 border-gray-700"
+            onClick={() => setFormat("3v3v3")}
+            className={`py-2 lg:py-3 px-3 lg:px-4 rounded-xl font-semibold transition-all border-2 ${
+              format === "3v3v3"
+                ? "bg-purple-600 text-white border-purple-500"
+                : "bg-gray-700 text-gray-300 hover:bg-gray-600 border-gray-600"
+            }`}
           >
             <div className="text-lg lg:text-xl font-bold">3v3v3</div>
-            <div className="text-xs mt-0.5 opacity-80">Coming Soon</div>
+            <div className="text-xs mt-0.5 opacity-80">3 Players</div>
           </button>
         </div>
       </div>
 
+      {format === "5v5" && (
+        <div>
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <label className="block text-xs lg:text-sm font-medium text-gray-300">
+              Rules
+            </label>
+            {presets.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const preset = presets.find((p) => p.name === e.target.value);
+                  if (preset) setRuleset({ ...preset.ruleset });
+                }}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+              >
+                <option value="">Load preset...</option>
+                {presets.map((preset) => (
+                  <option key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <RulesetEditor ruleset={ruleset} onChange={setRuleset} />
+          </div>
+        </div>
+      )}
+
       <div className="bg-gray-900/50 rounded-lg p-3 lg:p-4 border border-gray-700">
         <p className="text-xs lg:text-sm text-gray-400">
           You will receive a room code to share with other players after
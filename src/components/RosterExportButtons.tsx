@@ -0,0 +1,51 @@
+import {
+  buildRosterViewerUrl,
+  exportRosterJson,
+  type RosterExport,
+} from "../utils/rosterExport";
+
+interface RosterExportButtonsProps {
+  /** Builds the roster when a button is pressed */
+  buildRoster: () => RosterExport;
+}
+
+const BUTTON_CLASS =
+  "font-semibold py-2 px-6 rounded-lg transition-colors border text-sm bg-gray-700/80 hover:bg-gray-600 text-gray-200 border-gray-600/50";
+
+/**
+ * Roster export buttons for the completed draft
+ * Downloads the roster JSON or opens it in the Roster Viewer.
+ */
+export default function RosterExportButtons({
+  buildRoster,
+}: RosterExportButtonsProps) {
+  const handleDownload = () => {
+    const roster = buildRoster();
+    const blob = new Blob([exportRosterJson(roster)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `roster-${roster.format}-${new Date(roster.exportedAt)
+      .toISOString()
+      .slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleOpenViewer = () => {
+    window.open(buildRosterViewerUrl(buildRoster()), "_blank", "noopener");
+  };
+
+  return (
+    <>
+      <button onClick={handleDownload} className={BUTTON_CLASS}>
+        Download Roster
+      </button>
+      <button onClick={handleOpenViewer} className={BUTTON_CLASS}>
+        Open in Roster Viewer
+      </button>
+    </>
+  );
+}
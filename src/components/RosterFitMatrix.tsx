@@ -0,0 +1,91 @@
+import type { AptitudeGrade, Map, UmaMusume } from "../types";
+import { meetsGrade } from "../utils/umaAptitudes";
+import { VIABLE_GRADE, getRosterFit } from "../utils/rosterFit";
+
+interface RosterFitMatrixProps {
+  /** Team's picked umas */
+  umas: UmaMusume[];
+  /** Race schedule in play order */
+  races: { map: Map; team: string; index: number }[];
+}
+
+const gradeClass = (grade: AptitudeGrade | null) => {
+  if (grade === null) return "text-gray-600";
+  if (meetsGrade(grade, "A")) return "bg-green-600/40 text-green-200";
+  if (meetsGrade(grade, VIABLE_GRADE))
+    return "bg-yellow-600/30 text-yellow-200";
+  return "bg-red-900/30 text-red-300/80";
+};
+
+/**
+ * Grid of each picked uma's fit for each race
+ * Races without an A-rank uma and umas without a viable race are flagged.
+ */
+export default function RosterFitMatrix({ umas, races }: RosterFitMatrixProps) {
+  const { grades, racesWithoutA, umasWithoutRace } = getRosterFit(
+    umas,
+    races.map((race) => race.map),
+  );
+
+  return (
+    <div className="mt-1.5 pt-1.5 border-t border-gray-700/50">
+      <p className="text-[10px] text-gray-400 uppercase tracking-wider font-semibold mb-1">
+        Roster Fit:
+      </p>
+      <div className="overflow-x-auto">
+        <table className="text-[10px] border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th />
+              {races.map((race, raceIndex) => {
+                const noA = racesWithoutA.includes(raceIndex);
+                return (
+                  <th
+                    key={race.index}
+                    title={`${race.team}: ${race.map.name}${
+                      noA ? " — no A-rank uma" : ""
+                    }`}
+                    className={`px-1 font-semibold ${
+                      noA ? "text-red-400" : "text-gray-400"
+                    }`}
+                  >
+                    R{race.index}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {umas.map((uma, umaIndex) => {
+              const noRace = umasWithoutRace.includes(uma.id);
+              return (
+                <tr key={uma.id}>
+                  <td
+                    title={noRace ? "No race at B or better" : undefined}
+                    className={`pr-1 max-w-[90px] truncate ${
+                      noRace ? "text-red-400" : "text-gray-300"
+                    }`}
+                  >
+                    {uma.name.split("\n")[0]}
+                  </td>
+                  {races.map((race, raceIndex) => {
+                    const grade = grades[umaIndex][raceIndex];
+                    return (
+                      <td
+                        key={race.index}
+                        title={`${race.map.name}: ${grade ?? "no data"}`}
+                        className={`w-5 text-center rounded font-bold ${gradeClass(grade)}`}
+                      >
+                        {grade ?? "–"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useRef, useState } from "react";
+import { GRADED_RACES, SAMPLE_CARDS, SAMPLE_UMAS } from "../data";
+import { formatTrackConditions } from "../utils/trackConditions";
+import { formatUmaName } from "../utils/umaDisplay";
+import { importRoster, type RosterExport } from "../utils/rosterExport";
+
+interface RosterReviewModalProps {
+  /** Callback to close the modal */
+  onClose: () => void;
+}
+
+const TEAM_COLORS = ["text-blue-400", "text-red-400", "text-green-400"];
+
+/**
+ * Roster review modal
+ *
+ * Reads a roster exported from a completed draft (JSON file or Roster Viewer
+ * link) and shows its teams, support cards and map schedule.
+ */
+export default function RosterReviewModal({ onClose }: RosterReviewModalProps) {
+  const [roster, setRoster] = useState<RosterExport | null>(null);
+  const [importText, setImportText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = (text: string) => {
+    const imported = importRoster(text);
+    if (!imported) {
+      setError("That isn't a valid roster export");
+      return;
+    }
+    setRoster(imported);
+    setImportText("");
+    setError(null);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      handleImport(await file.text());
+    } catch (err) {
+      console.error("Failed to read roster file:", err);
+      setError("Failed to read roster file");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 lg:p-8 border-2 border-gray-700 max-w-3xl w-full max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-4 lg:mb-6">
+          <h2 className="text-2xl lg:text-3xl font-bold text-gray-100">
+            Roster Review
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 text-2xl"
+          >
+            X
+          </button>
+        </div>
+
+        <textarea
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          placeholder="Paste a Roster Viewer link or roster JSON"
+          rows={3}
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-xs text-gray-100 font-mono focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex gap-2 mt-1.5">
+          <button
+            onClick={() => handleImport(importText)}
+            disabled={!importText.trim()}
+            className="flex-1 py-1.5 rounded-lg text-xs font-semibold bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Import Link
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 py-1.5 rounded-lg text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+          >
+            Import JSON File
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImportFile(e.target.files?.[0])}
+          />
+        </div>
+        {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+
+        {roster && (
+          <div className="mt-4 lg:mt-6 space-y-4">
+            <p className="text-xs text-gray-400 text-center">
+              {roster.format} draft exported{" "}
+              {new Date(roster.exportedAt).toLocaleString()}
+            </p>
+
+            <div
+              className={`grid grid-cols-1 gap-3 ${
+                roster.teams.length > 2 ? "md:grid-cols-3" : "md:grid-cols-2"
+              }`}
+            >
+              {roster.teams.map((team, teamIndex) => (
+                <div
+                  key={teamIndex}
+                  className="bg-gray-900/60 rounded-lg p-3 border border-gray-700"
+                >
+                  <h3
+                    className={`${TEAM_COLORS[teamIndex] ?? "text-gray-300"} font-bold text-sm mb-2 text-center uppercase tracking-wider`}
+                  >
+                    {team.name}
+                  </h3>
+                  <ul className="space-y-1">
+                    {team.umas.map((rosterUma) => {
+                      const uma = SAMPLE_UMAS.find(
+                        (u) => u.id === rosterUma.outfitId,
+                      );
+                      return (
+                        <li
+                          key={rosterUma.outfitId}
+                          className="flex items-center gap-2 text-xs text-gray-200"
+                        >
+                          {uma?.imageUrl && (
+                            <img
+                              src={uma.imageUrl}
+                              alt={uma.name}
+                              className="w-6 h-6 rounded-full object-cover bg-gray-700"
+                            />
+                          )}
+                          {uma ? formatUmaName(uma) : rosterUma.name}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {team.supportCardIds.length > 0 && (
+                    <div className="grid grid-cols-4 gap-1 mt-2">
+                      {team.supportCardIds.map((cardId) => {
+                        const card = SAMPLE_CARDS.find((c) => c.id === cardId);
+                        return (
+                          <img
+                            key={cardId}
+                            src={card?.imageUrl}
+                            alt={card?.name ?? cardId}
+                            title={card?.name ?? cardId}
+                            className="aspect-square rounded border border-gray-600 object-cover"
+                          />
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {roster.maps.length > 0 && (
+              <div>
+                <h3 className="text-gray-300 font-bold text-sm mb-2 uppercase tracking-wider text-center">
+                  Map Schedule
+                </h3>
+                <ol className="space-y-1">
+                  {roster.maps.map((map, index) => {
+                    const race = GRADED_RACES.find((r) => r.id === map.raceId);
+                    return (
+                      <li
+                        key={index}
+                        className="flex flex-wrap items-center gap-2 bg-gray-900/60 rounded px-3 py-1.5 text-xs"
+                      >
+                        <span className="text-gray-500 font-bold">
+                          {index + 1}.
+                        </span>
+                        <span className="text-gray-100">{map.name}</span>
+                        {race && (
+                          <span className="text-amber-300">
+                            {race.grade} {race.name}
+                          </span>
+                        )}
+                        {map.conditions && (
+                          <span className="text-gray-400">
+                            {formatTrackConditions(map.conditions)}
+                          </span>
+                        )}
+                        <span className="ml-auto text-gray-500">
+                          {map.pickedBy}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import {
+  DEFAULT_RULESET,
+  RULESET_LIMITS,
+  validateRuleset,
+  type NumericRulesetKey,
+} from "../ruleset";
+import type { DraftRuleset } from "../types";
+
+interface RulesetEditorProps {
+  /** Ruleset being edited */
+  ruleset: DraftRuleset;
+  /** Callback when any rule changes (omit for a read-only summary) */
+  onChange?: (ruleset: DraftRuleset) => void;
+}
+
+/** Display order of the ruleset fields */
+const RULESET_FIELDS: NumericRulesetKey[] = [
+  "mapPicksPerTeam",
+  "mapBansPerTeam",
+  "maxMapsPerDistance",
+  "maxDirtMaps",
+  "preBansPerTeam",
+  "umaPicksPerTeam",
+  "umaVetoesPerTeam",
+];
+
+/**
+ * Ruleset editor for 5v5 rooms
+ * Shows a stepper per rule for the host, or a read-only summary for everyone else
+ */
+export default function RulesetEditor({
+  ruleset,
+  onChange,
+}: RulesetEditorProps) {
+  const errors = validateRuleset(ruleset);
+  const isDefault =
+    RULESET_FIELDS.every((key) => ruleset[key] === DEFAULT_RULESET[key]) &&
+    !!ruleset.exclusiveCharacters === DEFAULT_RULESET.exclusiveCharacters;
+
+  const handleStep = (key: NumericRulesetKey, delta: number) => {
+    const { min, max } = RULESET_LIMITS[key];
+    const value = Math.min(max, Math.max(min, ruleset[key] + delta));
+    onChange?.({ ...ruleset, [key]: value });
+  };
+
+  return (
+    <div className="text-left">
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+        {RULESET_FIELDS.map((key) => {
+          const { min, max, label } = RULESET_LIMITS[key];
+          return (
+            <div
+              key={key}
+              className="flex items-center justify-between gap-2 min-w-0"
+            >
+              <span className="text-xs text-gray-400 truncate">{label}</span>
+              {onChange ? (
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleStep(key, -1)}
+                    disabled={ruleset[key] <= min}
+                    className="w-6 h-6 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    -
+                  </button>
+                  <span className="w-5 text-center text-sm font-semibold text-gray-100">
+                    {ruleset[key]}
+                  </span>
+                  <button
+                    onClick={() => handleStep(key, 1)}
+                    disabled={ruleset[key] >= max}
+                    className="w-6 h-6 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm font-bold disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    +
+                  </button>
+                </div>
+              ) : (
+                <span className="text-sm font-semibold text-gray-100 shrink-0">
+                  {ruleset[key]}
+                </span>
+              )}
+            </div>
+          );
+        })}
+        <label className="col-span-2 flex items-center justify-between gap-2 min-w-0">
+          <span className="text-xs text-gray-400 truncate">
+            Lock alternate outfits
+          </span>
+          <input
+            type="checkbox"
+            checked={!!ruleset.exclusiveCharacters}
+            disabled={!onChange}
+            onChange={(e) =>
+              onChange?.({ ...ruleset, exclusiveCharacters: e.target.checked })
+            }
+            title="Once a character is picked, pre-banned or banned, none of its other outfits can be drafted"
+            className="w-4 h-4 accent-blue-500 shrink-0"
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-0.5">
+          {errors.map((error) => (
+            <li key={error} className="text-xs text-red-300">
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {onChange && !isDefault && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_RULESET })}
+          className="mt-2 text-xs text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          Reset to default rules
+        </button>
+      )}
+    </div>
+  );
+}
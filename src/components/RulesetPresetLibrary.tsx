@@ -0,0 +1,297 @@
+import { useMemo, useRef, useState } from "react";
+import { dryRunRuleset } from "../draftLogic";
+import { DEFAULT_RULESET, validateRuleset } from "../ruleset";
+import type { DraftRuleset } from "../types";
+import {
+  deleteRulesetPreset,
+  encodePreset,
+  exportPresetJson,
+  getRulesetPresets,
+  importPreset,
+  saveRulesetPreset,
+  type RulesetPreset,
+} from "../utils/rulesetPresets";
+import RulesetEditor from "./RulesetEditor";
+
+interface RulesetPresetLibraryProps {
+  /** Callback to close the library */
+  onClose: () => void;
+  /** Callback when the user hosts a room with a preset */
+  onHostWithPreset: (ruleset: DraftRuleset) => void;
+}
+
+/**
+ * Preset library modal
+ *
+ * Lets organizers save named rulesets, share them as a JSON file or
+ * URL-encoded string, and host a 5v5 room with a preset once it has been
+ * checked against the draft state machine.
+ */
+export default function RulesetPresetLibrary({
+  onClose,
+  onHostWithPreset,
+}: RulesetPresetLibraryProps) {
+  const [presets, setPresets] = useState<RulesetPreset[]>(getRulesetPresets);
+  const [draftName, setDraftName] = useState("");
+  const [draftRuleset, setDraftRuleset] = useState<DraftRuleset>({
+    ...DEFAULT_RULESET,
+  });
+  const [importText, setImportText] = useState("");
+  const [message, setMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Dry-run every preset so broken ones can't be used to host
+  const presetErrors = useMemo(() => {
+    const errors: Record<string, string[]> = {};
+    for (const preset of presets) {
+      errors[preset.name] = dryRunRuleset(preset.ruleset);
+    }
+    return errors;
+  }, [presets]);
+
+  // Range errors are already listed by the editor; only surface dry-run failures
+  const draftDryRunError = useMemo(
+    () =>
+      validateRuleset(draftRuleset).length > 0
+        ? null
+        : (dryRunRuleset(draftRuleset)[0] ?? null),
+    [draftRuleset],
+  );
+
+  const handleSave = () => {
+    const name = draftName.trim();
+    if (!name) {
+      setMessage({ text: "Give the preset a name first", isError: true });
+      return;
+    }
+    setPresets(saveRulesetPreset(name, draftRuleset));
+    setMessage({ text: `Saved "${name}"`, isError: false });
+  };
+
+  const handleEdit = (preset: RulesetPreset) => {
+    setDraftName(preset.name);
+    setDraftRuleset({ ...preset.ruleset });
+    setMessage(null);
+  };
+
+  const handleDelete = (preset: RulesetPreset) => {
+    setPresets(deleteRulesetPreset(preset.name));
+    setMessage({ text: `Deleted "${preset.name}"`, isError: false });
+  };
+
+  const handleExportFile = (preset: RulesetPreset) => {
+    const blob = new Blob([exportPresetJson(preset)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${preset.name.replace(/[^a-z0-9-_]+/gi, "_")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopyShareString = async (preset: RulesetPreset) => {
+    try {
+      await navigator.clipboard.writeText(encodePreset(preset));
+      setMessage({
+        text: `Copied share string for "${preset.name}"`,
+        isError: false,
+      });
+    } catch (err) {
+      console.error("Failed to copy preset:", err);
+      setMessage({ text: "Failed to copy share string", isError: true });
+    }
+  };
+
+  const handleImport = (text: string) => {
+    const preset = importPreset(text);
+    if (!preset) {
+      setMessage({ text: "That isn't a valid ruleset preset", isError: true });
+      return;
+    }
+    setPresets(saveRulesetPreset(preset.name, preset.ruleset));
+    setImportText("");
+    setMessage({ text: `Imported "${preset.name}"`, isError: false });
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      handleImport(await file.text());
+    } catch (err) {
+      console.error("Failed to read preset file:", err);
+      setMessage({ text: "Failed to read preset file", isError: true });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 lg:p-8 border-2 border-gray-700 max-w-3xl w-full max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-4 lg:mb-6">
+          <h2 className="text-2xl lg:text-3xl font-bold text-gray-100">
+            Rule Presets
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 text-2xl"
+          >
+            X
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 lg:gap-6">
+          {/* Saved Presets */}
+          <div>
+            <h3 className="text-sm font-bold text-blue-400 uppercase tracking-wider mb-2">
+              Saved Presets
+            </h3>
+            {presets.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No presets yet. Create one or import a shared preset.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {presets.map((preset) => {
+                  const errors = presetErrors[preset.name] ?? [];
+                  return (
+                    <div
+                      key={preset.name}
+                      className="bg-gray-900/50 rounded-lg p-3 border border-gray-700"
+                    >
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <p className="font-semibold text-gray-100 truncate">
+                          {preset.name}
+                        </p>
+                        <span
+                          className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${
+                            errors.length === 0
+                              ? "bg-green-900/50 text-green-300"
+                              : "bg-red-900/50 text-red-300"
+                          }`}
+                          title={errors.join("\n") || undefined}
+                        >
+                          {errors.length === 0 ? "Playable" : "Invalid"}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-1.5">
+                        <button
+                          onClick={() => onHostWithPreset(preset.ruleset)}
+                          disabled={errors.length > 0}
+                          className="px-2 py-1 rounded text-xs font-semibold bg-purple-700 hover:bg-purple-600 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Host Room
+                        </button>
+                        <button
+                          onClick={() => handleEdit(preset)}
+                          className="px-2 py-1 rounded text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleExportFile(preset)}
+                          className="px-2 py-1 rounded text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+                        >
+                          Export JSON
+                        </button>
+                        <button
+                          onClick={() => handleCopyShareString(preset)}
+                          className="px-2 py-1 rounded text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+                        >
+                          Copy Share String
+                        </button>
+                        <button
+                          onClick={() => handleDelete(preset)}
+                          className="px-2 py-1 rounded text-xs font-semibold bg-red-900/60 hover:bg-red-800 text-red-200 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Import */}
+            <h3 className="text-sm font-bold text-blue-400 uppercase tracking-wider mt-4 mb-2">
+              Import
+            </h3>
+            <textarea
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder="Paste a share string or preset JSON"
+              rows={3}
+              className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-xs text-gray-100 font-mono focus:outline-none focus:border-blue-500"
+            />
+            <div className="flex gap-2 mt-1.5">
+              <button
+                onClick={() => handleImport(importText)}
+                disabled={!importText.trim()}
+                className="flex-1 py-1.5 rounded-lg text-xs font-semibold bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Import String
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 py-1.5 rounded-lg text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+              >
+                Import JSON File
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => handleImportFile(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+
+          {/* Preset Editor */}
+          <div>
+            <h3 className="text-sm font-bold text-blue-400 uppercase tracking-wider mb-2">
+              Create / Edit
+            </h3>
+            <input
+              type="text"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              placeholder="Preset name"
+              maxLength={40}
+              className="w-full px-2 py-1.5 mb-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 focus:outline-none focus:border-blue-500"
+            />
+            <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+              <RulesetEditor
+                ruleset={draftRuleset}
+                onChange={setDraftRuleset}
+              />
+              {draftDryRunError && (
+                <p className="mt-2 text-xs text-red-300">{draftDryRunError}</p>
+              )}
+            </div>
+            <button
+              onClick={handleSave}
+              className="w-full mt-2 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              Save Preset
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <p
+            className={`mt-4 text-sm ${message.isError ? "text-red-300" : "text-green-300"}`}
+          >
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
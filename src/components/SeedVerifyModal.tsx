@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { verifySeedRolls } from "../draftLogic";
+import type { DraftState } from "../types";
+
+interface SeedVerifyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  draftState: DraftState;
+}
+
+/**
+ * Seed verification modal
+ *
+ * Recomputes the wildcard and track condition rolls from the draft seed
+ * (or a seed pasted by the user) and shows whether each one matches.
+ */
+export default function SeedVerifyModal({
+  isOpen,
+  onClose,
+  draftState,
+}: SeedVerifyModalProps) {
+  const [seedInput, setSeedInput] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  if (!isOpen) return null;
+
+  const seed = seedInput.trim() || draftState.seed;
+  const checks = verifySeedRolls(draftState, seed);
+  const mismatches = checks.filter((check) => !check.matches).length;
+
+  const handleCopySeed = async () => {
+    if (!draftState.seed) return;
+    try {
+      await navigator.clipboard.writeText(draftState.seed);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy seed:", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 border-2 border-gray-700 max-w-2xl w-full max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-100">Verify Seed</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 text-2xl"
+          >
+            X
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <p className="text-xs text-gray-400 mb-1">Draft seed</p>
+          <div className="flex gap-2">
+            <code className="flex-1 px-3 py-1.5 bg-gray-900 rounded-lg text-sm text-gray-100 font-mono truncate">
+              {draftState.seed ?? "This draft was created without a seed"}
+            </code>
+            <button
+              onClick={handleCopySeed}
+              disabled={!draftState.seed}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {copied ? "Copied!" : "Copy"}
+            </button>
+          </div>
+          <input
+            type="text"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            placeholder="Check against another seed (optional)"
+            className="w-full mt-2 px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 font-mono focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        {checks.length === 0 ? (
+          <p className="text-sm text-gray-500">No seed to verify against.</p>
+        ) : (
+          <>
+            <p
+              className={`mb-2 text-sm font-semibold ${
+                mismatches === 0 ? "text-green-300" : "text-red-300"
+              }`}
+            >
+              {mismatches === 0
+                ? `All ${checks.length} rolls match the seed`
+                : `${mismatches} of ${checks.length} rolls do not match the seed`}
+            </p>
+            <div className="space-y-1.5">
+              {checks.map((check, index) => (
+                <div
+                  key={`${check.label}-${index}`}
+                  className={`rounded-lg p-2 border text-xs ${
+                    check.matches
+                      ? "bg-gray-900/50 border-gray-700"
+                      : "bg-red-900/20 border-red-700/50"
+                  }`}
+                >
+                  <div className="flex justify-between gap-2">
+                    <span className="font-semibold text-gray-200">
+                      {check.label}
+                    </span>
+                    <span
+                      className={
+                        check.matches ? "text-green-400" : "text-red-400"
+                      }
+                    >
+                      {check.matches ? "Match" : "Mismatch"}
+                    </span>
+                  </div>
+                  <div className="text-gray-400">
+                    Rolled: {check.expected}
+                    {!check.matches && (
+                      <span className="text-gray-300">
+                        {" "}
+                        · Draft used: {check.actual}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
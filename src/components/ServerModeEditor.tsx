@@ -0,0 +1,86 @@
+import { SAMPLE_UMAS } from "../data";
+import { SERVERS, getServerUmas } from "../serverMode";
+import type { ServerConfig } from "../types";
+
+interface ServerModeEditorProps {
+  /** Server config being edited */
+  config: ServerConfig;
+  /** Problems with the config under the room's rules */
+  errors?: string[];
+  /** Callback when the config changes (omit for a read-only summary) */
+  onChange?: (config: ServerConfig) => void;
+}
+
+/**
+ * Server picker for 5v5 rooms
+ * JP or Global, plus the Global release cut-off that limits the uma pool.
+ */
+export default function ServerModeEditor({
+  config,
+  errors = [],
+  onChange,
+}: ServerModeEditorProps) {
+  const readOnly = !onChange;
+  const umaCount = getServerUmas(config).length;
+
+  return (
+    <div className="text-left space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-1">
+          {SERVERS.map((server) => (
+            <button
+              key={server.id}
+              onClick={() =>
+                onChange?.({
+                  server: server.id,
+                  releaseCutoff:
+                    server.id === "global" ? config.releaseCutoff : undefined,
+                })
+              }
+              disabled={readOnly}
+              className={`px-2.5 py-0.5 rounded text-xs font-semibold transition-colors disabled:cursor-default ${
+                config.server === server.id
+                  ? "bg-blue-600/80 text-white"
+                  : "bg-gray-700 text-gray-400"
+              }`}
+            >
+              {server.label}
+            </button>
+          ))}
+        </div>
+
+        {config.server === "global" && (
+          <label className="flex items-center gap-1.5 text-xs text-gray-400">
+            Released by
+            <input
+              type="date"
+              value={config.releaseCutoff ?? ""}
+              onChange={(e) =>
+                onChange?.({
+                  ...config,
+                  releaseCutoff: e.target.value || undefined,
+                })
+              }
+              disabled={readOnly}
+              className="px-1.5 py-0.5 bg-gray-700 border border-gray-600 rounded text-xs text-gray-100 focus:outline-none focus:border-blue-500 disabled:opacity-60"
+            />
+          </label>
+        )}
+
+        <span className="ml-auto text-xs text-gray-500">
+          {umaCount} of {SAMPLE_UMAS.length} umas
+        </span>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-0.5">
+          {errors.map((error) => (
+            <li key={error} className="text-xs text-red-300">
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import {
+  SKILL_CATEGORIES,
+  SKILL_RARITY_FILTERS,
+  searchSkills,
+  type SkillRarityFilter,
+} from "../utils/skills";
+import SkillEntry from "./SkillEntry";
+
+interface SkillBrowserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const selectClass =
+  "px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 focus:outline-none focus:border-blue-500";
+
+/**
+ * Skill browser modal
+ *
+ * Searchable list of every skill in the data, with effects and activation
+ * conditions. Expand a skill to see its details.
+ */
+export default function SkillBrowserModal({
+  isOpen,
+  onClose,
+}: SkillBrowserModalProps) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState("all");
+  const [rarity, setRarity] = useState<SkillRarityFilter>("all");
+
+  if (!isOpen) return null;
+
+  const skills = searchSkills(query, category, rarity);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-6 border-2 border-gray-700 max-w-2xl w-full h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-gray-100">Skills</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 text-2xl"
+          >
+            X
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          <input
+            type="text"
+            placeholder="Search by name, description or effect..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="flex-1 min-w-[12rem] px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-100 placeholder-gray-400 focus:outline-none focus:border-blue-500"
+          />
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className={selectClass}
+          >
+            <option value="all">All categories</option>
+            {SKILL_CATEGORIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <select
+            value={rarity}
+            onChange={(e) => setRarity(e.target.value as SkillRarityFilter)}
+            className={selectClass}
+          >
+            {SKILL_RARITY_FILTERS.map((filter) => (
+              <option key={filter.id} value={filter.id}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-2">{skills.length} skills</p>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+          {skills.map((skill) => (
+            <SkillEntry key={skill.id} skill={skill} compact />
+          ))}
+          {skills.length === 0 && (
+            <p className="text-sm text-gray-400 text-center py-8">
+              No skills match the search
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
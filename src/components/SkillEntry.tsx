@@ -0,0 +1,109 @@
+import type { Skill, SkillActivation } from "../types";
+import { formatSkillCondition } from "../utils/skillConditions";
+import { getSkillRarityLabel } from "../utils/skills";
+
+interface SkillEntryProps {
+  skill: Skill;
+  /** Hide the description and conditions until the entry is expanded */
+  compact?: boolean;
+}
+
+const rarityClass = (skill: Skill) => {
+  if (skill.category === "Unique")
+    return "border-purple-500/60 text-purple-200";
+  if (skill.rarity === 2) return "border-yellow-500/60 text-yellow-200";
+  return "border-gray-600 text-gray-200";
+};
+
+function ConditionList({ condition }: { condition: string }) {
+  const alternatives = formatSkillCondition(condition);
+  return (
+    <div className="space-y-0.5">
+      {alternatives.map((clauses, index) => (
+        <div key={index}>
+          {index > 0 && (
+            <p className="text-[10px] uppercase text-gray-500 font-semibold">
+              or
+            </p>
+          )}
+          <ul className="list-disc list-inside text-xs text-gray-300">
+            {clauses.map((clause, clauseIndex) => (
+              <li key={clauseIndex}>{clause}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ActivationDetails({ activation }: { activation: SkillActivation }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-semibold text-emerald-300">
+        {activation.effectSummary}
+        {activation.duration > 0 && (
+          <span className="text-gray-400 font-normal">
+            {" "}
+            for {activation.duration}s
+          </span>
+        )}
+      </p>
+      {activation.precondition && (
+        <div>
+          <p className="text-[10px] uppercase text-gray-500 font-semibold">
+            After
+          </p>
+          <ConditionList condition={activation.precondition} />
+        </div>
+      )}
+      <ConditionList condition={activation.condition} />
+    </div>
+  );
+}
+
+/**
+ * One skill with its effect and readable activation conditions
+ */
+export default function SkillEntry({
+  skill,
+  compact = false,
+}: SkillEntryProps) {
+  const details = (
+    <div className="space-y-2 mt-1">
+      <p className="text-xs text-gray-400">{skill.description}</p>
+      {skill.activations.map((activation, index) => (
+        <ActivationDetails key={index} activation={activation} />
+      ))}
+    </div>
+  );
+
+  const header = (
+    <div className="flex items-center gap-2">
+      <span className="font-semibold text-sm">{skill.name}</span>
+      <span className="text-[10px] text-gray-400">{skill.category}</span>
+      <span className="ml-auto text-[10px] text-gray-400">
+        {getSkillRarityLabel(skill)}
+        {skill.cost > 0 && ` · ${skill.cost} pt`}
+      </span>
+    </div>
+  );
+
+  return (
+    <div
+      className={`px-3 py-2 bg-gray-900/60 rounded-lg border-l-4 ${rarityClass(skill)}`}
+    >
+      {compact ? (
+        <details>
+          <summary className="cursor-pointer list-none">{header}</summary>
+          {details}
+        </details>
+      ) : (
+        <>
+          {header}
+          {details}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useMemo, useRef, useEffect, useCallback } from "react";
-import type { DraftState, Map } from "../types";
+import type { DraftState, Map, Team } from "../types";
 import type { ConnectionStatus } from "../types/multiplayer";
 import type { PendingSelections } from "../types/firebase";
 import DraftHeader from "./DraftHeader";
@@ -7,8 +7,14 @@ import TeamPanel from "./TeamPanel";
 import PhaseAnnouncement from "./PhaseAnnouncement";
 import MatchStatisticsModal from "./MatchStatisticsModal";
 import MatchSummaryTeamRoster from "./MatchSummaryTeamRoster";
+import RollbackNotice from "./RollbackNotice";
 import { countDistances, countDirtTracks } from "../draftLogic";
-import { getTimelineForPhase } from "./DraftTimeline";
+import {
+  getCompletedStepCount,
+  getDraftScript,
+  getTimelineForPhase,
+} from "../draftScript";
+import { getRuleset } from "../ruleset";
 import { formatUmaName } from "../utils/umaDisplay";
 import { buildUmaMatchStats } from "../utils/matchStats";
 
@@ -20,6 +26,8 @@ interface SpectatorViewProps {
   /** Team names */
   team1Name?: string;
   team2Name?: string;
+  /** Seat of the room's host (who asks for rollbacks) */
+  hostTeam?: Team;
   /** Connection status */
   connectionStatus?: ConnectionStatus;
   /** Callback to leave spectating */
@@ -58,6 +66,7 @@ export default function SpectatorView({
   roomCode,
   team1Name = "Team 1",
   team2Name = "Team 2",
+  hostTeam = "team1",
   connectionStatus = "connected",
   onBackToMenu,
   timeRemaining,
@@ -155,38 +164,15 @@ export default function SpectatorView({
   const isLobby = phase === "lobby";
   const hasPickOrderHistory = Boolean(draftState.pickOrderHistoryText?.trim());
 
-  // Compute completed actions for timeline
-  const completedActions = useMemo(() => {
-    const t1 = draftState.team1;
-    const t2 = draftState.team2;
-    if (phase === "map-pick") {
-      return (t1.pickedMaps?.length || 0) + (t2.pickedMaps?.length || 0);
-    }
-    if (phase === "map-ban") {
-      return (t1.bannedMaps?.length || 0) + (t2.bannedMaps?.length || 0);
-    }
-    if (phase === "uma-pick") {
-      const totalPicked =
-        (t1.pickedUmas?.length || 0) + (t2.pickedUmas?.length || 0);
-      const totalBanned =
-        (t1.bannedUmas?.length || 0) + (t2.bannedUmas?.length || 0);
-      // Each ban removed one uma from pickedUmas and added it to bannedUmas,
-      // so total uma-pick actions ever taken = current picks + bans.
-      return totalBanned > 0 ? totalPicked + totalBanned : totalPicked;
-    }
-    if (phase === "uma-ban") {
-      return (t1.bannedUmas?.length || 0) + (t2.bannedUmas?.length || 0);
-    }
-    if (phase === "uma-pre-ban") {
-      return (t1.preBannedUmas?.length || 0) + (t2.preBannedUmas?.length || 0);
-    }
-    return 0;
-  }, [phase, draftState.team1, draftState.team2]);
+  // Completed draft script steps drive the timeline
+  const ruleset = getRuleset(draftState);
+  const draftScript = getDraftScript(draftState);
+  const completedActions = getCompletedStepCount(draftState);
 
   // Compute how many consecutive picks the current team has (for snake draft highlighting)
   const consecutivePicks = useMemo(() => {
     if (phase !== "uma-pick") return 1;
-    const timeline = getTimelineForPhase(phase, completedActions);
+    const timeline = getTimelineForPhase(phase, completedActions, draftScript);
     if (!timeline) return 1;
     const { steps, currentIndex } = timeline;
     if (currentIndex >= steps.length) return 1;
@@ -197,7 +183,7 @@ export default function SpectatorView({
       else break;
     }
     return Math.max(count, 1);
-  }, [phase, completedActions]);
+  }, [phase, completedActions, draftScript]);
   const team1IncomingVetoSelection =
     (phase === "uma-ban" || phase === "map-ban") && currentTeam === "team2"
       ? (pendingSelections.team2 ?? null)
@@ -374,6 +360,7 @@ export default function SpectatorView({
           bannedMaps={team1.bannedMaps}
           distanceCounts={team1DistanceCounts}
           dirtCount={countDirtTracks(team1.pickedMaps)}
+          ruleset={ruleset}
           isCurrentTurn={phase !== "complete" && currentTeam === "team1"}
           activeSection={isMapPhase ? "maps" : isUmaPhase ? "umas" : null}
           phase={phase}
@@ -412,11 +399,19 @@ export default function SpectatorView({
             timeRemaining={timeRemaining}
             timerEnabled={true}
             completedActions={completedActions}
+            draftScript={draftScript}
             sfxVolume={sfxVolume}
             onSfxVolumeChange={handleSfxVolumeChange}
             voicelineVolume={voicelineVolume}
             onVoicelineVolumeChange={handleVoicelineVolumeChange}
           />
+          {draftState.rollback && (
+            <RollbackNotice
+              rollback={draftState.rollback}
+              hostName={hostTeam === "team1" ? team1Name : team2Name}
+              opponentName={hostTeam === "team1" ? team2Name : team1Name}
+            />
+          )}
         </div>
 
         {/* Main center area — changes based on phase */}
@@ -866,6 +861,7 @@ export default function SpectatorView({
           bannedMaps={team2.bannedMaps}
           distanceCounts={team2DistanceCounts}
           dirtCount={countDirtTracks(team2.pickedMaps)}
+          ruleset={ruleset}
           isCurrentTurn={phase !== "complete" && currentTeam === "team2"}
           activeSection={isMapPhase ? "maps" : isUmaPhase ? "umas" : null}
           phase={phase}
@@ -0,0 +1,93 @@
+import type { UmaMusume } from "../types";
+import { formatUmaName } from "../utils/umaDisplay";
+import { rankParentPairs, type SuccessionParent } from "../utils/succession";
+
+interface SuccessionPlannerProps {
+  teamName: string;
+  accent: "blue" | "red";
+  pickedUmas: UmaMusume[];
+}
+
+function ParentChip({ parent }: { parent: SuccessionParent }) {
+  const sparks =
+    parent.sparks.length > 0
+      ? `\nUnique sparks: ${parent.sparks.join(", ")}`
+      : "";
+  return (
+    <span
+      className={`flex items-center gap-1 min-w-0 rounded px-1 py-0.5 ${
+        parent.onRoster ? "bg-emerald-500/15 text-emerald-200" : "text-gray-300"
+      }`}
+      title={`${formatUmaName(parent.uma)} (+${parent.points})${
+        parent.onRoster ? "\nOn your roster" : ""
+      }${sparks}`}
+    >
+      {parent.uma.imageUrl && (
+        <img
+          src={parent.uma.imageUrl}
+          alt={parent.uma.name}
+          className="w-5 h-5 rounded-full object-cover bg-gray-700 shrink-0"
+        />
+      )}
+      <span className="truncate">{parent.uma.name}</span>
+      <span className="text-gray-500 shrink-0">+{parent.points}</span>
+    </span>
+  );
+}
+
+/**
+ * Succession planner for the completed draft
+ * Best parent pairings for each drafted uma by compatibility points, with
+ * parents from the team's own roster highlighted.
+ */
+export default function SuccessionPlanner({
+  teamName,
+  accent,
+  pickedUmas,
+}: SuccessionPlannerProps) {
+  const isBlue = accent === "blue";
+  const containerBorder = isBlue ? "border-blue-500/20" : "border-red-500/20";
+  const headingColor = isBlue ? "text-blue-400" : "text-red-400";
+
+  return (
+    <div
+      className={`bg-gray-900/60 rounded-lg p-3 lg:p-4 border ${containerBorder}`}
+    >
+      <h3
+        className={`${headingColor} font-bold text-sm lg:text-base mb-2 text-center uppercase tracking-wider`}
+      >
+        {teamName} Parents
+      </h3>
+      <div className="space-y-2">
+        {pickedUmas.map((uma) => {
+          const pairings = rankParentPairs(uma, pickedUmas);
+          return (
+            <div key={uma.id} className="text-xs">
+              <p className="font-semibold text-gray-100 mb-0.5">
+                {formatUmaName(uma)}
+              </p>
+              {pairings.length === 0 ? (
+                <p className="text-gray-500">No compatibility data.</p>
+              ) : (
+                <ol className="space-y-0.5">
+                  {pairings.map((pairing) => (
+                    <li
+                      key={`${pairing.parents[0].uma.id}-${pairing.parents[1].uma.id}`}
+                      className="grid grid-cols-[1fr_1fr_auto] items-center gap-1"
+                    >
+                      <ParentChip parent={pairing.parents[0]} />
+                      <ParentChip parent={pairing.parents[1]} />
+                      <span className="font-bold text-amber-300 text-right">
+                        {pairing.points}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
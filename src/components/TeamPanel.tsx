@@ -1,5 +1,6 @@
-import { PRE_BANS_PER_TEAM } from "../draftLogic";
-import type { DraftPhase, Team, UmaMusume, Map } from "../types";
+import { DEFAULT_RULESET } from "../ruleset";
+import RosterFitMatrix from "./RosterFitMatrix";
+import type { DraftPhase, DraftRuleset, Team, UmaMusume, Map } from "../types";
 import type { FirebasePendingSelection } from "../types/firebase";
 
 interface TeamPanelProps {
@@ -21,6 +22,10 @@ interface TeamPanelProps {
   incomingVetoSelection?: FirebasePendingSelection | null;
   /** How many consecutive picks this team has in a row (for snake draft slot highlighting) */
   consecutivePicks?: number;
+  /** Room ruleset (slot counts and constraint caps) */
+  ruleset?: DraftRuleset;
+  /** Races in play order, for the roster fit matrix */
+  raceSchedule?: { map: Map; team: string; index: number }[];
 }
 
 export default function TeamPanel({
@@ -41,8 +46,11 @@ export default function TeamPanel({
   ghostSelection = null,
   incomingVetoSelection = null,
   consecutivePicks = 1,
+  ruleset = DEFAULT_RULESET,
+  raceSchedule = [],
 }: TeamPanelProps) {
   const isTeam1 = team === "team1";
+  const { preBansPerTeam, umaVetoesPerTeam } = ruleset;
   const teamColor = isTeam1 ? "text-blue-500" : "text-red-500";
   const pendingUmaGhost =
     ghostSelection?.type === "uma" ? ghostSelection : null;
@@ -118,7 +126,10 @@ export default function TeamPanel({
 
       <div className="mb-1.5 lg:mb-2 xl:mb-4 shrink-0 min-w-0">
         <h3 className="text-xs lg:text-sm xl:text-base font-bold mb-1 text-gray-300 uppercase tracking-wider">
-          Maps <span className="text-xs">({allMaps.length}/4)</span>
+          Maps{" "}
+          <span className="text-xs">
+            ({allMaps.length}/{ruleset.mapPicksPerTeam})
+          </span>
         </h3>
 
         {/* Constraint Indicators */}
@@ -135,24 +146,24 @@ export default function TeamPanel({
                   <span
                     key={category}
                     className={`text-xs px-2 py-1 rounded capitalize ${
-                      count >= 2
+                      count >= ruleset.maxMapsPerDistance
                         ? "bg-red-900/50 text-red-300 font-bold"
                         : "bg-gray-700 text-gray-300"
                     }`}
                   >
-                    {category}: {count}/2
+                    {category}: {count}/{ruleset.maxMapsPerDistance}
                   </span>
                 );
               })}
               {dirtCount > 0 && (
                 <span
                   className={`text-xs px-2 py-1 rounded ${
-                    dirtCount >= 2
+                    dirtCount >= ruleset.maxDirtMaps
                       ? "bg-red-900/50 text-red-300 font-bold"
                       : "bg-gray-700 text-gray-300"
                   }`}
                 >
-                  Dirt: {dirtCount}/2
+                  Dirt: {dirtCount}/{ruleset.maxDirtMaps}
                 </span>
               )}
             </div>
@@ -160,7 +171,7 @@ export default function TeamPanel({
         )}
 
         <div className="space-y-1 lg:space-y-1">
-          {[...Array(4)].map((_, index) => {
+          {[...Array(ruleset.mapPicksPerTeam)].map((_, index) => {
             const map = allMaps[index];
             const isBanned = map && bannedMaps.some((b) => b.id === map.id);
             const isPendingMapBanTarget =
@@ -291,11 +302,14 @@ export default function TeamPanel({
 
       <div className="mt-0.5 lg:mt-1 shrink-0">
         <h3 className="text-sm lg:text-base xl:text-lg font-bold text-gray-300 uppercase tracking-wider mb-1 lg:mb-2">
-          Umamusume <span className="text-sm">({pickedUmas.length}/6)</span>
+          Umamusume{" "}
+          <span className="text-sm">
+            ({pickedUmas.length}/{ruleset.umaPicksPerTeam})
+          </span>
         </h3>
 
         <div className="grid grid-cols-3 gap-1 lg:gap-1.5">
-          {[...Array(6)].map((_, index) => {
+          {[...Array(ruleset.umaPicksPerTeam)].map((_, index) => {
             const uma = pickedUmas[index];
             const isPendingVetoTarget =
               !!uma && pendingVetoGhost?.id === uma.id.toString();
@@ -406,7 +420,7 @@ export default function TeamPanel({
                 Banned:
               </p>
               <div className="flex gap-1">
-                {Array.from({ length: PRE_BANS_PER_TEAM }).map((_, index) => {
+                {Array.from({ length: preBansPerTeam }).map((_, index) => {
                   const uma = preBannedUmas[index];
                   const isGhostSlot =
                     !uma &&
@@ -480,7 +494,7 @@ export default function TeamPanel({
                 Vetoed by Enemy Team:
               </p>
               <div className="flex gap-1 justify-end">
-                {Array.from({ length: 1 }).map((_, index) => {
+                {Array.from({ length: umaVetoesPerTeam }).map((_, index) => {
                   const uma = bannedUmas[index];
                   const isGhostSlot =
                     !uma && index === bannedUmas.length && !!pendingVetoGhost;
@@ -549,6 +563,9 @@ export default function TeamPanel({
           </div>
         )}
 
+        {pickedUmas.length > 0 && raceSchedule.length > 0 && (
+          <RosterFitMatrix umas={pickedUmas} races={raceSchedule} />
+        )}
       </div>
     </div>
   );
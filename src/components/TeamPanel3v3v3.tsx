@@ -1,4 +1,14 @@
-import type { Team3v3v3, TeamData3v3v3, Draft3v3v3Phase } from "../types3v3v3";
+import type {
+  Team3v3v3,
+  TeamData3v3v3,
+  Draft3v3v3Phase,
+  DeckConstraints,
+} from "../types3v3v3";
+import {
+  DEFAULT_DECK_CONSTRAINTS,
+  STAT_CARD_TYPES,
+  getDeckStatus,
+} from "../draftLogic3v3v3";
 
 interface TeamPanel3v3v3Props {
   team: Team3v3v3;
@@ -6,6 +16,8 @@ interface TeamPanel3v3v3Props {
   teamData: TeamData3v3v3;
   isCurrentTurn: boolean;
   phase: Draft3v3v3Phase;
+  /** Deck rules shown as live badges during the card draft */
+  deckConstraints?: DeckConstraints;
 }
 
 export default function TeamPanel3v3v3({
@@ -14,6 +26,7 @@ export default function TeamPanel3v3v3({
   teamData,
   isCurrentTurn,
   phase,
+  deckConstraints = DEFAULT_DECK_CONSTRAINTS,
 }: TeamPanel3v3v3Props) {
   const teamColor =
     team === "team1"
@@ -31,6 +44,15 @@ export default function TeamPanel3v3v3({
     : "border-gray-700";
 
   const showCards = phase === "card-pick";
+  const deckStatus = getDeckStatus(teamData, deckConstraints);
+
+  // Amber at the cap, red while a minimum is unmet
+  const getBadgeClass = (isAtCap: boolean, isMissing = false) =>
+    isMissing
+      ? "bg-red-900/50 text-red-300 border-red-700/50"
+      : isAtCap
+        ? "bg-yellow-900/40 text-yellow-300 border-yellow-700/50"
+        : "bg-gray-900/60 text-gray-300 border-gray-700";
 
   return (
     <div
@@ -88,6 +110,47 @@ export default function TeamPanel3v3v3({
               );
             })}
           </div>
+          {/* Deck Constraint Badges */}
+          <div className="flex flex-wrap justify-center gap-0.5 mt-1">
+            <span
+              className={`text-[9px] font-bold px-1 rounded border ${getBadgeClass(
+                deckStatus.ssrCount >= deckConstraints.maxSSR,
+              )}`}
+            >
+              SSR {deckStatus.ssrCount}/{deckConstraints.maxSSR}
+            </span>
+            <span
+              className={`text-[9px] font-bold px-1 rounded border ${getBadgeClass(
+                deckStatus.friendCount >= deckConstraints.maxFriendCards,
+              )}`}
+            >
+              Friend {deckStatus.friendCount}/{deckConstraints.maxFriendCards}
+            </span>
+            {STAT_CARD_TYPES.map((type) => (
+              <span
+                key={type}
+                title={`${type}: ${deckStatus.typeCounts[type]} (${deckConstraints.minPerStatType}-${deckConstraints.maxPerStatType})`}
+                className={`flex items-center gap-0.5 text-[9px] font-bold px-1 rounded border ${getBadgeClass(
+                  deckStatus.typeCounts[type] >= deckConstraints.maxPerStatType,
+                  deckStatus.missingTypes.includes(type),
+                )}`}
+              >
+                <img
+                  src={`./type/${type}.svg`}
+                  alt={type}
+                  className="w-2.5 h-2.5 object-contain"
+                />
+                {deckStatus.typeCounts[type]}/{deckConstraints.maxPerStatType}
+              </span>
+            ))}
+            {deckConstraints.uniqueCharacters && (
+              <span
+                className={`text-[9px] font-bold px-1 rounded border ${getBadgeClass(false)}`}
+              >
+                Unique
+              </span>
+            )}
+          </div>
         </div>
       ) : (
         /* Uma Musume Section */
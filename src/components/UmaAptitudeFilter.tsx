@@ -0,0 +1,103 @@
+import { useState } from "react";
+import type { AptitudeGrade, UmaAptitudes } from "../types";
+import {
+  APTITUDE_FIELDS,
+  APTITUDE_GRADES,
+  formatAptitudeFilter,
+  type AptitudeFilter,
+} from "../utils/umaAptitudes";
+
+interface UmaAptitudeFilterProps {
+  /** Active filters (an uma must match all of them) */
+  filters: AptitudeFilter[];
+  /** Callback when filters are added or removed */
+  onChange: (filters: AptitudeFilter[]) => void;
+}
+
+/** One-click filters for the most common searches */
+const QUICK_FILTERS: AptitudeFilter[] = [
+  { key: "dirt", minGrade: "B" },
+  { key: "long", minGrade: "A" },
+  { key: "chaser", minGrade: "A" },
+];
+
+const selectClass =
+  "px-1.5 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-gray-100 focus:outline-none focus:border-blue-500";
+
+/**
+ * Aptitude filter bar for the uma grids
+ * Builds filters like "Long A+" from an aptitude and a minimum grade.
+ */
+export default function UmaAptitudeFilter({
+  filters,
+  onChange,
+}: UmaAptitudeFilterProps) {
+  const [key, setKey] = useState<keyof UmaAptitudes>("turf");
+  const [minGrade, setMinGrade] = useState<AptitudeGrade>("A");
+
+  const isActive = (filter: AptitudeFilter) =>
+    filters.some((f) => f.key === filter.key && f.minGrade === filter.minGrade);
+
+  // One filter per aptitude: adding "Long B+" replaces "Long A+"
+  const addFilter = (filter: AptitudeFilter) => {
+    onChange([...filters.filter((f) => f.key !== filter.key), filter]);
+  };
+
+  const removeFilter = (filter: AptitudeFilter) => {
+    onChange(filters.filter((f) => f.key !== filter.key));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mb-2 lg:mb-3">
+      <select
+        value={key}
+        onChange={(e) => setKey(e.target.value as keyof UmaAptitudes)}
+        className={selectClass}
+      >
+        {APTITUDE_FIELDS.map((field) => (
+          <option key={field.key} value={field.key}>
+            {field.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={minGrade}
+        onChange={(e) => setMinGrade(e.target.value as AptitudeGrade)}
+        className={selectClass}
+      >
+        {APTITUDE_GRADES.map((grade) => (
+          <option key={grade} value={grade}>
+            {grade} or better
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => addFilter({ key, minGrade })}
+        className="px-2 py-1 rounded text-xs font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+      >
+        Add filter
+      </button>
+
+      {QUICK_FILTERS.filter((filter) => !isActive(filter)).map((filter) => (
+        <button
+          key={formatAptitudeFilter(filter)}
+          onClick={() => addFilter(filter)}
+          className="px-2 py-0.5 rounded-full text-xs text-gray-400 border border-gray-600 hover:border-gray-500 hover:text-gray-200 transition-colors"
+        >
+          + {formatAptitudeFilter(filter)}
+        </button>
+      ))}
+
+      {filters.map((filter) => (
+        <button
+          key={filter.key}
+          onClick={() => removeFilter(filter)}
+          className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-600/80 text-white hover:bg-blue-500 transition-colors"
+          title="Remove filter"
+        >
+          {formatAptitudeFilter(filter)} ✕
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 import type { UmaMusume } from "../types";
+import { APTITUDE_FIELDS, getStrongAptitudes } from "../utils/umaAptitudes";
 
 interface UmaCardProps {
   uma: UmaMusume;
   onSelect: (uma: UmaMusume) => void;
   disabled?: boolean;
   isSelected?: boolean;
+  /** Another outfit of this character is already in the draft */
+  isLocked?: boolean;
+  /** Opens the uma's detail popover (skills, aptitudes) */
+  onShowDetails?: (uma: UmaMusume) => void;
 }
 
 export default function UmaCard({
@@ -12,31 +17,84 @@ export default function UmaCard({
   onSelect,
   disabled,
   isSelected,
+  isLocked,
+  onShowDetails,
 }: UmaCardProps) {
+  const strong = getStrongAptitudes(uma);
+  const badges = [strong.surface, strong.distance, strong.style].filter(
+    (group) => group.length > 0,
+  );
+  // Full aptitudes and base stats on hover
+  const stats = uma.baseStats;
+  const aptitudeSummary = uma.aptitudes
+    ? [
+        APTITUDE_FIELDS.map(
+          (field) => `${field.label} ${uma.aptitudes?.[field.key]}`,
+        ).join(" · "),
+        stats &&
+          `Spd ${stats.speed} · Sta ${stats.stamina} · Pow ${stats.power} · Gut ${stats.guts} · Wit ${stats.wit}`,
+      ]
+        .filter(Boolean)
+        .join("\n")
+    : undefined;
+
   return (
-    <button
-      onClick={() => onSelect(uma)}
-      disabled={disabled}
-      className={`p-1.5 lg:p-2 bg-gray-700/80 border-2 rounded-lg hover:border-gray-500 hover:shadow-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-600 ${
-        isSelected
-          ? "border-yellow-400 ring-2 ring-yellow-400/50 selected-glow"
-          : "border-gray-600/60"
-      }`}
-    >
-      <div className="aspect-square bg-gray-600/60 rounded mb-0.5 lg:mb-1 flex items-center justify-center overflow-hidden">
-        {uma.imageUrl ? (
-          <img
-            src={uma.imageUrl}
-            alt={uma.name}
-            className="w-full h-full object-cover"
-          />
-        ) : (
-          <span className="text-xl text-gray-400">?</span>
+    <div className="relative">
+      <button
+        onClick={() => onSelect(uma)}
+        disabled={disabled || isLocked}
+        title={
+          isLocked
+            ? "Another outfit of this character is drafted"
+            : aptitudeSummary
+        }
+        className={`w-full h-full p-1.5 lg:p-2 bg-gray-700/80 border-2 rounded-lg hover:border-gray-500 hover:shadow-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-600 ${
+          isSelected
+            ? "border-yellow-400 ring-2 ring-yellow-400/50 selected-glow"
+            : "border-gray-600/60"
+        }`}
+      >
+        <div className="aspect-square bg-gray-600/60 rounded mb-0.5 lg:mb-1 flex items-center justify-center overflow-hidden relative">
+          {uma.imageUrl ? (
+            <img
+              src={uma.imageUrl}
+              alt={uma.name}
+              className={`w-full h-full object-cover ${isLocked ? "grayscale" : ""}`}
+            />
+          ) : (
+            <span className="text-xl text-gray-400">?</span>
+          )}
+          {isLocked && (
+            <span className="absolute inset-x-0 bottom-0 bg-black/70 text-[10px] font-bold uppercase text-gray-300 text-center py-0.5">
+              Variant locked
+            </span>
+          )}
+        </div>
+        <p className="text-xs font-semibold text-gray-100 text-center whitespace-pre-line leading-tight break-words">
+          {uma.name}
+        </p>
+        {badges.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-0.5 mt-0.5">
+            {badges.map((group) => (
+              <span
+                key={group.join("-")}
+                className="px-1 rounded bg-gray-900/60 text-[9px] font-semibold text-emerald-300 leading-tight"
+              >
+                {group.join(" ")}
+              </span>
+            ))}
+          </div>
         )}
-      </div>
-      <p className="text-xs font-semibold text-gray-100 text-center whitespace-pre-line leading-tight break-words">
-        {uma.name}
-      </p>
-    </button>
+      </button>
+      {onShowDetails && (
+        <button
+          onClick={() => onShowDetails(uma)}
+          className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 text-[11px] font-bold text-gray-200 hover:bg-blue-600 transition-colors"
+          title="Skills and details"
+        >
+          i
+        </button>
+      )}
+    </div>
   );
 }
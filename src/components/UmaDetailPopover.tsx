@@ -0,0 +1,124 @@
+import type { UmaMusume } from "../types";
+import { APTITUDE_FIELDS, meetsGrade } from "../utils/umaAptitudes";
+import { getUmaSkills } from "../utils/skills";
+import SkillEntry from "./SkillEntry";
+
+interface UmaDetailPopoverProps {
+  uma: UmaMusume;
+  onClose: () => void;
+}
+
+const STAT_LABELS = [
+  { key: "speed", label: "Spd" },
+  { key: "stamina", label: "Sta" },
+  { key: "power", label: "Pow" },
+  { key: "guts", label: "Gut" },
+  { key: "wit", label: "Wit" },
+] as const;
+
+/**
+ * Uma detail popover for the draft grids
+ * Aptitudes, base stats and the uma's unique and innate skills.
+ */
+export default function UmaDetailPopover({
+  uma,
+  onClose,
+}: UmaDetailPopoverProps) {
+  const { unique, innate } = getUmaSkills(uma);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-xl shadow-2xl p-4 border-2 border-gray-700 max-w-lg w-full max-h-[85vh] overflow-y-auto custom-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3 mb-3">
+          {uma.imageUrl && (
+            <img
+              src={uma.imageUrl}
+              alt={uma.name}
+              className="w-16 h-16 rounded-lg object-cover bg-gray-700"
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            <h3 className="text-lg font-bold text-gray-100 leading-tight whitespace-pre-line">
+              {uma.name}
+            </h3>
+            {uma.title && <p className="text-xs text-gray-400">{uma.title}</p>}
+            {uma.baseStats && (
+              <p className="text-xs text-gray-300 mt-1">
+                {STAT_LABELS.map(
+                  ({ key, label }) => `${label} ${uma.baseStats?.[key]}`,
+                ).join(" · ")}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200 text-xl"
+          >
+            X
+          </button>
+        </div>
+
+        {uma.aptitudes && (
+          <div className="grid grid-cols-5 gap-1 mb-3">
+            {APTITUDE_FIELDS.map((field) => {
+              const grade = uma.aptitudes?.[field.key] ?? "G";
+              return (
+                <div
+                  key={field.key}
+                  className="bg-gray-900/60 rounded px-1.5 py-0.5 flex justify-between text-xs"
+                >
+                  <span className="text-gray-400">{field.short}</span>
+                  <span
+                    className={`font-bold ${
+                      meetsGrade(grade, "A")
+                        ? "text-emerald-300"
+                        : "text-gray-300"
+                    }`}
+                  >
+                    {grade}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {unique.length > 0 && (
+          <div className="mb-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold mb-1">
+              Unique Skill{unique.length > 1 ? "s" : ""}
+            </p>
+            <div className="space-y-1.5">
+              {unique.map((skill) => (
+                <SkillEntry key={skill.id} skill={skill} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {innate.length > 0 && (
+          <div>
+            <p className="text-xs text-gray-400 uppercase tracking-wider font-semibold mb-1">
+              Innate Skills
+            </p>
+            <div className="space-y-1.5">
+              {innate.map((skill) => (
+                <SkillEntry key={skill.id} skill={skill} compact />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {unique.length === 0 && innate.length === 0 && (
+          <p className="text-sm text-gray-400">No skill data for this uma.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { formatRoomCode } from "../utils/roomCode";
 import { buildInviteUrl } from "../utils/inviteLinks";
+import { DEFAULT_RULESET, validateRuleset } from "../ruleset";
+import { dryRunRuleset } from "../draftLogic";
+import {
+  DEFAULT_CONDITION_POLICY,
+  validateConditionPolicy,
+} from "../conditionPolicy";
+import { DEFAULT_MAP_POOL, validateMapPool } from "../mapPool";
+import { DEFAULT_SERVER_CONFIG, validateServerConfig } from "../serverMode";
+import type {
+  ConditionPolicy,
+  DraftRuleset,
+  MapPool,
+  ServerConfig,
+} from "../types";
+import RulesetEditor from "./RulesetEditor";
+import ConditionPolicyEditor from "./ConditionPolicyEditor";
+import MapPoolEditor from "./MapPoolEditor";
+import ServerModeEditor from "./ServerModeEditor";
 
 interface WaitingRoomProps {
   /** Room code to display */
@@ -33,6 +51,22 @@ interface WaitingRoomProps {
   turnDuration?: number;
   /** Callback when host changes timer duration */
   onTurnDurationChange?: (duration: number) => void;
+  /** Draft rules for the room */
+  ruleset?: DraftRuleset;
+  /** Callback when host changes the rules */
+  onRulesetChange?: (ruleset: DraftRuleset) => void;
+  /** Track condition policy for the room */
+  conditionPolicy?: ConditionPolicy;
+  /** Callback when host changes the condition policy */
+  onConditionPolicyChange?: (policy: ConditionPolicy) => void;
+  /** Maps the room drafts from */
+  mapPool?: MapPool;
+  /** Callback when host changes the map pool */
+  onMapPoolChange?: (pool: MapPool) => void;
+  /** Server the room plays on */
+  serverConfig?: ServerConfig;
+  /** Callback when host changes the server */
+  onServerConfigChange?: (config: ServerConfig) => void;
 }
 
 /**
@@ -55,6 +89,14 @@ export default function WaitingRoom({
   isRetrying = false,
   turnDuration = 60,
   onTurnDurationChange,
+  ruleset = DEFAULT_RULESET,
+  onRulesetChange,
+  conditionPolicy = DEFAULT_CONDITION_POLICY,
+  onConditionPolicyChange,
+  mapPool = DEFAULT_MAP_POOL,
+  onMapPoolChange,
+  serverConfig = DEFAULT_SERVER_CONFIG,
+  onServerConfigChange,
 }: WaitingRoomProps) {
   const [copied, setCopied] = useState(false);
   const [copiedInvite, setCopiedInvite] = useState<"join" | "spectate" | null>(
@@ -65,7 +107,23 @@ export default function WaitingRoom({
   const [tempTeam1Name, setTempTeam1Name] = useState(team1Name);
 
   const [tempTeam2Name, setTempTeam2Name] = useState(team2Name);
-  const canStart = playerCount >= 2;
+  const mapPoolErrors = validateMapPool(mapPool, ruleset);
+  const serverErrors = validateServerConfig(serverConfig, ruleset);
+  const areSettingsValid =
+    validateRuleset(ruleset).length === 0 &&
+    serverErrors.length === 0 &&
+    validateConditionPolicy(conditionPolicy).length === 0 &&
+    mapPoolErrors.length === 0;
+  // Play the draft through against this room's pool and server, not the defaults
+  const dryRunError = useMemo(
+    () =>
+      areSettingsValid
+        ? (dryRunRuleset(ruleset, mapPool, serverConfig)[0] ?? null)
+        : null,
+    [areSettingsValid, ruleset, mapPool, serverConfig],
+  );
+  const isRulesetValid = areSettingsValid && dryRunError === null;
+  const canStart = playerCount >= 2 && isRulesetValid;
 
   // Sync temp names when props change (from other player's edits)
   useEffect(() => {
@@ -330,6 +388,55 @@ export default function WaitingRoom({
           )}
         </div>
 
+        {/* Draft Rules */}
+        <div className="bg-gray-900/50 rounded-lg p-3 lg:p-3.5 mb-2.5 lg:mb-3.5 border border-gray-700">
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+            Rules
+          </p>
+          <RulesetEditor
+            ruleset={ruleset}
+            onChange={isHost ? onRulesetChange : undefined}
+          />
+          {dryRunError && (
+            <p className="mt-2 text-xs text-red-300">{dryRunError}</p>
+          )}
+        </div>
+
+        {/* Server */}
+        <div className="bg-gray-900/50 rounded-lg p-3 lg:p-3.5 mb-2.5 lg:mb-3.5 border border-gray-700">
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+            Server
+          </p>
+          <ServerModeEditor
+            config={serverConfig}
+            errors={serverErrors}
+            onChange={isHost ? onServerConfigChange : undefined}
+          />
+        </div>
+
+        {/* Map Pool */}
+        <div className="bg-gray-900/50 rounded-lg p-3 lg:p-3.5 mb-2.5 lg:mb-3.5 border border-gray-700">
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+            Map Pool
+          </p>
+          <MapPoolEditor
+            pool={mapPool}
+            errors={mapPoolErrors}
+            onChange={isHost ? onMapPoolChange : undefined}
+          />
+        </div>
+
+        {/* Track Conditions */}
+        <div className="bg-gray-900/50 rounded-lg p-3 lg:p-3.5 mb-2.5 lg:mb-3.5 border border-gray-700">
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+            Track Conditions
+          </p>
+          <ConditionPolicyEditor
+            policy={conditionPolicy}
+            onChange={isHost ? onConditionPolicyChange : undefined}
+          />
+        </div>
+
         {/* Connection Error */}
         {connectionError && (
           <div className="bg-red-900/20 border border-red-700 rounded-lg p-3 lg:p-3.5 mb-2.5 lg:mb-3.5">
@@ -358,7 +465,11 @@ export default function WaitingRoom({
                   : "bg-gray-700 text-gray-500 cursor-not-allowed border-2 border-gray-700"
               }`}
             >
-              {canStart ? "Start Draft" : "Waiting for Players..."}
+              {canStart
+                ? "Start Draft"
+                : isRulesetValid
+                  ? "Waiting for Players..."
+                  : "Fix Rules to Start"}
             </button>
             {onLeave && (
               <button
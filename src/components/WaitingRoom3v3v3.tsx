@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { formatRoomCode } from "../utils/roomCode";
+import { buildInviteUrl } from "../utils/inviteLinks";
+import { ROOM_LIMITS } from "../config/multiplayer";
+import type { Team3v3v3 } from "../types3v3v3";
+
+interface WaitingRoom3v3v3Props {
+  /** Room code to display */
+  roomCode: string;
+  /** Team names */
+  team1Name: string;
+  team2Name: string;
+  team3Name: string;
+  /** Whether the local player is the host */
+  isHost: boolean;
+  /** Seat of the local player (undefined for spectators) */
+  localTeam?: Team3v3v3;
+  /** Number of players connected (including host) */
+  playerCount: number;
+  /** Number of spectators connected */
+  spectatorCount: number;
+  /** Callback when host clicks Start Draft */
+  onStartDraft: () => void;
+  /** Callback to leave/cancel */
+  onLeave?: () => void;
+  /** Callback when the local player renames their team */
+  onTeamNameChange?: (team: Team3v3v3, name: string) => void;
+  /** Connection error message to display */
+  connectionError?: string | null;
+  /** Callback to retry the connection */
+  onRetryConnection?: () => void;
+  /** Whether a connection retry is in progress */
+  isRetrying?: boolean;
+}
+
+const TEAM_STYLES: Record<
+  Team3v3v3,
+  { label: string; box: string; heading: string; name: string; input: string }
+> = {
+  team1: {
+    label: "Team 1",
+    box: "bg-blue-900/20 border-blue-700/50",
+    heading: "text-blue-400",
+    name: "text-blue-300 hover:text-blue-200",
+    input: "border-blue-500 text-blue-300",
+  },
+  team2: {
+    label: "Team 2",
+    box: "bg-red-900/20 border-red-700/50",
+    heading: "text-red-400",
+    name: "text-red-300 hover:text-red-200",
+    input: "border-red-500 text-red-300",
+  },
+  team3: {
+    label: "Team 3",
+    box: "bg-green-900/20 border-green-700/50",
+    heading: "text-green-400",
+    name: "text-green-300 hover:text-green-200",
+    input: "border-green-500 text-green-300",
+  },
+};
+
+/**
+ * Waiting room for 3v3v3 rooms
+ * Host takes Team 1; the next two players are seated in Team 2 and Team 3.
+ * Each player can rename only their own team.
+ */
+export default function WaitingRoom3v3v3({
+  roomCode,
+  team1Name,
+  team2Name,
+  team3Name,
+  isHost,
+  localTeam,
+  playerCount,
+  spectatorCount,
+  onStartDraft,
+  onLeave,
+  onTeamNameChange,
+  connectionError,
+  onRetryConnection,
+  isRetrying = false,
+}: WaitingRoom3v3v3Props) {
+  const [copied, setCopied] = useState(false);
+  const [copiedInvite, setCopiedInvite] = useState<"join" | "spectate" | null>(
+    null,
+  );
+  const [editing, setEditing] = useState(false);
+  const [tempName, setTempName] = useState("");
+
+  const maxPlayers = ROOM_LIMITS.MAX_PLAYERS_3V3V3;
+  const canStart = playerCount >= maxPlayers;
+  const teamNames: Record<Team3v3v3, string> = {
+    team1: team1Name,
+    team2: team2Name,
+    team3: team3Name,
+  };
+
+  const startEditing = (team: Team3v3v3) => {
+    setTempName(teamNames[team]);
+    setEditing(true);
+  };
+
+  const handleSubmit = () => {
+    if (!localTeam) return;
+    const name = tempName.trim() || TEAM_STYLES[localTeam].label;
+    setEditing(false);
+    onTeamNameChange?.(localTeam, name);
+  };
+
+  const handleCopyRoomCode = async () => {
+    try {
+      await navigator.clipboard.writeText(roomCode);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy room code:", err);
+    }
+  };
+
+  const joinInviteUrl = buildInviteUrl("join", roomCode);
+  const spectateInviteUrl = buildInviteUrl("spectate", roomCode);
+
+  const handleCopyInvite = async (mode: "join" | "spectate") => {
+    const url = mode === "join" ? joinInviteUrl : spectateInviteUrl;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedInvite(mode);
+      setTimeout(() => setCopiedInvite(null), 2000);
+    } catch (err) {
+      console.error(`Failed to copy ${mode} invite:`, err);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-gray-950 to-gray-900 flex items-start lg:items-center justify-center px-4 lg:px-6 py-4 lg:py-6 overflow-y-auto">
+      <div className="bg-gray-800 rounded-xl shadow-2xl p-[18px] lg:p-5 xl:p-6 border-2 border-gray-700 max-w-2xl w-full text-center my-auto">
+        <h1 className="text-2xl lg:text-3xl font-bold mb-1 lg:mb-2 text-gray-100">
+          Waiting Room
+        </h1>
+        <p className="text-sm lg:text-base text-gray-400 mb-2.5 lg:mb-3.5">
+          Share the room code with the other two teams
+        </p>
+
+        {/* Room Code Display */}
+        <div className="bg-gray-900 rounded-xl p-3.5 lg:p-4.5 mb-2.5 lg:mb-3.5 border border-gray-700">
+          <p className="text-xs lg:text-sm text-gray-400 mb-1 lg:mb-2">
+            Room Code
+          </p>
+          <button
+            onClick={handleCopyRoomCode}
+            className={`text-[1.7rem] lg:text-[2.15rem] xl:text-[2.6rem] font-mono font-bold transition-colors tracking-wider ${
+              copied ? "text-green-400" : "text-blue-400 hover:text-blue-300"
+            }`}
+            title="Click to copy"
+          >
+            {formatRoomCode(roomCode)}
+          </button>
+          <p
+            className={`text-xs mt-1 lg:mt-2 transition-colors ${copied ? "text-green-400" : "text-gray-500"}`}
+          >
+            {copied ? "Copied!" : "Click to copy"}
+          </p>
+          {isHost && (
+            <div className="mt-2.5 pt-2.5 border-t border-gray-700 text-left">
+              <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 text-center">
+                Invite Links
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="rounded-lg border border-gray-700 bg-gray-800/60 p-2">
+                  <p className="text-[11px] text-green-400 font-semibold mb-1">
+                    Player Join
+                  </p>
+                  <p className="text-[8px] lg:text-[9px] text-gray-400 break-all leading-snug mb-2">
+                    {joinInviteUrl}
+                  </p>
+                  <button
+                    onClick={() => handleCopyInvite("join")}
+                    className="w-full px-2 py-1.5 rounded-lg text-[11px] font-semibold bg-green-700 hover:bg-green-600 text-white transition-colors"
+                  >
+                    {copiedInvite === "join" ? "Copied!" : "Copy Link"}
+                  </button>
+                </div>
+                <div className="rounded-lg border border-gray-700 bg-gray-800/60 p-2">
+                  <p className="text-[11px] text-purple-400 font-semibold mb-1">
+                    Spectator Join
+                  </p>
+                  <p className="text-[8px] lg:text-[9px] text-gray-400 break-all leading-snug mb-2">
+                    {spectateInviteUrl}
+                  </p>
+                  <button
+                    onClick={() => handleCopyInvite("spectate")}
+                    className="w-full px-2 py-1.5 rounded-lg text-[11px] font-semibold bg-purple-700 hover:bg-purple-600 text-white transition-colors"
+                  >
+                    {copiedInvite === "spectate" ? "Copied!" : "Copy Link"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Team Names */}
+        <div className="grid grid-cols-3 gap-2 lg:gap-3 mb-2.5 lg:mb-3.5">
+          {(["team1", "team2", "team3"] as const).map((team) => {
+            const style = TEAM_STYLES[team];
+            const canEdit = team === localTeam;
+            return (
+              <div
+                key={team}
+                className={`border rounded-lg p-3 lg:p-4 min-w-0 ${style.box}`}
+              >
+                <p className={`text-xs mb-0.5 lg:mb-1 ${style.heading}`}>
+                  {style.label} {canEdit && "(You)"}
+                </p>
+                {canEdit && editing ? (
+                  <input
+                    type="text"
+                    value={tempName}
+                    onChange={(e) => setTempName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+                    onBlur={handleSubmit}
+                    maxLength={20}
+                    autoFocus
+                    className={`w-full px-2 py-1 bg-gray-700 border rounded text-sm focus:outline-none ${style.input}`}
+                  />
+                ) : (
+                  <p
+                    onClick={() => canEdit && startEditing(team)}
+                    className={`font-semibold text-sm lg:text-base truncate ${style.name} ${
+                      canEdit ? "cursor-pointer" : ""
+                    }`}
+                    title={canEdit ? "Click to edit" : teamNames[team]}
+                  >
+                    {teamNames[team]}
+                    {canEdit && (
+                      <span className="opacity-70 ml-1 text-xs">[edit]</span>
+                    )}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Connection Status */}
+        <div className="bg-gray-900/50 rounded-lg p-3 lg:p-3.5 mb-2.5 lg:mb-3.5 border border-gray-700">
+          <div className="flex items-center justify-center gap-4 lg:gap-6">
+            <div className="flex items-center gap-1.5 lg:gap-2">
+              <span
+                className={`w-2.5 lg:w-3 h-2.5 lg:h-3 rounded-full ${canStart ? "bg-green-400" : "bg-yellow-400 animate-pulse"}`}
+              />
+              <span className="text-sm lg:text-base text-gray-300">
+                {playerCount}/{maxPlayers} Players
+              </span>
+            </div>
+            {spectatorCount > 0 && (
+              <div className="flex items-center gap-1.5 lg:gap-2">
+                <span className="w-2.5 lg:w-3 h-2.5 lg:h-3 rounded-full bg-purple-400" />
+                <span className="text-sm lg:text-base text-gray-300">
+                  {spectatorCount} Spectator{spectatorCount !== 1 ? "s" : ""}
+                </span>
+              </div>
+            )}
+          </div>
+          {!canStart && (
+            <p className="text-xs lg:text-sm text-yellow-400/80 mt-1.5 lg:mt-2.5">
+              Waiting for {maxPlayers - playerCount} more player
+              {maxPlayers - playerCount !== 1 ? "s" : ""} to join...
+            </p>
+          )}
+        </div>
+
+        {/* Connection Error */}
+        {connectionError && (
+          <div className="bg-red-900/20 border border-red-700 rounded-lg p-3 lg:p-3.5 mb-2.5 lg:mb-3.5">
+            <p className="text-sm text-red-300 mb-2">{connectionError}</p>
+            {onRetryConnection && (
+              <button
+                onClick={onRetryConnection}
+                disabled={isRetrying}
+                className="px-4 py-1.5 bg-red-700 hover:bg-red-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRetrying ? "Retrying..." : "Retry Connection"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Action Buttons */}
+        {isHost ? (
+          <div className="space-y-2 lg:space-y-3">
+            <button
+              onClick={onStartDraft}
+              disabled={!canStart}
+              className={`w-full py-3 lg:py-4 px-4 lg:px-6 rounded-xl font-bold text-base lg:text-lg transition-all transform ${
+                canStart
+                  ? "bg-blue-600 hover:bg-blue-700 text-white hover:scale-[1.02] shadow-lg"
+                  : "bg-gray-700 text-gray-500 cursor-not-allowed border-2 border-gray-700"
+              }`}
+            >
+              {canStart ? "Start Draft" : "Waiting for Players..."}
+            </button>
+            {onLeave && (
+              <button
+                onClick={onLeave}
+                className="w-full py-2 lg:py-3 px-3 lg:px-4 text-gray-400 hover:text-gray-200 transition-colors text-xs lg:text-sm"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2 lg:space-y-3">
+            <div className="bg-gray-700/50 rounded-xl p-3 lg:p-4">
+              <p className="text-sm lg:text-base text-gray-300">
+                Waiting for host to start the draft...
+              </p>
+            </div>
+            {onLeave && (
+              <button
+                onClick={onLeave}
+                className="w-full py-2 lg:py-3 px-3 lg:px-4 text-gray-400 hover:text-gray-200 transition-colors text-xs lg:text-sm"
+              >
+                Leave Room
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
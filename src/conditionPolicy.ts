@@ -0,0 +1,193 @@
+import type { ConditionPolicy, DraftState, TrackConditions } from "./types";
+import type { RandomSource } from "./utils/seededRandom";
+
+// ─── Condition Policy ──────────────────────────────────────────────────
+// Weight tables, pinned maps and roll timing for track conditions. The
+// host picks a policy per room; every roll (draft start, race time, seed
+// verification) goes through rollConditions so they all agree.
+
+export const SEASONS: TrackConditions["season"][] = [
+  "Spring",
+  "Summer",
+  "Fall",
+  "Winter",
+];
+
+export const WEATHERS: TrackConditions["weather"][] = [
+  "Sunny",
+  "Cloudy",
+  "Rainy",
+  "Snowy",
+];
+
+export const GROUNDS: TrackConditions["ground"][] = [
+  "Firm",
+  "Good",
+  "Soft",
+  "Heavy",
+];
+
+/** Snow only in winter; everything else equally likely */
+const UNIFORM_WEATHER = { Sunny: 1, Cloudy: 1, Rainy: 1, Snowy: 0 };
+
+/**
+ * Default policy: every season equally likely, snow only in winter,
+ * firm/good ground when dry, soft/heavy when rainy and good/soft when
+ * snowy, all rolled at draft start.
+ */
+export const DEFAULT_CONDITION_POLICY: ConditionPolicy = {
+  seasonWeights: { Spring: 1, Summer: 1, Fall: 1, Winter: 1 },
+  weatherWeights: {
+    Spring: UNIFORM_WEATHER,
+    Summer: UNIFORM_WEATHER,
+    Fall: UNIFORM_WEATHER,
+    Winter: { Sunny: 1, Cloudy: 1, Rainy: 1, Snowy: 1 },
+  },
+  groundWeights: {
+    Sunny: { Firm: 1, Good: 1, Soft: 0, Heavy: 0 },
+    Cloudy: { Firm: 1, Good: 1, Soft: 0, Heavy: 0 },
+    Rainy: { Firm: 0, Good: 0, Soft: 1, Heavy: 1 },
+    Snowy: { Firm: 0, Good: 1, Soft: 1, Heavy: 0 },
+  },
+  rollTiming: "draft-start",
+};
+
+/** League weather: mostly dry, rain 15% of the time */
+const LEAGUE_WEATHER = { Sunny: 55, Cloudy: 30, Rainy: 15, Snowy: 0 };
+
+/**
+ * League policy: rain 15% (10% in winter, with 15% snow), mostly firm
+ * ground, heavy ground only with rain.
+ */
+export const LEAGUE_CONDITION_POLICY: ConditionPolicy = {
+  seasonWeights: { Spring: 1, Summer: 1, Fall: 1, Winter: 1 },
+  weatherWeights: {
+    Spring: LEAGUE_WEATHER,
+    Summer: LEAGUE_WEATHER,
+    Fall: LEAGUE_WEATHER,
+    Winter: { Sunny: 45, Cloudy: 30, Rainy: 10, Snowy: 15 },
+  },
+  groundWeights: {
+    Sunny: { Firm: 80, Good: 20, Soft: 0, Heavy: 0 },
+    Cloudy: { Firm: 60, Good: 40, Soft: 0, Heavy: 0 },
+    Rainy: { Firm: 0, Good: 0, Soft: 50, Heavy: 50 },
+    Snowy: { Firm: 0, Good: 50, Soft: 50, Heavy: 0 },
+  },
+  rollTiming: "draft-start",
+};
+
+/**
+ * Weight tables the host can choose from
+ */
+export const CONDITION_POLICY_PRESETS: {
+  id: string;
+  label: string;
+  policy: ConditionPolicy;
+}[] = [
+  { id: "uniform", label: "Uniform", policy: DEFAULT_CONDITION_POLICY },
+  { id: "league", label: "League weighted", policy: LEAGUE_CONDITION_POLICY },
+];
+
+/**
+ * Returns the condition policy a draft is played under
+ * Firebase drops empty objects, so a missing pin table means no pins.
+ */
+export function getConditionPolicy(state: DraftState): ConditionPolicy {
+  if (!state.conditionPolicy) return DEFAULT_CONDITION_POLICY;
+  return {
+    ...state.conditionPolicy,
+    pinnedConditions: state.conditionPolicy.pinnedConditions ?? {},
+  };
+}
+
+/**
+ * Finds the preset whose weight tables a policy uses
+ *
+ * @returns Preset id, or null for custom weights
+ */
+export function getConditionPresetId(policy: ConditionPolicy): string | null {
+  const weights = (p: ConditionPolicy) =>
+    JSON.stringify([p.seasonWeights, p.weatherWeights, p.groundWeights]);
+  const preset = CONDITION_POLICY_PRESETS.find(
+    ({ policy: presetPolicy }) => weights(presetPolicy) === weights(policy),
+  );
+  return preset?.id ?? null;
+}
+
+/**
+ * Checks a policy for weight tables that can't produce a roll
+ *
+ * @param policy - Policy to validate
+ * @returns List of human-readable problems (empty if the policy is valid)
+ */
+export function validateConditionPolicy(policy: ConditionPolicy): string[] {
+  const errors: string[] = [];
+  const total = (weights: Record<string, number>) =>
+    Object.values(weights).reduce((sum, w) => sum + Math.max(0, w), 0);
+
+  if (total(policy.seasonWeights) <= 0) {
+    errors.push("At least one season needs a weight above 0");
+  }
+  for (const season of SEASONS) {
+    if (policy.seasonWeights[season] > 0) {
+      if (total(policy.weatherWeights[season]) <= 0) {
+        errors.push(`${season} needs at least one possible weather`);
+      }
+    }
+  }
+  for (const weather of WEATHERS) {
+    const isPossible = SEASONS.some(
+      (season) =>
+        policy.seasonWeights[season] > 0 &&
+        policy.weatherWeights[season][weather] > 0,
+    );
+    if (isPossible && total(policy.groundWeights[weather]) <= 0) {
+      errors.push(`${weather} weather needs at least one possible ground`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Picks an option with probability proportional to its weight
+ * Equal weights behave exactly like Math.floor(random() * options.length).
+ */
+function pickWeighted<T extends string>(
+  options: T[],
+  weights: Record<T, number>,
+  random: RandomSource,
+): T {
+  const possible = options.filter((option) => weights[option] > 0);
+  const total = possible.reduce((sum, option) => sum + weights[option], 0);
+  let roll = random() * total;
+
+  for (const option of possible) {
+    if (roll < weights[option]) return option;
+    roll -= weights[option];
+  }
+  return possible[possible.length - 1] ?? options[0];
+}
+
+/**
+ * Rolls track conditions under a policy
+ *
+ * @param policy - Weight tables and pins to roll with
+ * @param random - Random source (pass a seeded one to make the roll reproducible)
+ * @param mapId - Map being rolled for; pinned maps skip the roll
+ * @returns Season, weather and ground for the race
+ */
+export function rollConditions(
+  policy: ConditionPolicy,
+  random: RandomSource,
+  mapId?: string,
+): TrackConditions {
+  const pinned = mapId ? policy.pinnedConditions?.[mapId] : undefined;
+  if (pinned) return { ...pinned };
+
+  const season = pickWeighted(SEASONS, policy.seasonWeights, random);
+  const weather = pickWeighted(WEATHERS, policy.weatherWeights[season], random);
+  const ground = pickWeighted(GROUNDS, policy.groundWeights[weather], random);
+
+  return { season, ground, weather };
+}
@@ -0,0 +1,67 @@
+/**
+ * Realtime Database paths
+ *
+ * Kept apart from the Firebase setup so code running outside the browser
+ * (the action processor) can use the same paths.
+ */
+
+/**
+ * Database path constants for consistent path usage
+ */
+export const DB_PATHS = {
+  /** Root path for all rooms */
+  ROOMS: "rooms",
+  /** Root path for global leaderboard entries */
+  LEADERBOARD: "leaderboard",
+  /** Path to room's draft state (relative to room) */
+  DRAFT_STATE: "draftState",
+  /** Path to room's players (relative to room) */
+  PLAYERS: "players",
+  /** Path to room's spectators (relative to room) */
+  SPECTATORS: "spectators",
+  /** Path to pending actions queue (relative to room) */
+  PENDING_ACTIONS: "pendingActions",
+  /** Path to pending selections (what players are hovering) */
+  PENDING_SELECTIONS: "pendingSelections",
+  /** Path to per-race room codes (relative to room) */
+  ROOM_CODES: "roomCodes",
+  /** Path to the attached action processor (relative to room) */
+  PROCESSOR: "processor",
+} as const;
+
+/**
+ * Helper to build database paths
+ */
+export const buildPath = {
+  /** Get path to a specific room */
+  room: (roomId: string) => `${DB_PATHS.ROOMS}/${roomId}`,
+  /** Get path to global leaderboard root */
+  leaderboard: () => DB_PATHS.LEADERBOARD,
+  /** Get path to a specific leaderboard player entry */
+  leaderboardEntry: (discordUserId: string) =>
+    `${DB_PATHS.LEADERBOARD}/${discordUserId}`,
+  /** Get path to room's draft state */
+  draftState: (roomId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.DRAFT_STATE}`,
+  /** Get path to room's players */
+  players: (roomId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.PLAYERS}`,
+  /** Get path to a specific player in a room */
+  player: (roomId: string, playerId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.PLAYERS}/${playerId}`,
+  /** Get path to room's spectators */
+  spectators: (roomId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.SPECTATORS}`,
+  /** Get path to pending actions */
+  pendingActions: (roomId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.PENDING_ACTIONS}`,
+  /** Get path to pending selections */
+  pendingSelections: (roomId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.PENDING_SELECTIONS}`,
+  /** Get path to per-race room codes */
+  roomCodes: (roomId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.ROOM_CODES}`,
+  /** Get path to room's attached action processor */
+  processor: (roomId: string) =>
+    `${DB_PATHS.ROOMS}/${roomId}/${DB_PATHS.PROCESSOR}`,
+} as const;
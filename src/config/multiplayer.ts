@@ -31,6 +31,8 @@ export const CONNECTION_TIMEOUTS = {
   HEARTBEAT_INTERVAL: 5000, // 5 seconds
   /** How long to wait for pong before considering connection dead */
   HEARTBEAT_TIMEOUT: 15000, // 15 seconds
+  /** How long a player can be offline before their seat is covered (host handover, turn timer) */
+  AWAY_GRACE_PERIOD: 20000, // 20 seconds
 } as const;
 
 /**
@@ -1,11 +1,34 @@
-import type { UmaMusume, Map } from "./types";
-import type { Card } from "./types3v3v3";
+import type {
+  AptitudeGrade,
+  CourseData,
+  CourseSet,
+  GradedRace,
+  RaceGrade,
+  Skill,
+  SuccessionRelation,
+  UmaMusume,
+  Map,
+} from "./types";
+import type {
+  Card,
+  CardEffect,
+  CardUniqueEffect,
+  SupportCardDetails,
+} from "./types3v3v3";
 import { getIconCardId } from "./iconMappings";
 import { compareByReleaseOrder, getEntryByOutfitId } from "./data/releaseorder";
 
 // Import JSON data
 import characterDataJson from "./data/TerumiCharacterData.json";
 import supportCardDataJson from "./data/TerumiSupportCardData.json";
+import skillDataJson from "./data/TerumiSimpleSkillData.json";
+import raceDataJson from "./data/TerumiRaceData.json";
+import factorDataJson from "./data/TerumiFactorData.json";
+import successionRelationJson from "./data/SuccessionRelation.json";
+import successionRelationMemberJson from "./data/SuccessionRelationMember.json";
+import courseDataJson from "./data/course_data.json";
+import courseDataGlobalJson from "./data/course_data_global.json";
+import trackNamesJson from "./data/tracknames.json";
 
 // Type definitions for the JSON data
 interface CharacterData {
@@ -64,8 +87,107 @@ interface SupportCardData {
   startDate: string;
   outingMax: number;
   effectId: number;
+  effects: SupportCardEffectData[];
+  skillHints: { skillId: number; skillName: string; skillLevel: number }[];
+  uniqueEffect?: SupportCardUniqueEffectData;
+}
+
+// Values are -1 at levels where the effect doesn't change
+interface SupportCardEffectData {
+  effectType: number;
+  effectTypeName: string;
+  initValue: number;
+  level5Value: number;
+  level10Value: number;
+  level15Value: number;
+  level20Value: number;
+  level25Value: number;
+  level30Value: number;
+  level35Value: number;
+  level40Value: number;
+  level45Value: number;
+  level50Value: number;
+}
+
+// Two effect slots (type0/type1), each with a value and up to 4 parameters
+interface SupportCardUniqueEffectData {
+  level: number;
+  type0: number;
+  type0Name: string;
+  value0: number;
+  value01: number;
+  value02: number;
+  value03: number;
+  value04: number;
+  type1: number;
+  type1Name: string;
+  value1: number;
+  value11: number;
+  value12: number;
+  value13: number;
+  value14: number;
+}
+
+interface SkillData {
+  skillId: number;
+  rarity: number;
+  gradeValue: number;
+  skillCategory: string;
+  tagId: string;
+  activationCondition: string;
+  precondition: string;
   effects: unknown[];
-  skillHints: unknown[];
+  effectSummary: string;
+  iconId: number;
+  skillName: string;
+  skillDesc: string;
+  needSkillPoint: number;
+  duration: number;
+  cooldownTime: number;
+  supportCardIds: string;
+  activationCondition2: string;
+  precondition2: string;
+  effects2: unknown[];
+  effectSummary2: string;
+  duration2: number;
+  cooldownTime2: number;
+}
+
+interface RaceData {
+  raceId: number;
+  raceName: string;
+  grade: number;
+  gradeName: string;
+  distance: number;
+  distanceCategory: string;
+  ground: number;
+  groundName: string;
+  turn: number;
+  turnName: string;
+  trackId: number;
+  trackName: string;
+  entryNum: number;
+  schedules: unknown[];
+}
+
+interface FactorData {
+  id: number;
+  name: string;
+  description: string;
+  rarity: number;
+  grade: number;
+  type: number;
+}
+
+interface SuccessionRelationData {
+  relationType: number;
+  relationPoint: number;
+}
+
+interface SuccessionRelationMemberData {
+  id: number;
+  relationType: number;
+  charaId: number;
 }
 
 // Helper function to map support card type number to type string
@@ -86,6 +208,11 @@ function mapSupportCardType(
   return typeMap[typeName];
 }
 
+// Helper function to read an aptitude grade (unknown grades count as G)
+function mapAptitude(grade: string): AptitudeGrade {
+  return /^[SA-G]$/.test(grade) ? (grade as AptitudeGrade) : "G";
+}
+
 // Helper function to map rarity number to string
 function mapRarity(rarityDisplay: string): "SSR" | "SR" | "R" {
   if (rarityDisplay === "SSR") return "SSR";
@@ -104,9 +231,31 @@ export const SAMPLE_UMAS: UmaMusume[] = characterData.map((char) => {
   const variantNickname = releaseEntry?.variant?.trim() || undefined;
   return {
     id: `${char.cardId}`,
+    charaId: char.charaId,
     name: char.charaName,
     title: variantNickname,
     imageUrl: `./uma/chara_stand_${char.charaId}_${iconCardId}.webp`,
+    releaseDate: char.startDate,
+    skillIds: char.skillIds.split(",").filter(Boolean).map(Number),
+    aptitudes: {
+      turf: mapAptitude(char.aptitudeTurf),
+      dirt: mapAptitude(char.aptitudeDirt),
+      short: mapAptitude(char.aptitudeShort),
+      mile: mapAptitude(char.aptitudeMile),
+      middle: mapAptitude(char.aptitudeMiddle),
+      long: mapAptitude(char.aptitudeLong),
+      runner: mapAptitude(char.aptitudeRunner),
+      leader: mapAptitude(char.aptitudeLeader),
+      betweener: mapAptitude(char.aptitudeBetweener),
+      chaser: mapAptitude(char.aptitudeChaser),
+    },
+    baseStats: {
+      speed: char.baseSpeed,
+      stamina: char.baseStamina,
+      power: char.basePower,
+      guts: char.baseGuts,
+      wit: char.baseWisdom,
+    },
   };
 }).sort((a, b) => compareByReleaseOrder(a.id, b.id));
 
@@ -122,990 +271,265 @@ export const SAMPLE_CARDS: Card[] = supportCardData.map((card) => ({
   imageUrl: `./card/tex_support_card_${card.supportCardId}.webp`,
 }));
 
-// Race tracks with distances and surfaces
-// TODO: Fill in complete distance/surface data for each track
-// Commented tracks are not in game yet
-export const SAMPLE_MAPS: Map[] = [
-  // Sapporo
-  {
-    id: "sapporo-1200-turf",
-    track: "Sapporo",
-    distance: 1200,
-    surface: "Turf",
-    direction: "right",
-    name: "Sapporo - 1200m Turf",
-  },
-  {
-    id: "sapporo-1500-turf",
-    track: "Sapporo",
-    distance: 1500,
-    surface: "Turf",
-    direction: "right",
-    name: "Sapporo - 1500m Turf",
-  },
-  {
-    id: "sapporo-1800-turf",
-    track: "Sapporo",
-    distance: 1800,
-    surface: "Turf",
-    direction: "right",
-    name: "Sapporo - 1800m Turf",
-  },
-  {
-    id: "sapporo-2000-turf",
-    track: "Sapporo",
-    distance: 2000,
-    surface: "Turf",
-    direction: "right",
-    name: "Sapporo - 2000m Turf",
-  },
-  {
-    id: "sapporo-2600-turf",
-    track: "Sapporo",
-    distance: 2600,
-    surface: "Turf",
-    direction: "right",
-    name: "Sapporo - 2600m Turf",
-  },
-  // {
-  //   id: "sapporo-1000-dirt",
-  //   track: "Sapporo",
-  //   distance: 1000,
-  //   surface: "Dirt",
-  //   name: "Sapporo - 1000m Dirt",
-  // },
-  {
-    id: "sapporo-1700-dirt",
-    track: "Sapporo",
-    distance: 1700,
-    surface: "Dirt",
-    direction: "right",
-    name: "Sapporo - 1700m Dirt",
-  },
-  // {
-  //   id: "sapporo-2400-dirt",
-  //   track: "Sapporo",
-  //   distance: 2400,
-  //   surface: "Dirt",
-  //   name: "Sapporo - 2400m Dirt",
-  // },
+// Full support card details, keyed by card id
+const EFFECT_LEVELS = [5, 10, 15, 20, 25, 30, 35, 40, 45, 50] as const;
+const CARD_MAX_LEVELS: Record<Card["rarity"], number> = {
+  SSR: 50,
+  SR: 45,
+  R: 40,
+};
+
+function mapCardEffect(effect: SupportCardEffectData): CardEffect {
+  const values: [number, number][] = [
+    [1, effect.initValue],
+    ...EFFECT_LEVELS.map((level): [number, number] => [
+      level,
+      effect[`level${level}Value`],
+    ]),
+  ];
+  return {
+    type: effect.effectType,
+    name: effect.effectTypeName,
+    steps: values
+      .filter(([, value]) => value !== -1)
+      .map(([level, value]) => ({ level, value })),
+  };
+}
+
+function mapUniqueEffect(
+  unique: SupportCardUniqueEffectData,
+): CardUniqueEffect {
+  return {
+    unlockLevel: unique.level,
+    effects: [
+      {
+        type: unique.type0,
+        name: unique.type0Name,
+        value: unique.value0,
+        extraValues: [
+          unique.value01,
+          unique.value02,
+          unique.value03,
+          unique.value04,
+        ],
+      },
+      {
+        type: unique.type1,
+        name: unique.type1Name,
+        value: unique.value1,
+        extraValues: [
+          unique.value11,
+          unique.value12,
+          unique.value13,
+          unique.value14,
+        ],
+      },
+    ]
+      .filter((effect) => effect.type !== 0)
+      .map((effect) => ({
+        ...effect,
+        extraValues: effect.extraValues.filter((value) => value !== 0),
+      })),
+  };
+}
+
+export const SUPPORT_CARD_DETAILS: Record<string, SupportCardDetails> =
+  Object.fromEntries(
+    supportCardData.map((card) => [
+      `${card.supportCardId}`,
+      {
+        cardId: `${card.supportCardId}`,
+        charaId: card.charaId,
+        title: card.supportCardTitle,
+        maxLevel: CARD_MAX_LEVELS[mapRarity(card.rarityDisplay)],
+        effects: card.effects.map(mapCardEffect),
+        uniqueEffect: card.uniqueEffect
+          ? mapUniqueEffect(card.uniqueEffect)
+          : undefined,
+        hints: card.skillHints.map((hint) => ({
+          skillId: hint.skillId || undefined,
+          name: hint.skillName,
+        })),
+      },
+    ]),
+  );
+
+// Generate skills from JSON
+// Skills with a second activation (effects2) get a second entry in activations
+const skillData = skillDataJson as SkillData[];
+
+export const SKILLS: Skill[] = skillData.map((skill) => ({
+  id: skill.skillId,
+  name: skill.skillName,
+  description: skill.skillDesc,
+  rarity: skill.rarity,
+  category: skill.skillCategory,
+  cost: skill.needSkillPoint,
+  activations: [
+    {
+      condition: skill.activationCondition,
+      precondition: skill.precondition || undefined,
+      effectSummary: skill.effectSummary,
+      duration: skill.duration,
+    },
+    ...(skill.activationCondition2
+      ? [
+          {
+            condition: skill.activationCondition2,
+            precondition: skill.precondition2 || undefined,
+            effectSummary: skill.effectSummary2,
+            duration: skill.duration2,
+          },
+        ]
+      : []),
+  ],
+}));
+
+// Generate race tracks from course data
+// Each course becomes one map; track names come from tracknames.json
+const COURSE_SURFACES: Record<number, Map["surface"]> = {
+  1: "Turf",
+  2: "Dirt",
+};
+const COURSE_DIRECTIONS: Record<number, Map["direction"]> = {
+  1: "right",
+  2: "left",
+  4: "straight",
+};
+const COURSE_VARIANTS: Record<number, string | undefined> = {
+  2: "Inner",
+  3: "Outer",
+  4: "Outer to Inner",
+};
+// tracknames.json romanizes 中京 as "Chuukyo"; keep the existing map ids
+const TRACK_NAME_OVERRIDES: Record<string, string> = { Chuukyo: "Chukyo" };
 
-  // Hakodate
-  {
-    id: "hakodate-1000-turf",
-    track: "Hakodate",
-    distance: 1000,
-    surface: "Turf",
-    direction: "right",
-    name: "Hakodate - 1000m Turf",
-  },
-  {
-    id: "hakodate-1200-turf",
-    track: "Hakodate",
-    distance: 1200,
-    surface: "Turf",
-    direction: "right",
-    name: "Hakodate - 1200m Turf",
-  },
-  {
-    id: "hakodate-1800-turf",
-    track: "Hakodate",
-    distance: 1800,
-    surface: "Turf",
-    direction: "right",
-    name: "Hakodate - 1800m Turf",
-  },
-  {
-    id: "hakodate-2000-turf",
-    track: "Hakodate",
-    distance: 2000,
-    surface: "Turf",
-    direction: "right",
-    name: "Hakodate - 2000m Turf",
-  },
-  {
-    id: "hakodate-2600-turf",
-    track: "Hakodate",
-    distance: 2600,
-    surface: "Turf",
-    direction: "right",
-    name: "Hakodate - 2600m Turf",
-  },
-  // {
-  //   id: "hakodate-1000-dirt",
-  //   track: "Hakodate",
-  //   distance: 1000,
-  //   surface: "Dirt",
-  //   name: "Hakodate - 1000m Dirt",
-  // },
-  {
-    id: "hakodate-1700-dirt",
-    track: "Hakodate",
-    distance: 1700,
-    surface: "Dirt",
-    direction: "right",
-    name: "Hakodate - 1700m Dirt",
-  },
-  // {
-  //   id: "hakodate-2400-dirt",
-  //   track: "Hakodate",
-  //   distance: 2400,
-  //   surface: "Dirt",
-  //   name: "Hakodate - 2400m Dirt",
-  // },
+const trackNames: Record<string, string[]> = trackNamesJson;
 
-  // Niigata
-  {
-    id: "niigata-1000-turf",
-    track: "Niigata",
-    distance: 1000,
-    surface: "Turf",
-    direction: "straight",
-    name: "Niigata - 1000m Turf",
-  },
-  {
-    id: "niigata-1200-turf-inner",
-    track: "Niigata",
-    distance: 1200,
-    surface: "Turf",
-    direction: "left",
-    variant: "Inner",
-    name: "Niigata - 1200m Turf (Inner)",
-  },
-  {
-    id: "niigata-1400-turf-inner",
-    track: "Niigata",
-    distance: 1400,
-    surface: "Turf",
-    direction: "left",
-    variant: "Inner",
-    name: "Niigata - 1400m Turf (Inner)",
-  },
-  {
-    id: "niigata-1600-turf-outer",
-    track: "Niigata",
-    distance: 1600,
-    surface: "Turf",
-    direction: "left",
-    variant: "Outer",
-    name: "Niigata - 1600m Turf (Outer)",
-  },
-  {
-    id: "niigata-1800-turf-outer",
-    track: "Niigata",
-    distance: 1800,
-    surface: "Turf",
-    direction: "left",
-    variant: "Outer",
-    name: "Niigata - 1800m Turf (Outer)",
-  },
-  {
-    id: "niigata-2000-turf-inner",
-    track: "Niigata",
-    distance: 2000,
-    surface: "Turf",
-    direction: "left",
-    variant: "Inner",
-    name: "Niigata - 2000m Turf (Inner)",
-  },
-  {
-    id: "niigata-2000-turf-outer",
-    track: "Niigata",
-    distance: 2000,
-    surface: "Turf",
-    direction: "left",
-    variant: "Outer",
-    name: "Niigata - 2000m Turf (Outer)",
-  },
-  {
-    id: "niigata-2200-turf-inner",
-    track: "Niigata",
-    distance: 2200,
-    surface: "Turf",
-    direction: "left",
-    variant: "Inner",
-    name: "Niigata - 2200m Turf (Inner)",
-  },
-  {
-    id: "niigata-2400-turf-inner",
-    track: "Niigata",
-    distance: 2400,
-    surface: "Turf",
-    direction: "left",
-    variant: "Inner",
-    name: "Niigata - 2400m Turf (Inner)",
-  },
-  {
-    id: "niigata-1200-dirt",
-    track: "Niigata",
-    distance: 1200,
-    surface: "Dirt",
-    direction: "left",
-    name: "Niigata - 1200m Dirt",
-  },
-  {
-    id: "niigata-1800-dirt",
-    track: "Niigata",
-    distance: 1800,
-    surface: "Dirt",
-    direction: "left",
-    name: "Niigata - 1800m Dirt",
-  },
-  // {
-  //   id: "niigata-2500-dirt",
-  //   track: "Niigata",
-  //   distance: 2500,
-  //   surface: "Dirt",
-  //   name: "Niigata - 2500m Dirt",
-  // },
+/**
+ * English name of a race track, e.g. 10006 → "Tokyo"
+ */
+export function getTrackName(raceTrackId: number): string {
+  const trackName = trackNames[raceTrackId]?.[1] ?? `Track ${raceTrackId}`;
+  return TRACK_NAME_OVERRIDES[trackName] ?? trackName;
+}
 
-  // Fukushima
-  {
-    id: "fukushima-1200-turf",
-    track: "Fukushima",
-    distance: 1200,
-    surface: "Turf",
-    direction: "right",
-    name: "Fukushima - 1200m Turf",
-  },
-  {
-    id: "fukushima-1800-turf",
-    track: "Fukushima",
-    distance: 1800,
-    surface: "Turf",
-    direction: "right",
-    name: "Fukushima - 1800m Turf",
-  },
-  {
-    id: "fukushima-2000-turf",
-    track: "Fukushima",
-    distance: 2000,
-    surface: "Turf",
-    direction: "right",
-    name: "Fukushima - 2000m Turf",
-  },
-  {
-    id: "fukushima-2600-turf",
-    track: "Fukushima",
-    distance: 2600,
-    surface: "Turf",
-    direction: "right",
-    name: "Fukushima - 2600m Turf",
-  },
-  {
-    id: "fukushima-1150-dirt",
-    track: "Fukushima",
-    distance: 1150,
-    surface: "Dirt",
-    direction: "right",
-    name: "Fukushima - 1150m Dirt",
-  },
-  {
-    id: "fukushima-1700-dirt",
-    track: "Fukushima",
-    distance: 1700,
-    surface: "Dirt",
-    direction: "right",
-    name: "Fukushima - 1700m Dirt",
-  },
-  // {
-  //   id: "fukushima-2400-dirt",
-  //   track: "Fukushima",
-  //   distance: 2400,
-  //   surface: "Dirt",
-  //   name: "Fukushima - 2400m Dirt",
-  // },
+function buildCourseMaps(courses: Record<string, CourseData>): Map[] {
+  const seenIds = new Set<string>();
 
-  // Nakayama
-  {
-    id: "nakayama-1200-turf-outer",
-    track: "Nakayama",
-    distance: 1200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Nakayama - 1200m Turf (Outer)",
-  },
-  {
-    id: "nakayama-1600-turf-outer",
-    track: "Nakayama",
-    distance: 1600,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Nakayama - 1600m Turf (Outer)",
-  },
-  {
-    id: "nakayama-1800-turf-inner",
-    track: "Nakayama",
-    distance: 1800,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Nakayama - 1800m Turf (Inner)",
-  },
-  {
-    id: "nakayama-2000-turf-inner",
-    track: "Nakayama",
-    distance: 2000,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Nakayama - 2000m Turf (Inner)",
-  },
-  {
-    id: "nakayama-2200-turf-outer",
-    track: "Nakayama",
-    distance: 2200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Nakayama - 2200m Turf (Outer)",
-  },
-  {
-    id: "nakayama-2500-turf-inner",
-    track: "Nakayama",
-    distance: 2500,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Nakayama - 2500m Turf (Inner)",
-  },
-  {
-    id: "nakayama-3600-turf-inner",
-    track: "Nakayama",
-    distance: 3600,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Nakayama - 3600m Turf (Inner)",
-  },
-  {
-    id: "nakayama-1200-dirt",
-    track: "Nakayama",
-    distance: 1200,
-    surface: "Dirt",
-    direction: "right",
-    name: "Nakayama - 1200m Dirt",
-  },
-  {
-    id: "nakayama-1800-dirt",
-    track: "Nakayama",
-    distance: 1800,
-    surface: "Dirt",
-    direction: "right",
-    name: "Nakayama - 1800m Dirt",
-  },
-  // {
-  //   id: "nakayama-2400-dirt",
-  //   track: "Nakayama",
-  //   distance: 2400,
-  //   surface: "Dirt",
-  //   name: "Nakayama - 2400m Dirt",
-  // },
-  // {
-  //   id: "nakayama-2500-dirt",
-  //   track: "Nakayama",
-  //   distance: 2500,
-  //   surface: "Dirt",
-  //   name: "Nakayama - 2500m Dirt",
-  // },
+  return Object.entries(courses)
+    .map(([courseId, course]) => ({ courseId: Number(courseId), course }))
+    .filter(({ course }) => COURSE_SURFACES[course.surface])
+    .sort(
+      (a, b) =>
+        a.course.raceTrackId - b.course.raceTrackId ||
+        a.course.surface - b.course.surface ||
+        a.course.distance - b.course.distance ||
+        a.course.course - b.course.course ||
+        a.courseId - b.courseId,
+    )
+    .map(({ courseId, course }) => {
+      const track = getTrackName(course.raceTrackId);
+      const surface = COURSE_SURFACES[course.surface];
+      const variant = COURSE_VARIANTS[course.course];
+      const slug = [track, course.distance, surface, variant]
+        .filter((part) => part !== undefined)
+        .join("-")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-");
+      // Two layouts with the same name (e.g. Santa Anita 2000m Turf)
+      const id = seenIds.has(slug) ? `${slug}-${courseId}` : slug;
+      seenIds.add(id);
 
-  // Tokyo
-  {
-    id: "tokyo-1400-turf",
-    track: "Tokyo",
-    distance: 1400,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 1400m Turf",
-  },
-  {
-    id: "tokyo-1600-turf",
-    track: "Tokyo",
-    distance: 1600,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 1600m Turf",
-  },
-  {
-    id: "tokyo-1800-turf",
-    track: "Tokyo",
-    distance: 1800,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 1800m Turf",
-  },
-  {
-    id: "tokyo-2000-turf",
-    track: "Tokyo",
-    distance: 2000,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 2000m Turf",
-  },
-  {
-    id: "tokyo-2300-turf",
-    track: "Tokyo",
-    distance: 2300,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 2300m Turf",
-  },
-  {
-    id: "tokyo-2400-turf",
-    track: "Tokyo",
-    distance: 2400,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 2400m Turf",
-  },
-  {
-    id: "tokyo-2500-turf",
-    track: "Tokyo",
-    distance: 2500,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 2500m Turf",
-  },
-  {
-    id: "tokyo-3400-turf",
-    track: "Tokyo",
-    distance: 3400,
-    surface: "Turf",
-    direction: "left",
-    name: "Tokyo - 3400m Turf",
-  },
-  {
-    id: "tokyo-1300-dirt",
-    track: "Tokyo",
-    distance: 1300,
-    surface: "Dirt",
-    direction: "left",
-    name: "Tokyo - 1300m Dirt",
-  },
-  {
-    id: "tokyo-1400-dirt",
-    track: "Tokyo",
-    distance: 1400,
-    surface: "Dirt",
-    direction: "left",
-    name: "Tokyo - 1400m Dirt",
-  },
-  {
-    id: "tokyo-1600-dirt",
-    track: "Tokyo",
-    distance: 1600,
-    surface: "Dirt",
-    direction: "left",
-    name: "Tokyo - 1600m Dirt",
-  },
-  {
-    id: "tokyo-2100-dirt",
-    track: "Tokyo",
-    distance: 2100,
-    surface: "Dirt",
-    direction: "left",
-    name: "Tokyo - 2100m Dirt",
-  },
-  // {
-  //   id: "tokyo-2400-dirt",
-  //   track: "Tokyo",
-  //   distance: 2400,
-  //   surface: "Dirt",
-  //   name: "Tokyo - 2400m Dirt",
-  // },
+      return {
+        id,
+        courseId,
+        track,
+        distance: course.distance,
+        surface,
+        direction: COURSE_DIRECTIONS[course.turn] ?? "right",
+        variant,
+        name: `${track} - ${course.distance}m ${surface}${variant ? ` (${variant})` : ""}`,
+      };
+    });
+}
 
-  // Chukyo
-  {
-    id: "chukyo-1200-turf",
-    track: "Chukyo",
-    distance: 1200,
-    surface: "Turf",
-    direction: "left",
-    name: "Chukyo - 1200m Turf",
-  },
-  {
-    id: "chukyo-1400-turf",
-    track: "Chukyo",
-    distance: 1400,
-    surface: "Turf",
-    direction: "left",
-    name: "Chukyo - 1400m Turf",
-  },
-  {
-    id: "chukyo-1600-turf",
-    track: "Chukyo",
-    distance: 1600,
-    surface: "Turf",
-    direction: "left",
-    name: "Chukyo - 1600m Turf",
-  },
-  {
-    id: "chukyo-2000-turf",
-    track: "Chukyo",
-    distance: 2000,
-    surface: "Turf",
-    direction: "left",
-    name: "Chukyo - 2000m Turf",
-  },
-  {
-    id: "chukyo-2200-turf",
-    track: "Chukyo",
-    distance: 2200,
-    surface: "Turf",
-    direction: "left",
-    name: "Chukyo - 2200m Turf",
-  },
-  // {
-  //   id: "chukyo-1200-dirt",
-  //   track: "Chukyo",
-  //   distance: 1200,
-  //   surface: "Dirt",
-  //   name: "Chukyo - 1200m Dirt",
-  // },
-  {
-    id: "chukyo-1400-dirt",
-    track: "Chukyo",
-    distance: 1400,
-    surface: "Dirt",
-    direction: "left",
-    name: "Chukyo - 1400m Dirt",
-  },
-  {
-    id: "chukyo-1800-dirt",
-    track: "Chukyo",
-    distance: 1800,
-    surface: "Dirt",
-    direction: "left",
-    name: "Chukyo - 1800m Dirt",
-  },
-  // {
-  //   id: "chukyo-1900-dirt",
-  //   track: "Chukyo",
-  //   distance: 1900,
-  //   surface: "Dirt",
-  //   name: "Chukyo - 1900m Dirt",
-  // },
+// Generate graded races from race data
+// Ids below 4000 are the real race calendar (higher ids are scenario, team
+// race and event copies); a few races are listed twice, keep one entry per
+// race name and course
+const CALENDAR_RACE_ID_LIMIT = 4000;
+const RACE_GRADES: Record<number, RaceGrade> = {
+  100: "G1",
+  200: "G2",
+  300: "G3",
+};
+const raceData = raceDataJson as RaceData[];
+const seenRaces = new Set<string>();
 
-  // Kyoto
-  {
-    id: "kyoto-1200-turf-inner",
-    track: "Kyoto",
-    distance: 1200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Kyoto - 1200m Turf (Inner)",
-  },
-  {
-    id: "kyoto-1400-turf-inner",
-    track: "Kyoto",
-    distance: 1400,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Kyoto - 1400m Turf (Inner)",
-  },
-  {
-    id: "kyoto-1400-turf-outer",
-    track: "Kyoto",
-    distance: 1400,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Kyoto - 1400m Turf (Outer)",
-  },
-  {
-    id: "kyoto-1600-turf-inner",
-    track: "Kyoto",
-    distance: 1600,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Kyoto - 1600m Turf (Inner)",
-  },
-  {
-    id: "kyoto-1600-turf-outer",
-    track: "Kyoto",
-    distance: 1600,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Kyoto - 1600m Turf (Outer)",
-  },
-  {
-    id: "kyoto-1800-turf-outer",
-    track: "Kyoto",
-    distance: 1800,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Kyoto - 1800m Turf (Outer)",
-  },
-  {
-    id: "kyoto-2000-turf-inner",
-    track: "Kyoto",
-    distance: 2000,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Kyoto - 2000m Turf (Inner)",
-  },
-  {
-    id: "kyoto-2200-turf-outer",
-    track: "Kyoto",
-    distance: 2200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Kyoto - 2200m Turf (Outer)",
-  },
-  {
-    id: "kyoto-2400-turf-outer",
-    track: "Kyoto",
-    distance: 2400,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Kyoto - 2400m Turf (Outer)",
-  },
-  {
-    id: "kyoto-3000-turf-outer",
-    track: "Kyoto",
-    distance: 3000,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Kyoto - 3000m Turf (Outer)",
-  },
-  {
-    id: "kyoto-3200-turf-outer",
-    track: "Kyoto",
-    distance: 3200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Kyoto - 3200m Turf (Outer)",
-  },
-  {
-    id: "kyoto-1200-dirt",
-    track: "Kyoto",
-    distance: 1200,
-    surface: "Dirt",
-    direction: "right",
-    name: "Kyoto - 1200m Dirt",
-  },
-  {
-    id: "kyoto-1400-dirt",
-    track: "Kyoto",
-    distance: 1400,
-    surface: "Dirt",
-    direction: "right",
-    name: "Kyoto - 1400m Dirt",
-  },
-  {
-    id: "kyoto-1800-dirt",
-    track: "Kyoto",
-    distance: 1800,
-    surface: "Dirt",
-    direction: "right",
-    name: "Kyoto - 1800m Dirt",
-  },
-  {
-    id: "kyoto-1900-dirt",
-    track: "Kyoto",
-    distance: 1900,
-    surface: "Dirt",
-    direction: "right",
-    name: "Kyoto - 1900m Dirt",
-  },
+export const GRADED_RACES: GradedRace[] = raceData
+  .filter((race) => RACE_GRADES[race.grade] && COURSE_SURFACES[race.ground])
+  .filter((race) => race.raceId < CALENDAR_RACE_ID_LIMIT)
+  .map((race) => ({
+    id: race.raceId,
+    name: race.raceName,
+    grade: RACE_GRADES[race.grade],
+    track: getTrackName(race.trackId),
+    distance: race.distance,
+    surface: COURSE_SURFACES[race.ground],
+    direction: COURSE_DIRECTIONS[race.turn] ?? "right",
+  }))
+  .filter((race) => {
+    const key = `${race.name}-${race.track}-${race.distance}-${race.surface}`;
+    if (seenRaces.has(key)) return false;
+    seenRaces.add(key);
+    return true;
+  });
 
-  // Hanshin
-  {
-    id: "hanshin-1200-turf-inner",
-    track: "Hanshin",
-    distance: 1200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Hanshin - 1200m Turf (Inner)",
-  },
-  {
-    id: "hanshin-1400-turf-inner",
-    track: "Hanshin",
-    distance: 1400,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Hanshin - 1400m Turf (Inner)",
-  },
-  {
-    id: "hanshin-1600-turf-outer",
-    track: "Hanshin",
-    distance: 1600,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Hanshin - 1600m Turf (Outer)",
-  },
-  {
-    id: "hanshin-1800-turf-outer",
-    track: "Hanshin",
-    distance: 1800,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Hanshin - 1800m Turf (Outer)",
-  },
-  {
-    id: "hanshin-2000-turf-inner",
-    track: "Hanshin",
-    distance: 2000,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Hanshin - 2000m Turf (Inner)",
-  },
-  {
-    id: "hanshin-2200-turf-inner",
-    track: "Hanshin",
-    distance: 2200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Hanshin - 2200m Turf (Inner)",
-  },
-  {
-    id: "hanshin-2400-turf-outer",
-    track: "Hanshin",
-    distance: 2400,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Hanshin - 2400m Turf (Outer)",
-  },
-  {
-    id: "hanshin-2600-turf-outer",
-    track: "Hanshin",
-    distance: 2600,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer",
-    name: "Hanshin - 2600m Turf (Outer)",
-  },
-  {
-    id: "hanshin-3000-turf-inner",
-    track: "Hanshin",
-    distance: 3000,
-    surface: "Turf",
-    direction: "right",
-    variant: "Inner",
-    name: "Hanshin - 3000m Turf (Inner)",
-  },
-  {
-    id: "hanshin-3200-turf-outer-to-inner",
-    track: "Hanshin",
-    distance: 3200,
-    surface: "Turf",
-    direction: "right",
-    variant: "Outer to Inner",
-    name: "Hanshin - 3200m Turf (Outer to Inner)",
-  },
-  // {
-  //   id: "hanshin-1200-dirt",
-  //   track: "Hanshin",
-  //   distance: 1200,
-  //   surface: "Dirt",
-  //   name: "Hanshin - 1200m Dirt",
-  // },
-  {
-    id: "hanshin-1400-dirt",
-    track: "Hanshin",
-    distance: 1400,
-    surface: "Dirt",
-    direction: "right",
-    name: "Hanshin - 1400m Dirt",
-  },
-  {
-    id: "hanshin-1800-dirt",
-    track: "Hanshin",
-    distance: 1800,
-    surface: "Dirt",
-    direction: "right",
-    name: "Hanshin - 1800m Dirt",
-  },
-  {
-    id: "hanshin-2000-dirt",
-    track: "Hanshin",
-    distance: 2000,
-    surface: "Dirt",
-    direction: "right",
-    name: "Hanshin - 2000m Dirt",
-  },
+/**
+ * Raw course data per server, keyed by course id
+ */
+export const COURSE_DATA: Record<CourseSet, Record<string, CourseData>> = {
+  jp: courseDataJson,
+  global: courseDataGlobalJson,
+};
 
-  // Kokura
-  {
-    id: "kokura-1200-turf",
-    track: "Kokura",
-    distance: 1200,
-    surface: "Turf",
-    direction: "right",
-    name: "Kokura - 1200m Turf",
-  },
-  {
-    id: "kokura-1800-turf",
-    track: "Kokura",
-    distance: 1800,
-    surface: "Turf",
-    direction: "right",
-    name: "Kokura - 1800m Turf",
-  },
-  {
-    id: "kokura-2000-turf",
-    track: "Kokura",
-    distance: 2000,
-    surface: "Turf",
-    direction: "right",
-    name: "Kokura - 2000m Turf",
-  },
-  {
-    id: "kokura-2600-turf",
-    track: "Kokura",
-    distance: 2600,
-    surface: "Turf",
-    direction: "right",
-    name: "Kokura - 2600m Turf",
-  },
-  // {
-  //   id: "kokura-1000-dirt",
-  //   track: "Kokura",
-  //   distance: 1000,
-  //   surface: "Dirt",
-  //   name: "Kokura - 1000m Dirt",
-  // },
-  {
-    id: "kokura-1700-dirt",
-    track: "Kokura",
-    distance: 1700,
-    surface: "Dirt",
-    direction: "right",
-    name: "Kokura - 1700m Dirt",
-  },
-  // {
-  //   id: "kokura-2400-dirt",
-  //   track: "Kokura",
-  //   distance: 2400,
-  //   surface: "Dirt",
-  //   name: "Kokura - 2400m Dirt",
-  // },
+/**
+ * Every map in each course data set (JP has the overseas tracks Global
+ * doesn't have yet). Rooms draft from a curated subset, see mapPool.ts.
+ */
+export const COURSE_MAPS: Record<CourseSet, Map[]> = {
+  jp: buildCourseMaps(COURSE_DATA.jp),
+  global: buildCourseMaps(COURSE_DATA.global),
+};
 
-  // Ooi
-  {
-    id: "ooi-1200-dirt",
-    track: "Ooi",
-    distance: 1200,
-    surface: "Dirt",
-    direction: "right",
-    name: "Ooi - 1200m Dirt",
-  },
-  {
-    id: "ooi-1800-dirt",
-    track: "Ooi",
-    distance: 1800,
-    surface: "Dirt",
-    direction: "right",
-    name: "Ooi - 1800m Dirt",
-  },
-  {
-    id: "ooi-2000-dirt",
-    track: "Ooi",
-    distance: 2000,
-    surface: "Dirt",
-    direction: "right",
-    name: "Ooi - 2000m Dirt",
-  },
+// Generate succession relations from relation data
+// Each relation type is a group of characters; every pair in the group
+// gains the group's points of compatibility
+const relationMembers =
+  successionRelationMemberJson as SuccessionRelationMemberData[];
+const relationCharaIds: Record<number, number[]> = {};
+for (const member of relationMembers) {
+  (relationCharaIds[member.relationType] ??= []).push(member.charaId);
+}
 
-  // Kawasaki not in game yet
-  // {
-  //   id: "kawasaki-1400-dirt",
-  //   track: "Kawasaki",
-  //   distance: 1400,
-  //   surface: "Dirt",
-  //   name: "Kawasaki - 1400m Dirt",
-  // },
-  // {
-  //   id: "kawasaki-1600-dirt",
-  //   track: "Kawasaki",
-  //   distance: 1600,
-  //   surface: "Dirt",
-  //   name: "Kawasaki - 1600m Dirt",
-  // },
-  // {
-  //   id: "kawasaki-2100-dirt",
-  //   track: "Kawasaki",
-  //   distance: 2100,
-  //   surface: "Dirt",
-  //   name: "Kawasaki - 2100m Dirt",
-  // },
+export const SUCCESSION_RELATIONS: SuccessionRelation[] = (
+  successionRelationJson as SuccessionRelationData[]
+).map((relation) => ({
+  type: relation.relationType,
+  points: relation.relationPoint,
+  charaIds: relationCharaIds[relation.relationType] ?? [],
+}));
 
-  // Funabashi not in game yet
-  // {
-  //   id: "funabashi-1000-dirt",
-  //   track: "Funabashi",
-  //   distance: 1000,
-  //   surface: "Dirt",
-  //   name: "Funabashi - 1000m Dirt",
-  // },
-  // {
-  //   id: "funabashi-1600-dirt",
-  //   track: "Funabashi",
-  //   distance: 1600,
-  //   surface: "Dirt",
-  //   name: "Funabashi - 1600m Dirt",
-  // },
-  // {
-  //   id: "funabashi-1800-dirt",
-  //   track: "Funabashi",
-  //   distance: 1800,
-  //   surface: "Dirt",
-  //   name: "Funabashi - 1800m Dirt",
-  // },
-  // {
-  //   id: "funabashi-2400-dirt",
-  //   track: "Funabashi",
-  //   distance: 2400,
-  //   surface: "Dirt",
-  //   name: "Funabashi - 2400m Dirt",
-  // },
+// Unique skill sparks (type 3) have ids of cardId * 100 + star rarity
+const UNIQUE_SPARK_TYPE = 3;
+const factorData = factorDataJson as FactorData[];
 
-  // Morioka commented out cause not in game yet
-  // {
-  //   id: "morioka-1200-dirt",
-  //   track: "Morioka",
-  //   distance: 1200,
-  //   surface: "Dirt",
-  //   name: "Morioka - 1200m Dirt",
-  // },
-  // {
-  //   id: "morioka-1600-dirt",
-  //   track: "Morioka",
-  //   distance: 1600,
-  //   surface: "Dirt",
-  //   name: "Morioka - 1600m Dirt",
-  // },
-  // {
-  //   id: "morioka-1800-dirt",
-  //   track: "Morioka",
-  //   distance: 1800,
-  //   surface: "Dirt",
-  //   name: "Morioka - 1800m Dirt",
-  // },
-  // {
-  //   id: "morioka-2000-dirt",
-  //   track: "Morioka",
-  //   distance: 2000,
-  //   surface: "Dirt",
-  //   name: "Morioka - 2000m Dirt",
-  // },
-];
+/**
+ * Name of the unique skill spark each uma passes on as a parent, keyed by uma id
+ */
+export const UNIQUE_SPARKS: Record<string, string> = Object.fromEntries(
+  factorData
+    .filter((factor) => factor.type === UNIQUE_SPARK_TYPE)
+    .map((factor) => [`${Math.floor(factor.id / 100)}`, factor.name]),
+);
@@ -0,0 +1,174 @@
+import type { DraftPhase, DraftState, Map, Team, UmaMusume } from "./types";
+import type { DraftActionPayload } from "./types/multiplayer";
+import { getMapConditions, selectMap, selectUma } from "./draftLogic";
+import { getResumeTurn } from "./draftScript";
+import { withRace } from "./utils/raceCalendar";
+
+/**
+ * Draft Actions
+ *
+ * Applies a player's queued draft action to the 5v5 draft state. Shared by
+ * the host client and the standalone action processor so both accept and
+ * reject exactly the same actions.
+ */
+
+export type DraftActionResult =
+  | {
+      ok: true;
+      state: DraftState;
+      /** Uma or map that was picked or banned */
+      item?: UmaMusume | Map;
+    }
+  | { ok: false; reason: string };
+
+const UMA_PHASES: DraftPhase[] = ["uma-pre-ban", "uma-pick", "uma-ban"];
+const MAP_PHASES: DraftPhase[] = ["map-pick", "map-ban"];
+
+/** Pause phases and the phase a resume action for each names */
+const RESUME_PHASES: Partial<Record<DraftPhase, DraftPhase>> = {
+  "pre-draft-pause": "map-pick",
+  "post-map-pause": "uma-pre-ban",
+};
+
+const reject = (reason: string): DraftActionResult => ({ ok: false, reason });
+
+/**
+ * Whether an action moves the draft itself (ready, resume, pick or ban)
+ * Team names and match reports are handled by the host client.
+ */
+export function isDraftAction(action: DraftActionPayload): boolean {
+  if (action.itemType !== "control") {
+    return action.itemType === "uma" || action.itemType === "map";
+  }
+  if (action.action === "ready") return true;
+  // Resumes carry the phase they resume into (team names reuse it for the name)
+  return action.action !== "team-name" && action.phase !== undefined;
+}
+
+const opponentOf = (team: Team): Team => (team === "team1" ? "team2" : "team1");
+
+function applyControlAction(
+  state: DraftState,
+  action: DraftActionPayload,
+  senderTeam: Team | undefined,
+  hostTeam: Team | undefined,
+): DraftActionResult {
+  if (action.action === "ready") {
+    const team = action.itemId as Team;
+    if (team !== "team1" && team !== "team2") {
+      return reject(`Unknown team "${action.itemId}"`);
+    }
+    if (senderTeam && senderTeam !== team) {
+      return reject(`${senderTeam} can't ready up for ${team}`);
+    }
+    // Only pauses wait for players, so the draft log never starts with a
+    // ready flag from before the wildcard was acknowledged
+    if (!RESUME_PHASES[state.phase]) {
+      return reject(`Can't ready up during ${state.phase}`);
+    }
+    return {
+      ok: true,
+      state: {
+        ...state,
+        [team === "team1" ? "team1Ready" : "team2Ready"]: true,
+      },
+    };
+  }
+
+  if (action.phase && RESUME_PHASES[state.phase] === action.phase) {
+    // Mirrors the UI: the host resumes once both teams are ready
+    if (senderTeam && hostTeam && senderTeam !== hostTeam) {
+      return reject("Only the host can resume the draft");
+    }
+    if (!state.team1Ready || !state.team2Ready) {
+      return reject("Both teams need to be ready to resume");
+    }
+    return {
+      ok: true,
+      state: {
+        ...state,
+        ...getResumeTurn(state),
+        team1Ready: false,
+        team2Ready: false,
+      },
+    };
+  }
+
+  return action.phase
+    ? reject(`Can't resume into ${action.phase} during ${state.phase}`)
+    : reject(`Unsupported ${action.action} action`);
+}
+
+/**
+ * Applies a queued draft action
+ *
+ * @param state - Current draft state
+ * @param action - Action sent by a player
+ * @param senderTeam - Seat of the sender; picks and bans are only accepted on
+ * that team's turn (omit to skip the check)
+ * @param hostTeam - Seat of the room's host, the only one that may resume
+ * the draft from a pause (omit to skip the check)
+ * @returns The next state, or why the action was rejected
+ */
+export function applyDraftAction(
+  state: DraftState,
+  action: DraftActionPayload,
+  senderTeam?: Team,
+  hostTeam?: Team,
+): DraftActionResult {
+  if (action.itemType === "control") {
+    return applyControlAction(state, action, senderTeam, hostTeam);
+  }
+
+  if (senderTeam && senderTeam !== state.currentTeam) {
+    return reject(`Not ${senderTeam}'s turn`);
+  }
+
+  if (action.itemType === "map") {
+    if (!MAP_PHASES.includes(state.phase)) {
+      return reject(`Can't select a map during ${state.phase}`);
+    }
+
+    // Map vetoes target the opponent's picks
+    let map: Map | undefined;
+    if (state.phase === "map-ban") {
+      map = state[opponentOf(state.currentTeam)].pickedMaps.find(
+        (m) => m.name === action.itemId,
+      );
+    } else {
+      map = state.availableMaps.find((m) => m.name === action.itemId);
+      if (map) map = withRace(map, action.raceId);
+    }
+    if (!map) return reject(`Map "${action.itemId}" not found`);
+
+    const selected: Map = { ...map, conditions: getMapConditions(state, map) };
+    const newState = selectMap(state, selected);
+    return newState === state
+      ? reject(`Map "${action.itemId}" isn't allowed`)
+      : { ok: true, state: newState, item: selected };
+  }
+
+  if (action.itemType === "uma") {
+    if (!UMA_PHASES.includes(state.phase)) {
+      return reject(`Can't select an uma during ${state.phase}`);
+    }
+
+    // Uma vetoes target the opponent's picks
+    let uma: UmaMusume | undefined;
+    if (state.phase === "uma-ban") {
+      uma = state[opponentOf(state.currentTeam)].pickedUmas.find(
+        (u) => u.id.toString() === action.itemId,
+      );
+    } else {
+      uma = state.availableUmas.find((u) => u.id.toString() === action.itemId);
+    }
+    if (!uma) return reject(`Uma "${action.itemId}" not found`);
+
+    const newState = selectUma(state, uma);
+    return newState === state
+      ? reject(`Uma "${action.itemId}" isn't allowed`)
+      : { ok: true, state: newState, item: uma };
+  }
+
+  return reject(`Unsupported ${action.itemType} action`);
+}
@@ -0,0 +1,125 @@
+import type { DraftState, Map, UmaMusume } from "./types";
+import type { FirebaseDraftLogEntry } from "./types/firebase";
+import type { DraftActionPayload } from "./types/multiplayer";
+import { applyDraftAction } from "./draftActions";
+
+/**
+ * Draft Log
+ *
+ * Replays a room's append-only action log through the draft logic. The log
+ * is the record of how a 5v5 draft got where it is: the draft state is
+ * whatever replaying it gives, a reconnecting host rebuilds its history from
+ * it and the pick order summary is read from it.
+ *
+ * A rollback is logged like any other action: replaying it drops every
+ * action after the one it names, so later picks disappear from the draft but
+ * stay in the log.
+ */
+
+/** Logged action and the uma or map it selected */
+export interface ReplayedDraftAction {
+  entry: FirebaseDraftLogEntry;
+  /** Picked or banned item (none for ready and resume) */
+  item?: UmaMusume | Map;
+}
+
+export interface DraftReplay {
+  /** Draft state after the last action */
+  state: DraftState;
+  /** Base state, then the state after every action except ready flags */
+  history: DraftState[];
+  /** Actions in effect (applied and not rolled back), in log order */
+  applied: ReplayedDraftAction[];
+}
+
+/** Log seq a rollback names to go back to the base state */
+const BASE_SEQ = -1;
+
+const isPickOrBan = ({ entry }: ReplayedDraftAction) =>
+  entry.action.itemType === "uma" || entry.action.itemType === "map";
+
+/**
+ * Replays logged actions on top of the log's base state
+ *
+ * Entries that no longer apply (e.g. a log written by an older client) are
+ * skipped with a warning rather than stopping the replay.
+ *
+ * @param base - Draft state before the first logged action
+ * @param entries - Logged actions, ordered by seq
+ */
+export function replayDraftLog(
+  base: DraftState,
+  entries: FirebaseDraftLogEntry[],
+): DraftReplay {
+  // Actions in effect, each with the state it left the draft in
+  const steps: (ReplayedDraftAction & { state: DraftState })[] = [];
+  const stateAt = (count: number) =>
+    count > 0 ? steps[count - 1].state : base;
+
+  for (const entry of entries) {
+    if (entry.action.action === "rollback") {
+      const target = Number(entry.action.itemId);
+      const keep =
+        target === BASE_SEQ
+          ? 0
+          : steps.findIndex((step) => step.entry.seq === target) + 1;
+      if (keep === 0 && target !== BASE_SEQ) {
+        console.warn(
+          `Skipping draft log entry ${entry.seq}: nothing to roll back to`,
+        );
+        continue;
+      }
+      steps.length = keep;
+      continue;
+    }
+
+    const result = applyDraftAction(
+      stateAt(steps.length),
+      entry.action,
+      entry.team,
+    );
+    if (!result.ok) {
+      console.warn(`Skipping draft log entry ${entry.seq}:`, result.reason);
+      continue;
+    }
+    steps.push({ entry, item: result.item, state: result.state });
+  }
+
+  return {
+    state: stateAt(steps.length),
+    history: [
+      base,
+      ...steps
+        .filter((step) => step.entry.action.action !== "ready")
+        .map((step) => step.state),
+    ],
+    applied: steps.map(({ entry, item }) => ({ entry, item })),
+  };
+}
+
+/**
+ * Log seq a rollback should name to keep only the first picks and bans
+ *
+ * The draft goes back to the moment before the next pick or ban was made,
+ * so the turn (and any pause before it) is played again.
+ *
+ * @param replay - Replay of the log being rolled back
+ * @param step - Picks and bans to keep
+ * @returns Seq for the rollback entry, or null if there is nothing to undo
+ */
+export function getRollbackTarget(
+  replay: DraftReplay,
+  step: number,
+): number | null {
+  const undone = replay.applied.filter(isPickOrBan)[step];
+  if (!undone) return null;
+  const index = replay.applied.indexOf(undone);
+  return index > 0 ? replay.applied[index - 1].entry.seq : BASE_SEQ;
+}
+
+/**
+ * Draft action that rolls the log back to a seq from getRollbackTarget
+ */
+export function buildRollbackAction(target: number): DraftActionPayload {
+  return { action: "rollback", itemType: "control", itemId: String(target) };
+}
@@ -1,27 +1,337 @@
-import type { DraftState, DraftPhase, Team, UmaMusume, Map } from "./types";
-import { SAMPLE_UMAS, SAMPLE_MAPS } from "./data";
-import { generateTrackConditions } from "./utils/trackConditions";
-// import { findUmaVariations } from "./utils/umaUtils";
+import type {
+  ConditionPolicy,
+  DraftRuleset,
+  DraftState,
+  DraftPhase,
+  Team,
+  UmaMusume,
+  Map,
+  MapPool,
+  ServerConfig,
+  StartedRace,
+  TrackConditions,
+} from "./types";
+import { SAMPLE_UMAS } from "./data";
+import { formatTrackConditions } from "./utils/trackConditions";
+import {
+  DEFAULT_CONDITION_POLICY,
+  getConditionPolicy,
+  rollConditions,
+} from "./conditionPolicy";
+import {
+  DEFAULT_MAP_POOL,
+  getDistanceCategory,
+  getMapPool,
+  getPoolMaps,
+  validateMapPool,
+} from "./mapPool";
+import {
+  DEFAULT_SERVER_CONFIG,
+  getServerUmas,
+  validateServerConfig,
+} from "./serverMode";
+import {
+  createSeededRandom,
+  generateSeed,
+  type RandomSource,
+} from "./utils/seededRandom";
+import {
+  getCompletedStepCount,
+  getCurrentStep,
+  getPhaseForStep,
+  getResumeTurn,
+  resolveTurn,
+} from "./draftScript";
+import { DEFAULT_RULESET, getRuleset, validateRuleset } from "./ruleset";
 
-// ─── Pre-Ban Configuration ─────────────────────────────────────────────
-// Number of pre-bans each team gets before uma picks begin.
-// Increase this number to add more pre-ban rounds (teams alternate 1 ban each).
-export const PRE_BANS_PER_TEAM = 1;
+// ============================================================================
+// Seeded Rolls
+// ============================================================================
 
-export const getInitialDraftState = (): DraftState => {
-  // Pre-generate conditions for all maps at initialization
-  const mapsWithConditions: Map[] = SAMPLE_MAPS.map((map) => ({
+/**
+ * Rolls the track conditions for a map
+ * @param seed - Draft seed
+ * @param map - Map to roll for (each map has its own stream)
+ * @param policy - Condition policy in play (pinned maps skip the roll)
+ */
+export const rollMapConditions = (
+  seed: string,
+  map: Map,
+  policy: ConditionPolicy = DEFAULT_CONDITION_POLICY,
+) =>
+  rollConditions(
+    policy,
+    createSeededRandom(seed, `conditions:${map.id}`),
+    map.id,
+  );
+
+/**
+ * Rolls the track conditions for a race under a race-time policy
+ * @param seed - Draft seed
+ * @param race - Race being started (its salt keeps the roll secret until then)
+ * @param map - Map of the race
+ * @param policy - Condition policy in play (pinned maps skip the roll)
+ */
+export const rollStartedRaceConditions = (
+  seed: string,
+  race: StartedRace,
+  map: Map,
+  policy: ConditionPolicy = DEFAULT_CONDITION_POLICY,
+) =>
+  rollConditions(
+    policy,
+    createSeededRandom(
+      seed,
+      `race:${race.raceIndex}:${race.mapId}:${race.salt}`,
+    ),
+    map.id,
+  );
+
+/**
+ * Rolls which map becomes the wildcard tiebreaker
+ * @param seed - Draft seed
+ * @param maps - Map pool the wildcard is drawn from
+ * @returns Index of the wildcard in the pool
+ */
+export const rollWildcardIndex = (seed: string, maps: Map[]): number =>
+  Math.floor(createSeededRandom(seed, "wildcard")() * maps.length);
+
+/**
+ * Gets the conditions for a map, rolling them from the draft seed if the
+ * map doesn't carry any yet
+ * Race-time policies leave maps unrolled until startRace.
+ */
+export const getMapConditions = (
+  state: DraftState,
+  map: Map,
+): TrackConditions | undefined => {
+  if (map.conditions) return map.conditions;
+  const policy = getConditionPolicy(state);
+  if (policy.rollTiming === "race-time") return undefined;
+  return state.seed
+    ? rollMapConditions(state.seed, map, policy)
+    : rollConditions(policy, Math.random, map.id);
+};
+
+/**
+ * Rolls the conditions of every map in a pool and picks the wildcard
+ * Race-time policies leave the conditions empty so nothing is revealed early.
+ */
+const rollPoolMaps = (
+  seed: string,
+  maps: Map[],
+  policy: ConditionPolicy,
+): Pick<DraftState, "availableMaps" | "wildcardMap"> => {
+  const rolledMaps = maps.map((map) => ({
     ...map,
-    conditions: generateTrackConditions(),
+    conditions:
+      policy.rollTiming === "race-time"
+        ? undefined
+        : rollMapConditions(seed, map, policy),
   }));
 
-  // Generate wildcard map from pre-conditioned maps
-  const wildcardIndex = Math.floor(Math.random() * mapsWithConditions.length);
-  const wildcardMap = mapsWithConditions[wildcardIndex];
-
   // Remove wildcard map from available maps so it can't be selected again
-  const availableMapsWithoutWildcard = mapsWithConditions.filter(
-    (_, index) => index !== wildcardIndex,
+  const wildcardIndex = rollWildcardIndex(seed, rolledMaps);
+  return {
+    availableMaps: rolledMaps.filter((_, index) => index !== wildcardIndex),
+    wildcardMap: rolledMaps[wildcardIndex],
+  };
+};
+
+/**
+ * Re-rolls the pool (and the wildcard) under a condition policy
+ * Used when the host changes the policy before the draft starts.
+ *
+ * @param state - Draft state (before any map has been picked)
+ * @param policy - Policy to apply
+ * @returns State with the policy stored and conditions re-rolled
+ */
+export const applyConditionPolicy = (
+  state: DraftState,
+  policy: ConditionPolicy,
+): DraftState => {
+  const seed = state.seed ?? generateSeed();
+  return {
+    ...state,
+    seed,
+    conditionPolicy: policy,
+    ...rollPoolMaps(seed, getPoolMaps(getMapPool(state)), policy),
+  };
+};
+
+/**
+ * Rebuilds the available maps and the wildcard from a new map pool
+ * Used when the host curates the pool before the draft starts.
+ *
+ * @param state - Draft state (before any map has been picked)
+ * @param pool - Map pool to draft from
+ * @returns State with the pool stored and its maps rolled
+ */
+export const applyMapPool = (state: DraftState, pool: MapPool): DraftState => {
+  const seed = state.seed ?? generateSeed();
+  return {
+    ...state,
+    seed,
+    mapPool: pool,
+    ...rollPoolMaps(seed, getPoolMaps(pool), getConditionPolicy(state)),
+  };
+};
+
+/**
+ * Switches the server a room plays on
+ * Swaps in the server's course data and rebuilds the uma pool from the
+ * umas released by the cut-off date.
+ *
+ * @param state - Draft state (before the draft starts)
+ * @param config - Server config to apply
+ * @returns State with the config stored and both pools rebuilt
+ */
+export const applyServerConfig = (
+  state: DraftState,
+  config: ServerConfig,
+): DraftState => ({
+  ...applyMapPool(state, { ...getMapPool(state), courseSet: config.server }),
+  serverConfig: config,
+  availableUmas: getServerUmas(config),
+});
+
+/**
+ * Starts a race under a race-time policy and rolls its conditions
+ * The roll is salted with a value made now, so nobody could have computed
+ * it from the seed during the draft; the salt is stored for Verify Seed.
+ * Races already started and maps that already have conditions are left
+ * alone.
+ *
+ * @param state - Completed draft state
+ * @param raceIndex - Position of the race in the schedule
+ * @param map - Map of the race
+ * @param salt - Salt for the roll (random if omitted)
+ * @returns State with the race recorded and the map's conditions filled in
+ */
+export const startRace = (
+  state: DraftState,
+  raceIndex: number,
+  map: Map,
+  salt: string = generateSeed(),
+): DraftState => {
+  if (
+    map.conditions ||
+    state.startedRaces?.some((r) => r.raceIndex === raceIndex)
+  ) {
+    return state;
+  }
+  const policy = getConditionPolicy(state);
+  const race: StartedRace = { raceIndex, mapId: map.id, salt };
+  const conditions = state.seed
+    ? rollStartedRaceConditions(state.seed, race, map, policy)
+    : rollConditions(policy, Math.random, map.id);
+  const withConditions = (m: Map): Map =>
+    m.id === map.id ? { ...m, conditions } : m;
+
+  return {
+    ...state,
+    team1: {
+      ...state.team1,
+      pickedMaps: state.team1.pickedMaps.map(withConditions),
+    },
+    team2: {
+      ...state.team2,
+      pickedMaps: state.team2.pickedMaps.map(withConditions),
+    },
+    wildcardMap: withConditions(state.wildcardMap),
+    startedRaces: [...(state.startedRaces ?? []), race],
+  };
+};
+
+/**
+ * Random source for the timeout auto-selection of the current step
+ * Seeded drafts roll the same selection for the same step on every client.
+ */
+const getTimeoutRandom = (state: DraftState): RandomSource =>
+  state.seed
+    ? createSeededRandom(state.seed, `timeout:${getCompletedStepCount(state)}`)
+    : Math.random;
+
+/**
+ * One recomputed roll compared with what the draft used
+ */
+export interface SeedRollCheck {
+  label: string;
+  expected: string;
+  actual: string;
+  matches: boolean;
+}
+
+/**
+ * Recomputes the wildcard and the conditions of every drafted map from a
+ * seed so both teams can audit the rolls
+ *
+ * @param state - Draft state to audit
+ * @param seed - Seed to check against (defaults to the draft's own seed)
+ * @returns One check per roll, or an empty list if there is no seed
+ */
+export const verifySeedRolls = (
+  state: DraftState,
+  seed: string | undefined = state.seed,
+): SeedRollCheck[] => {
+  if (!seed) return [];
+  const checks: SeedRollCheck[] = [];
+
+  const poolMaps = getPoolMaps(getMapPool(state));
+  const expectedWildcard = poolMaps[rollWildcardIndex(seed, poolMaps)];
+  checks.push({
+    label: "Wildcard map",
+    expected: expectedWildcard?.name ?? "none",
+    actual: state.wildcardMap?.name ?? "none",
+    matches: expectedWildcard?.id === state.wildcardMap?.id,
+  });
+
+  const maps = [
+    state.wildcardMap,
+    ...state.team1.pickedMaps,
+    ...state.team2.pickedMaps,
+    ...state.team1.bannedMaps,
+    ...state.team2.bannedMaps,
+  ].filter((map): map is Map => !!map);
+
+  const policy = getConditionPolicy(state);
+  for (const map of maps) {
+    // Race-time rolls that haven't happened yet have nothing to check
+    if (!map.conditions && policy.rollTiming === "race-time") continue;
+    const race = state.startedRaces?.find((r) => r.mapId === map.id);
+    const expected = formatTrackConditions(
+      race
+        ? rollStartedRaceConditions(seed, race, map, policy)
+        : rollMapConditions(seed, map, policy),
+    );
+    const actual = map.conditions
+      ? formatTrackConditions(map.conditions)
+      : "none";
+    checks.push({
+      label: race
+        ? `Race ${race.raceIndex + 1}: ${map.name} conditions`
+        : `${map.name} conditions`,
+      expected,
+      actual,
+      matches: expected === actual,
+    });
+  }
+
+  return checks;
+};
+
+/**
+ * Creates the starting state for a 5v5 draft
+ * @param seed - Seed for the wildcard and condition rolls (random if omitted)
+ */
+export const getInitialDraftState = (
+  seed: string = generateSeed(),
+): DraftState => {
+  // Pre-generate conditions for all maps at initialization
+  const { availableMaps, wildcardMap } = rollPoolMaps(
+    seed,
+    getPoolMaps(DEFAULT_MAP_POOL),
+    DEFAULT_CONDITION_POLICY,
   );
 
   return {
@@ -42,8 +352,9 @@ export const getInitialDraftState = (): DraftState => {
       bannedMaps: [],
     },
     availableUmas: [...SAMPLE_UMAS],
-    availableMaps: availableMapsWithoutWildcard,
-    wildcardMap: wildcardMap,
+    availableMaps,
+    wildcardMap,
+    seed,
   };
 };
 
@@ -51,59 +362,24 @@ export const getNextTeam = (current: Team): Team => {
   return current === "team1" ? "team2" : "team1";
 };
 
+/**
+ * Gets the phase the draft is in once the latest action has been applied.
+ * Derived from the draft script, so it stays in sync with the timeline.
+ */
 export const getNextPhase = (state: DraftState): DraftPhase => {
-  const { phase, team1, team2 } = state;
-
-  if (phase === "map-pick") {
-    const totalPicks = team1.pickedMaps.length + team2.pickedMaps.length;
-    if (totalPicks >= 8) return "map-ban";
-  } else if (phase === "map-ban") {
-    const totalBans = team1.bannedMaps.length + team2.bannedMaps.length;
-    if (totalBans >= 2) return "post-map-pause"; // Pause after map bans
-  } else if (phase === "uma-pre-ban") {
-    const totalPreBans =
-      (team1.preBannedUmas?.length || 0) + (team2.preBannedUmas?.length || 0);
-    if (totalPreBans >= PRE_BANS_PER_TEAM * 2) return "uma-pick";
-  } else if (phase === "uma-pick") {
-    const totalPicks = team1.pickedUmas.length + team2.pickedUmas.length;
-    // Transition to ban phase after 10 picks (5 each)
-    if (
-      totalPicks >= 10 &&
-      team1.bannedUmas.length === 0 &&
-      team2.bannedUmas.length === 0
-    ) {
-      return "uma-ban";
-    }
-    // Complete after 12 picks (6 each, post-ban)
-    if (totalPicks >= 12) return "complete";
-  } else if (phase === "uma-ban") {
-    const totalBans = team1.bannedUmas.length + team2.bannedUmas.length;
-    // After both teams ban, return to uma-pick for final 2 picks each
-    if (totalBans >= 2) {
-      return "uma-pick";
-    }
-  }
-
-  return phase;
+  return resolveTurn(state).phase;
 };
 
+/**
+ * Checks whether the current team is allowed to act in the current phase
+ * according to the draft script.
+ */
 export const canTeamAct = (state: DraftState): boolean => {
-  const { phase, currentTeam, team1, team2 } = state;
-  const team = currentTeam === "team1" ? team1 : team2;
-
-  if (phase === "uma-pick") {
-    return team.pickedUmas.length < 6; // Max 6 picks per team (5 pre-ban + 2 post-ban - 1 banned)
-  } else if (phase === "uma-ban") {
-    return team.bannedUmas.length < 1;
-  } else if (phase === "uma-pre-ban") {
-    return (team.preBannedUmas?.length || 0) < PRE_BANS_PER_TEAM;
-  } else if (phase === "map-pick") {
-    return team.pickedMaps.length < 4;
-  } else if (phase === "map-ban") {
-    return team.bannedMaps.length < 1;
-  }
-
-  return false;
+  const step = getCurrentStep(state);
+  if (!step) return false;
+  return (
+    step.team === state.currentTeam && getPhaseForStep(step) === state.phase
+  );
 };
 
 /**
@@ -111,18 +387,6 @@ export const canTeamAct = (state: DraftState): boolean => {
  * @param maps - Array of picked maps
  * @returns Object mapping distance to count
  */
-/**
- * Gets the distance category for a given distance
- * @param distance - The distance in meters
- * @returns Category: 'sprint' | 'mile' | 'medium' | 'long'
- */
-export const getDistanceCategory = (distance: number): string => {
-  if (distance <= 1400) return "sprint";
-  if (distance <= 1800) return "mile";
-  if (distance <= 2400) return "medium";
-  return "long";
-};
-
 export const countDistances = (maps: Map[]): Record<string, number> => {
   return maps.reduce(
     (acc, map) => {
@@ -135,15 +399,20 @@ export const countDistances = (maps: Map[]): Record<string, number> => {
 };
 
 /**
- * Checks if a team can pick a map with the given distance (max 2 per category)
+ * Checks if a team can pick a map with the given distance
  * @param maps - Team's currently picked maps
  * @param distance - Distance to check
- * @returns true if can pick (count < 2), false otherwise
+ * @param maxPerCategory - Ruleset cap per distance category (default 2)
+ * @returns true if can pick (count < cap), false otherwise
  */
-export const canPickDistance = (maps: Map[], distance: number): boolean => {
+export const canPickDistance = (
+  maps: Map[],
+  distance: number,
+  maxPerCategory: number = DEFAULT_RULESET.maxMapsPerDistance,
+): boolean => {
   const category = getDistanceCategory(distance);
   const counts = countDistances(maps);
-  return (counts[category] || 0) < 2;
+  return (counts[category] || 0) < maxPerCategory;
 };
 
 /**
@@ -156,16 +425,81 @@ export const countDirtTracks = (maps: Map[]): number => {
 };
 
 /**
- * Checks if a team can pick another dirt track (max 2 dirt tracks)
+ * Checks if a team can pick another dirt track
  * @param maps - Team's currently picked maps
- * @returns true if can pick (count < 2), false otherwise
+ * @param maxDirt - Ruleset cap on dirt tracks (default 2)
+ * @returns true if can pick (count < cap), false otherwise
  */
-export const canPickDirt = (maps: Map[]): boolean => {
-  return countDirtTracks(maps) < 2;
+export const canPickDirt = (
+  maps: Map[],
+  maxDirt: number = DEFAULT_RULESET.maxDirtMaps,
+): boolean => {
+  return countDirtTracks(maps) < maxDirt;
 };
 
+/**
+ * Characters that can no longer be drafted in any outfit
+ * Only populated when the ruleset makes characters exclusive; every picked,
+ * pre-banned or banned uma locks its character.
+ * @param state - Current draft state
+ * @returns Set of locked charaIds
+ */
+export const getLockedCharaIds = (state: DraftState): Set<number> => {
+  const locked = new Set<number>();
+  if (!getRuleset(state).exclusiveCharacters) return locked;
+
+  for (const team of ["team1", "team2"] as const) {
+    const { pickedUmas, bannedUmas, preBannedUmas } = state[team];
+    for (const uma of [
+      ...pickedUmas,
+      ...bannedUmas,
+      ...(preBannedUmas || []),
+    ]) {
+      if (uma.charaId !== undefined) locked.add(uma.charaId);
+    }
+  }
+
+  return locked;
+};
+
+/**
+ * Checks if an uma is blocked because another outfit of the character is
+ * already in the draft
+ * @param state - Current draft state
+ * @param uma - Uma to check
+ * @param lockedCharaIds - Precomputed locks (pass when checking many umas)
+ * @returns true if the uma cannot be picked or pre-banned
+ */
+export const isVariantLocked = (
+  state: DraftState,
+  uma: UmaMusume,
+  lockedCharaIds: Set<number> = getLockedCharaIds(state),
+): boolean => uma.charaId !== undefined && lockedCharaIds.has(uma.charaId);
+
 export const selectUma = (state: DraftState, uma: UmaMusume): DraftState => {
   const { phase, currentTeam } = state;
+
+  if (!canTeamAct(state)) {
+    console.warn(`Cannot select uma - ${currentTeam} has no ${phase} turn`);
+    return state;
+  }
+
+  if (
+    (phase === "uma-pick" || phase === "uma-pre-ban") &&
+    !state.availableUmas.some((u) => u.id === uma.id)
+  ) {
+    console.warn(`Cannot select ${uma.name} - not in the uma pool`);
+    return state;
+  }
+
+  if (
+    (phase === "uma-pick" || phase === "uma-pre-ban") &&
+    isVariantLocked(state, uma)
+  ) {
+    console.warn(`Cannot select ${uma.name} - character is variant locked`);
+    return state;
+  }
+
   const newState = { ...state };
 
   if (phase === "uma-pre-ban") {
@@ -187,12 +521,6 @@ export const selectUma = (state: DraftState, uma: UmaMusume): DraftState => {
     newState.availableUmas = newState.availableUmas.filter(
       (u) => u.id !== uma.id,
     );
-
-    // OPTIONAL: Remove the picked uma and all its variations from available pool
-    // const variations = findUmaVariations(uma.name, newState.availableUmas);
-    // newState.availableUmas = newState.availableUmas.filter(
-    //   (u) => !variations.some((v) => v.id === u.id)
-    // );
   } else if (phase === "uma-ban") {
     // Remove only the specific banned uma from opponent's picked list
     const opponentTeam = currentTeam === "team1" ? "team2" : "team1";
@@ -202,94 +530,58 @@ export const selectUma = (state: DraftState, uma: UmaMusume): DraftState => {
       (u) => u.id === uma.id,
     );
 
-    if (bannedUma) {
-      // Remove only this specific uma from opponent's picked list
-      newState[opponentTeam] = {
-        ...newState[opponentTeam],
-        pickedUmas: newState[opponentTeam].pickedUmas.filter(
-          (u) => u.id !== uma.id,
-        ),
-        // Add only this uma to opponent's banned list
-        bannedUmas: [...newState[opponentTeam].bannedUmas, bannedUma],
-      };
+    if (!bannedUma) {
+      console.warn(`Cannot veto ${uma.name} - not picked by ${opponentTeam}`);
+      return state;
     }
-  }
 
-  const nextPhase = getNextPhase(newState);
-
-  // Handle uma-pick phase with snake draft pattern
-  // Pre-ban (picks 1-5 each): T1(1), T2(2), T1(2), T2(2), T1(2), T2(1) → ban phase
-  // Post-ban (picks 6-7 each): T2(1), T1(2), T2(1) → complete
-  if (phase === "uma-pick" && nextPhase === "uma-pick") {
-    const team1Picks = newState.team1.pickedUmas.length;
-    const team2Picks = newState.team2.pickedUmas.length;
-
-    // Determine next team based on snake draft pattern
-    // Pre-ban phase picks (1-5 each)
-    if (team1Picks === 1 && team2Picks === 0) {
-      newState.currentTeam = "team2"; // After T1's 1st pick
-    } else if (team1Picks === 1 && team2Picks === 1) {
-      newState.currentTeam = "team2"; // After T2's 1st pick (T2 picks again)
-    } else if (team1Picks === 1 && team2Picks === 2) {
-      newState.currentTeam = "team1"; // After T2's 2nd pick
-    } else if (team1Picks === 2 && team2Picks === 2) {
-      newState.currentTeam = "team1"; // After T1's 2nd pick (T1 picks again)
-    } else if (team1Picks === 3 && team2Picks === 2) {
-      newState.currentTeam = "team2"; // After T1's 3rd pick
-    } else if (team1Picks === 3 && team2Picks === 3) {
-      newState.currentTeam = "team2"; // After T2's 3rd pick (T2 picks again)
-    } else if (team1Picks === 3 && team2Picks === 4) {
-      newState.currentTeam = "team1"; // After T2's 4th pick
-    } else if (team1Picks === 4 && team2Picks === 4) {
-      newState.currentTeam = "team1"; // After T1's 4th pick (T1 picks again)
-    } else if (team1Picks === 5 && team2Picks === 4) {
-      newState.currentTeam = "team2"; // After T1's 5th pick
-    }
-    // Post-ban phase picks (each team has 4 after bans, need to get to 6)
-    // T2(1), T1(2), T2(1)
-    else if (team1Picks === 4 && team2Picks === 5) {
-      newState.currentTeam = "team1"; // After T2's 5th pick (post-ban)
-    } else if (team1Picks === 5 && team2Picks === 5) {
-      newState.currentTeam = "team1"; // After T1's 5th pick (T1 picks again)
-    } else if (team1Picks === 6 && team2Picks === 5) {
-      newState.currentTeam = "team2"; // After T1's 6th pick
-    }
-  } else if (phase === "uma-pick" && nextPhase === "uma-ban") {
-    // When transitioning to uma-ban phase, team2 bans first
-    newState.currentTeam = "team2";
-  } else if (phase === "uma-ban" && nextPhase === "uma-pick") {
-    // After ban phase, team2 picks first for remaining picks
-    newState.currentTeam = "team2";
-  } else if (phase === "uma-pre-ban" && nextPhase === "uma-pick") {
-    // After pre-ban phase, team1 picks first
-    newState.currentTeam = "team1";
-  } else {
-    // For all other phases, alternate teams normally
-    newState.currentTeam = getNextTeam(currentTeam);
+    // Remove only this specific uma from opponent's picked list
+    newState[opponentTeam] = {
+      ...newState[opponentTeam],
+      pickedUmas: newState[opponentTeam].pickedUmas.filter(
+        (u) => u.id !== uma.id,
+      ),
+      // Add only this uma to opponent's banned list
+      bannedUmas: [...newState[opponentTeam].bannedUmas, bannedUma],
+    };
   }
 
+  // Next phase and team come from the draft script
+  const { phase: nextPhase, currentTeam: nextTeam } = resolveTurn(newState);
   newState.phase = nextPhase;
+  newState.currentTeam = nextTeam;
 
   return newState;
 };
 
 export const selectMap = (state: DraftState, map: Map): DraftState => {
   const { phase, currentTeam } = state;
+
+  if (!canTeamAct(state)) {
+    console.warn(`Cannot select map - ${currentTeam} has no ${phase} turn`);
+    return state;
+  }
+
   const newState = { ...state };
 
   if (phase === "map-pick") {
     // Validate constraints before allowing pick
     const currentTeamMaps = newState[currentTeam].pickedMaps;
+    const { maxMapsPerDistance, maxDirtMaps } = getRuleset(state);
 
-    // Check max 2 per distance constraint
-    if (!canPickDistance(currentTeamMaps, map.distance)) {
-      console.warn(`Cannot pick ${map.distance}m - already at maximum (2)`);
+    // Check per-distance constraint
+    if (!canPickDistance(currentTeamMaps, map.distance, maxMapsPerDistance)) {
+      console.warn(
+        `Cannot pick ${map.distance}m - already at maximum (${maxMapsPerDistance})`,
+      );
       return state; // Return unchanged state
     }
 
-    // Check max 2 dirt tracks constraint
-    if (map.surface === "Dirt" && !canPickDirt(currentTeamMaps)) {
-      console.warn("Cannot pick dirt track - already at maximum (2)");
+    // Check dirt tracks constraint
+    if (map.surface === "Dirt" && !canPickDirt(currentTeamMaps, maxDirtMaps)) {
+      console.warn(
+        `Cannot pick dirt track - already at maximum (${maxDirtMaps})`,
+      );
       return state; // Return unchanged state
     }
 
@@ -303,6 +595,10 @@ export const selectMap = (state: DraftState, map: Map): DraftState => {
   } else if (phase === "map-ban") {
     // Remove from the opponent's picked maps and add to opponent team's banned list
     const opponentTeam = currentTeam === "team1" ? "team2" : "team1";
+    if (!newState[opponentTeam].pickedMaps.some((m) => m.id === map.id)) {
+      console.warn(`Cannot veto ${map.name} - not picked by ${opponentTeam}`);
+      return state;
+    }
     newState[opponentTeam] = {
       ...newState[opponentTeam],
       pickedMaps: newState[opponentTeam].pickedMaps.filter(
@@ -312,20 +608,11 @@ export const selectMap = (state: DraftState, map: Map): DraftState => {
     };
   }
 
-  const nextPhase = getNextPhase(newState);
-
-  // Map-pick → Map-ban: Team 1 bans first
-  // Map-ban → Uma-pick: Team 1 picks first
-  if (phase === "map-pick" && nextPhase === "map-ban") {
-    newState.currentTeam = "team1";
-  } else if (phase === "map-ban" && nextPhase === "post-map-pause") {
-    // Maintain current team during pause (will be set to team1 when resuming)
-    newState.currentTeam = currentTeam;
-  } else {
-    newState.currentTeam = getNextTeam(currentTeam);
-  }
-
+  // Next phase and team come from the draft script (map-ban → post-map-pause
+  // keeps the current team until the uma draft resumes)
+  const { phase: nextPhase, currentTeam: nextTeam } = resolveTurn(newState);
   newState.phase = nextPhase;
+  newState.currentTeam = nextTeam;
 
   return newState;
 };
@@ -423,11 +710,28 @@ export const selectMapMultiplayer = (
 /**
  * Gets a random element from an array
  * @param arr - Array to pick from
+ * @param random - Random source (defaults to Math.random)
  * @returns Random element or undefined if array is empty
  */
-const getRandomElement = <T>(arr: T[]): T | undefined => {
+const getRandomElement = <T>(
+  arr: T[],
+  random: RandomSource = Math.random,
+): T | undefined => {
   if (arr.length === 0) return undefined;
-  return arr[Math.floor(Math.random() * arr.length)];
+  return arr[Math.floor(random() * arr.length)];
+};
+
+/**
+ * Gets the umas that can still be picked or pre-banned
+ * Skips variant-locked umas when characters are exclusive
+ * @param state - Current draft state
+ * @returns Selectable umas
+ */
+export const getSelectableUmas = (state: DraftState): UmaMusume[] => {
+  const locked = getLockedCharaIds(state);
+  return state.availableUmas.filter(
+    (uma) => !isVariantLocked(state, uma, locked),
+  );
 };
 
 /**
@@ -437,8 +741,9 @@ const getRandomElement = <T>(arr: T[]): T | undefined => {
  */
 export const getRandomAvailableUma = (
   state: DraftState,
+  random?: RandomSource,
 ): UmaMusume | undefined => {
-  return getRandomElement(state.availableUmas);
+  return getRandomElement(getSelectableUmas(state), random);
 };
 
 /**
@@ -446,10 +751,13 @@ export const getRandomAvailableUma = (
  * @param state - Current draft state
  * @returns Random bannable uma or undefined if none available
  */
-export const getRandomBanUma = (state: DraftState): UmaMusume | undefined => {
+export const getRandomBanUma = (
+  state: DraftState,
+  random?: RandomSource,
+): UmaMusume | undefined => {
   const opponentTeam = state.currentTeam === "team1" ? "team2" : "team1";
   const opponentUmas = state[opponentTeam].pickedUmas;
-  return getRandomElement(opponentUmas);
+  return getRandomElement(opponentUmas, random);
 };
 
 /**
@@ -458,23 +766,27 @@ export const getRandomBanUma = (state: DraftState): UmaMusume | undefined => {
  * @param state - Current draft state
  * @returns Random valid map or undefined if none available
  */
-export const getRandomAvailableMap = (state: DraftState): Map | undefined => {
+export const getRandomAvailableMap = (
+  state: DraftState,
+  random?: RandomSource,
+): Map | undefined => {
   const currentTeamMaps = state[state.currentTeam].pickedMaps;
+  const { maxMapsPerDistance, maxDirtMaps } = getRuleset(state);
 
   // Filter available maps by constraints
   const validMaps = state.availableMaps.filter((map) => {
-    // Check distance constraint (max 2 per category)
-    if (!canPickDistance(currentTeamMaps, map.distance)) {
+    // Check distance constraint (ruleset cap per category)
+    if (!canPickDistance(currentTeamMaps, map.distance, maxMapsPerDistance)) {
       return false;
     }
-    // Check dirt constraint (max 2 dirt tracks)
-    if (map.surface === "Dirt" && !canPickDirt(currentTeamMaps)) {
+    // Check dirt constraint (ruleset cap on dirt tracks)
+    if (map.surface === "Dirt" && !canPickDirt(currentTeamMaps, maxDirtMaps)) {
       return false;
     }
     return true;
   });
 
-  return getRandomElement(validMaps);
+  return getRandomElement(validMaps, random);
 };
 
 /**
@@ -482,15 +794,18 @@ export const getRandomAvailableMap = (state: DraftState): Map | undefined => {
  * @param state - Current draft state
  * @returns Random bannable map or undefined if none available
  */
-export const getRandomBanMap = (state: DraftState): Map | undefined => {
+export const getRandomBanMap = (
+  state: DraftState,
+  random?: RandomSource,
+): Map | undefined => {
   const opponentTeam = state.currentTeam === "team1" ? "team2" : "team1";
   const opponentMaps = state[opponentTeam].pickedMaps;
-  return getRandomElement(opponentMaps);
+  return getRandomElement(opponentMaps, random);
 };
 
 /**
  * Performs a random selection based on current phase
- * Used when turn timer expires
+ * Used when turn timer expires; seeded drafts make the same choice on replay
  * @param state - Current draft state
  * @returns Object with type and selected item, or undefined if no valid selection
  */
@@ -498,30 +813,31 @@ export const getRandomTimeoutSelection = (
   state: DraftState,
 ): { type: "uma" | "map"; item: UmaMusume | Map } | undefined => {
   const { phase } = state;
+  const random = getTimeoutRandom(state);
 
   switch (phase) {
     case "uma-pick": {
-      const uma = getRandomAvailableUma(state);
+      const uma = getRandomAvailableUma(state, random);
       if (uma) return { type: "uma", item: uma };
       break;
     }
     case "uma-ban": {
-      const uma = getRandomBanUma(state);
+      const uma = getRandomBanUma(state, random);
       if (uma) return { type: "uma", item: uma };
       break;
     }
     case "uma-pre-ban": {
-      const uma = getRandomAvailableUma(state);
+      const uma = getRandomAvailableUma(state, random);
       if (uma) return { type: "uma", item: uma };
       break;
     }
     case "map-pick": {
-      const map = getRandomAvailableMap(state);
+      const map = getRandomAvailableMap(state, random);
       if (map) return { type: "map", item: map };
       break;
     }
     case "map-ban": {
-      const map = getRandomBanMap(state);
+      const map = getRandomBanMap(state, random);
       if (map) return { type: "map", item: map };
       break;
     }
@@ -529,3 +845,75 @@ export const getRandomTimeoutSelection = (
 
   return undefined;
 };
+
+// ============================================================================
+// Ruleset Dry Run
+// ============================================================================
+
+/**
+ * Plays a full draft under a ruleset against the room's uma and map pool to
+ * make sure the draft state machine can always reach completion.
+ * Every step takes the first valid option, the same way a timed-out turn
+ * would take a random valid one.
+ *
+ * @param ruleset - Ruleset to check
+ * @param pool - Map pool the room drafts from
+ * @param config - Server the room plays on
+ * @returns List of human-readable problems (empty if the draft completes)
+ */
+export const dryRunRuleset = (
+  ruleset: DraftRuleset,
+  pool: MapPool = DEFAULT_MAP_POOL,
+  config: ServerConfig = DEFAULT_SERVER_CONFIG,
+): string[] => {
+  const errors = [
+    ...validateRuleset(ruleset),
+    ...validateMapPool(pool, ruleset),
+    ...validateServerConfig(config, ruleset),
+  ];
+  if (errors.length > 0) return errors;
+
+  let state = applyServerConfig(
+    { ...getInitialDraftState(), ruleset, mapPool: pool },
+    config,
+  );
+  state = { ...state, ...getResumeTurn(state) };
+
+  while (state.phase !== "complete") {
+    if (state.phase === "post-map-pause") {
+      state = { ...state, ...getResumeTurn(state) };
+      continue;
+    }
+
+    const { phase, currentTeam } = state;
+    const opponentTeam = currentTeam === "team1" ? "team2" : "team1";
+    const { maxMapsPerDistance, maxDirtMaps } = ruleset;
+    const teamMaps = state[currentTeam].pickedMaps;
+    let next = state;
+
+    if (phase === "map-pick") {
+      const map = state.availableMaps.find(
+        (m) =>
+          canPickDistance(teamMaps, m.distance, maxMapsPerDistance) &&
+          (m.surface !== "Dirt" || canPickDirt(teamMaps, maxDirtMaps)),
+      );
+      if (map) next = selectMap(state, map);
+    } else if (phase === "map-ban") {
+      const map = state[opponentTeam].pickedMaps[0];
+      if (map) next = selectMap(state, map);
+    } else if (phase === "uma-ban") {
+      const uma = state[opponentTeam].pickedUmas[0];
+      if (uma) next = selectUma(state, uma);
+    } else {
+      const uma = getSelectableUmas(state)[0];
+      if (uma) next = selectUma(state, uma);
+    }
+
+    if (next === state) {
+      return [`Draft gets stuck: ${currentTeam} has no valid ${phase} option`];
+    }
+    state = next;
+  }
+
+  return [];
+};
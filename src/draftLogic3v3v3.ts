@@ -1,5 +1,31 @@
-import type { DraftState3v3v3, Team3v3v3 } from "./types3v3v3";
+import type {
+  Card,
+  DeckConstraints,
+  Draft3v3v3Phase,
+  DraftAction3v3v3,
+  DraftState3v3v3,
+  StatCardType,
+  Team3v3v3,
+  TeamData3v3v3,
+} from "./types3v3v3";
+import type { UmaMusume } from "./types";
 import { SAMPLE_UMAS, SAMPLE_CARDS } from "./data";
+import { getCardDetails } from "./utils/supportCards";
+
+/** Umas each team ends the uma draft with (one per round) */
+export const UMAS_PER_TEAM = 3;
+
+/** Cards each team ends the card draft with (one per round) */
+export const CARDS_PER_TEAM = 5;
+
+const TEAMS: Team3v3v3[] = ["team1", "team2", "team3"];
+
+/** Phases where a team is on the clock */
+export const TIMED_PHASES_3V3V3: readonly Draft3v3v3Phase[] = [
+  "uma-ban",
+  "uma-pick",
+  "card-pick",
+];
 
 export function getInitialDraftState3v3v3(): DraftState3v3v3 {
   return {
@@ -159,3 +185,502 @@ export function getNextTeamAndPhase(state: DraftState3v3v3): {
     nextTurnInRound: turnInRound,
   };
 }
+
+// ============================================================================
+// Deck Constraints
+// ============================================================================
+
+/** Stat card types in display order */
+export const STAT_CARD_TYPES: StatCardType[] = [
+  "speed",
+  "stamina",
+  "power",
+  "guts",
+  "wit",
+];
+
+/**
+ * Default deck rules: up to 3 SSRs, 2 of a stat type and 1 friend card,
+ * and no character on a team twice.
+ */
+export const DEFAULT_DECK_CONSTRAINTS: DeckConstraints = {
+  maxSSR: 3,
+  minPerStatType: 0,
+  maxPerStatType: 2,
+  maxFriendCards: 1,
+  uniqueCharacters: true,
+};
+
+/**
+ * Allowed range for each numeric deck rule (inclusive)
+ */
+export const DECK_CONSTRAINT_LIMITS: Record<
+  Exclude<keyof DeckConstraints, "uniqueCharacters">,
+  { min: number; max: number; label: string }
+> = {
+  maxSSR: { min: 0, max: CARDS_PER_TEAM, label: "Max SSR cards" },
+  // One of every stat type already fills a deck
+  minPerStatType: { min: 0, max: 1, label: "Min per stat type" },
+  maxPerStatType: { min: 1, max: CARDS_PER_TEAM, label: "Max per stat type" },
+  maxFriendCards: { min: 0, max: CARDS_PER_TEAM, label: "Max friend cards" },
+};
+
+/**
+ * Returns the deck rules a draft is played under
+ */
+export const getDeckConstraints = (state: DraftState3v3v3): DeckConstraints =>
+  state.deckConstraints ?? DEFAULT_DECK_CONSTRAINTS;
+
+/**
+ * Checks deck rules for values the card draft cannot be played with
+ *
+ * @param constraints - Deck rules to validate
+ * @returns List of human-readable problems (empty if the rules are valid)
+ */
+export const validateDeckConstraints = (
+  constraints: DeckConstraints,
+): string[] => {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(
+    DECK_CONSTRAINT_LIMITS,
+  ) as (keyof typeof DECK_CONSTRAINT_LIMITS)[]) {
+    const value = constraints[key];
+    const { min, max, label } = DECK_CONSTRAINT_LIMITS[key];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${label} must be a whole number from ${min} to ${max}`);
+    }
+  }
+  if (typeof constraints.uniqueCharacters !== "boolean") {
+    errors.push("Unique characters must be on or off");
+  }
+
+  return errors;
+};
+
+/**
+ * Summary of a team's deck against the deck rules
+ */
+export interface DeckStatus {
+  ssrCount: number;
+  friendCount: number;
+  typeCounts: Record<StatCardType, number>;
+  /** Stat types still short of the minimum */
+  missingTypes: StatCardType[];
+}
+
+/**
+ * Counts a team's cards by rarity and type
+ * @param teamData - Team's picks
+ * @param constraints - Deck rules in play
+ */
+export const getDeckStatus = (
+  teamData: TeamData3v3v3,
+  constraints: DeckConstraints,
+): DeckStatus => {
+  const typeCounts = Object.fromEntries(
+    STAT_CARD_TYPES.map((type) => [type, 0]),
+  ) as Record<StatCardType, number>;
+  let ssrCount = 0;
+  let friendCount = 0;
+
+  for (const card of teamData.pickedCards) {
+    if (card.rarity === "SSR") ssrCount++;
+    if (card.type === "friend") friendCount++;
+    else if (card.type) typeCounts[card.type]++;
+  }
+
+  return {
+    ssrCount,
+    friendCount,
+    typeCounts,
+    missingTypes: STAT_CARD_TYPES.filter(
+      (type) => typeCounts[type] < constraints.minPerStatType,
+    ),
+  };
+};
+
+const getCharaId = (item: UmaMusume | Card): number | undefined =>
+  "rarity" in item ? getCardDetails(item)?.charaId : item.charaId;
+
+/**
+ * Whether an uma or support card shows the same character as another
+ * Compared by charaId when the data has one for both (names differ between
+ * outfits and spellings), by name otherwise.
+ */
+const isSameCharacter = (a: UmaMusume | Card, b: UmaMusume | Card) => {
+  const charaIdA = getCharaId(a);
+  const charaIdB = getCharaId(b);
+  return charaIdA !== undefined && charaIdB !== undefined
+    ? charaIdA === charaIdB
+    : a.name === b.name;
+};
+
+/**
+ * Checks whether a team may add a card to its deck
+ * Mirrors canPickDirt for maps: a card is refused if it breaks a cap, shares
+ * a character with the team, or leaves too few slots for the stat minimums.
+ *
+ * @param teamData - Team's current picks
+ * @param card - Card being picked
+ * @param constraints - Deck rules in play
+ * @returns Reason the card is refused, or null if it can be picked
+ */
+export const getCardConstraintError = (
+  teamData: TeamData3v3v3,
+  card: Card,
+  constraints: DeckConstraints,
+): string | null => {
+  const status = getDeckStatus(teamData, constraints);
+
+  if (card.rarity === "SSR" && status.ssrCount >= constraints.maxSSR) {
+    return `Deck already has ${constraints.maxSSR} SSR cards`;
+  }
+  if (card.type === "friend") {
+    if (status.friendCount >= constraints.maxFriendCards) {
+      return `Deck already has ${constraints.maxFriendCards} friend cards`;
+    }
+  } else if (
+    card.type &&
+    status.typeCounts[card.type] >= constraints.maxPerStatType
+  ) {
+    return `Deck already has ${constraints.maxPerStatType} ${card.type} cards`;
+  }
+
+  if (constraints.uniqueCharacters) {
+    const picked = [...teamData.pickedUmas, ...teamData.pickedCards];
+    if (picked.some((item) => isSameCharacter(item, card))) {
+      return `${card.name} is already on the team`;
+    }
+  }
+
+  // Slots left after this pick must still cover every missing stat type
+  const slotsLeft = CARDS_PER_TEAM - teamData.pickedCards.length - 1;
+  const stillMissing = status.missingTypes.filter(
+    (type) =>
+      !(
+        type === card.type &&
+        status.typeCounts[type] + 1 >= constraints.minPerStatType
+      ),
+  );
+  if (stillMissing.length > slotsLeft) {
+    return `Deck still needs ${stillMissing.join(", ")} cards`;
+  }
+
+  return null;
+};
+
+/**
+ * Whether no pickable card fits a team's deck rules
+ * The rules are lifted for that team's pick instead of stalling the draft
+ * (e.g. SSRs capped at 0 late in an SSR-heavy pool).
+ *
+ * @param state - Current draft state
+ * @param team - Team about to pick
+ */
+export const isDeckStuck = (
+  state: DraftState3v3v3,
+  team: Team3v3v3,
+): boolean => {
+  const constraints = getDeckConstraints(state);
+  return !getPickableCards(state).some(
+    (card) => !getCardConstraintError(state[team], card, constraints),
+  );
+};
+
+// ============================================================================
+// Draft Reducer
+// ============================================================================
+
+/**
+ * Whether every team has a full uma roster
+ */
+export const isUmaDraftComplete = (state: DraftState3v3v3): boolean =>
+  TEAMS.every((team) => state[team].pickedUmas.length >= UMAS_PER_TEAM);
+
+/**
+ * Whether every team has all of its cards
+ */
+export const isCardDraftComplete = (state: DraftState3v3v3): boolean =>
+  TEAMS.every((team) => state[team].pickedCards.length >= CARDS_PER_TEAM);
+
+/**
+ * Checks whether an action can be applied to the current state
+ *
+ * @param state - Current draft state
+ * @param action - Action to check
+ * @returns Reason the action is rejected, or null if it is allowed
+ */
+export const getActionError3v3v3 = (
+  state: DraftState3v3v3,
+  action: DraftAction3v3v3,
+): string | null => {
+  const { phase, currentTeam } = state;
+
+  switch (action.type) {
+    case "start-draft":
+      return phase === "team-names" ? null : "Draft has already started";
+
+    case "toggle-card-preban":
+      if (phase !== "card-preban") return "Card pre-bans are closed";
+      if (!state.availableCards.some((c) => c.id === action.cardId)) {
+        return `Unknown card ${action.cardId}`;
+      }
+      return null;
+
+    case "set-deck-constraints":
+      if (phase !== "card-preban") return "Deck rules are locked";
+      return validateDeckConstraints(action.constraints)[0] ?? null;
+
+    case "start-uma-draft": {
+      if (phase !== "card-preban") return "Not in the card pre-ban phase";
+      const needed = CARDS_PER_TEAM * TEAMS.length;
+      const pickable = getPickableCards(state).length;
+      if (pickable < needed) {
+        return `Only ${pickable} cards are left after pre-bans (${needed} needed)`;
+      }
+      return null;
+    }
+
+    case "select-uma":
+      if (phase !== "uma-ban" && phase !== "uma-pick") {
+        return `Cannot select an uma during ${phase}`;
+      }
+      if (action.team !== currentTeam) {
+        return `It is ${currentTeam}'s turn, not ${action.team}'s`;
+      }
+      if (phase === "uma-pick" && isUmaDraftComplete(state)) {
+        return "Every team already has a full roster";
+      }
+      if (!state.availableUmas.some((u) => u.id === action.umaId)) {
+        return `Uma ${action.umaId} has already been picked or banned`;
+      }
+      return null;
+
+    case "continue-to-card-pick":
+      if (phase !== "uma-pick" || !isUmaDraftComplete(state)) {
+        return "The uma draft is not finished";
+      }
+      return null;
+
+    case "select-card": {
+      if (phase !== "card-pick") return `Cannot pick a card during ${phase}`;
+      if (action.team !== currentTeam) {
+        return `It is ${currentTeam}'s turn, not ${action.team}'s`;
+      }
+      if (state[action.team].pickedCards.length >= CARDS_PER_TEAM) {
+        return `${action.team} already has ${CARDS_PER_TEAM} cards`;
+      }
+      if (state.preBannedCards.some((c) => c.id === action.cardId)) {
+        return `Card ${action.cardId} is pre-banned`;
+      }
+      const card = state.availableCards.find((c) => c.id === action.cardId);
+      if (!card) return `Card ${action.cardId} has already been picked`;
+      if (isDeckStuck(state, action.team)) return null;
+      return getCardConstraintError(
+        state[action.team],
+        card,
+        getDeckConstraints(state),
+      );
+    }
+
+    case "continue-to-complete":
+      if (phase !== "card-pick" || !isCardDraftComplete(state)) {
+        return "The card draft is not finished";
+      }
+      return null;
+  }
+};
+
+/**
+ * Moves the turn forward after a ban or pick.
+ * The draft pauses on the last uma/card pick (instead of advancing the
+ * phase) until the flow action is applied.
+ */
+const advanceTurn = (
+  previous: DraftState3v3v3,
+  next: DraftState3v3v3,
+): DraftState3v3v3 => {
+  const turn = getNextTeamAndPhase(next);
+  const isPhaseEnd =
+    (previous.phase === "uma-pick" && turn.nextPhase === "card-pick") ||
+    (previous.phase === "card-pick" && turn.nextPhase === "complete");
+
+  if (isPhaseEnd) {
+    return {
+      ...next,
+      currentTeam: previous.currentTeam,
+      phase: previous.phase,
+      round: previous.round,
+      turnInRound: previous.turnInRound,
+    };
+  }
+
+  return {
+    ...next,
+    currentTeam: turn.nextTeam,
+    phase: turn.nextPhase,
+    round: turn.nextRound,
+    turnInRound: turn.nextTurnInRound,
+  };
+};
+
+/**
+ * Applies an action to a 3v3v3 draft
+ * Pure: the same state and action always produce the same result, so it can
+ * be used for local play, the multiplayer host and replays alike.
+ *
+ * @param state - Current draft state
+ * @param action - Action to apply
+ * @returns New state, or the unchanged state if the action is rejected
+ */
+export const applyAction3v3v3 = (
+  state: DraftState3v3v3,
+  action: DraftAction3v3v3,
+): DraftState3v3v3 => {
+  const error = getActionError3v3v3(state, action);
+  if (error) {
+    console.warn(`Rejected ${action.type}: ${error}`);
+    return state;
+  }
+
+  switch (action.type) {
+    case "start-draft":
+      return { ...state, phase: "card-preban" };
+
+    case "toggle-card-preban": {
+      const isPreBanned = state.preBannedCards.some(
+        (c) => c.id === action.cardId,
+      );
+      const card = state.availableCards.find((c) => c.id === action.cardId);
+      if (!card) return state;
+      return {
+        ...state,
+        preBannedCards: isPreBanned
+          ? state.preBannedCards.filter((c) => c.id !== action.cardId)
+          : [...state.preBannedCards, card],
+      };
+    }
+
+    case "set-deck-constraints":
+      return { ...state, deckConstraints: { ...action.constraints } };
+
+    case "start-uma-draft":
+      return { ...state, phase: "uma-ban" };
+
+    case "select-uma": {
+      const { team } = action;
+      const uma = state.availableUmas.find((u) => u.id === action.umaId);
+      if (!uma) return state;
+      const teamData =
+        state.phase === "uma-ban"
+          ? { ...state[team], bannedUmas: [...state[team].bannedUmas, uma] }
+          : { ...state[team], pickedUmas: [...state[team].pickedUmas, uma] };
+
+      return advanceTurn(state, {
+        ...state,
+        [team]: teamData,
+        availableUmas: state.availableUmas.filter((u) => u.id !== uma.id),
+      });
+    }
+
+    case "continue-to-card-pick":
+      return {
+        ...state,
+        phase: "card-pick",
+        currentTeam: getTurnOrder(1, "card-pick")[0],
+        round: 1,
+        turnInRound: 0,
+      };
+
+    case "select-card": {
+      const { team } = action;
+      const card = state.availableCards.find((c) => c.id === action.cardId);
+      if (!card) return state;
+
+      return advanceTurn(state, {
+        ...state,
+        [team]: {
+          ...state[team],
+          pickedCards: [...state[team].pickedCards, card],
+        },
+        pickedCards: [...state.pickedCards, card],
+        availableCards: state.availableCards.filter((c) => c.id !== card.id),
+      });
+    }
+
+    case "continue-to-complete":
+      return { ...state, phase: "complete" };
+  }
+};
+
+// ============================================================================
+// Random Selection Functions (for turn timer timeout)
+// ============================================================================
+
+/**
+ * Gets a random element from an array
+ * @param arr - Array to pick from
+ * @returns Random element or undefined if array is empty
+ */
+const getRandomElement = <T>(arr: T[]): T | undefined => {
+  if (arr.length === 0) return undefined;
+  return arr[Math.floor(Math.random() * arr.length)];
+};
+
+/**
+ * Gets the cards that can still be picked (available and not pre-banned)
+ * @param state - Current draft state
+ * @returns Pickable cards
+ */
+export const getPickableCards = (state: DraftState3v3v3): Card[] =>
+  state.availableCards.filter(
+    (card) => !state.preBannedCards.some((pb) => pb.id === card.id),
+  );
+
+/**
+ * Performs a random selection for the current team based on current phase
+ * Used when turn timer expires
+ * @param state - Current draft state
+ * @param cardRarity - Rarity filter the team has applied; ignored if no
+ * pickable card matches it. Cards that break the deck rules are only chosen
+ * when no card fits them (see isDeckStuck).
+ * @returns Action with a random valid uma or card, or undefined if there is
+ * no turn to take
+ */
+export const getRandomTimeoutSelection3v3v3 = (
+  state: DraftState3v3v3,
+  cardRarity?: Card["rarity"] | null,
+): DraftAction3v3v3 | undefined => {
+  const { phase, currentTeam } = state;
+
+  switch (phase) {
+    case "uma-ban":
+    case "uma-pick": {
+      if (phase === "uma-pick" && isUmaDraftComplete(state)) break;
+      const uma = getRandomElement(state.availableUmas);
+      if (uma) return { type: "select-uma", team: currentTeam, umaId: uma.id };
+      break;
+    }
+    case "card-pick": {
+      if (state[currentTeam].pickedCards.length >= CARDS_PER_TEAM) break;
+      const constraints = getDeckConstraints(state);
+      const pickable = isDeckStuck(state, currentTeam)
+        ? getPickableCards(state)
+        : getPickableCards(state).filter(
+            (card) =>
+              !getCardConstraintError(state[currentTeam], card, constraints),
+          );
+      const filtered = cardRarity
+        ? pickable.filter((card) => card.rarity === cardRarity)
+        : pickable;
+      const card = getRandomElement(filtered.length > 0 ? filtered : pickable);
+      if (card) {
+        return { type: "select-card", team: currentTeam, cardId: card.id };
+      }
+      break;
+    }
+  }
+
+  return undefined;
+};
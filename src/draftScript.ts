@@ -0,0 +1,277 @@
+import type {
+  DraftPhase,
+  DraftRuleset,
+  DraftScript,
+  DraftState,
+  DraftStep,
+  DraftStepAction,
+  DraftStepTarget,
+  Team,
+} from "./types";
+import { DEFAULT_RULESET } from "./ruleset";
+
+// ─── Draft Script ──────────────────────────────────────────────────────
+// The 5v5 pick/ban order is described as an ordered list of steps. Draft
+// logic, timers and the timeline all derive the current turn from this list,
+// so changing the order only requires changing the script.
+
+/**
+ * Expands a group pattern into alternating steps.
+ * Each number is how many consecutive steps a team takes before the turn
+ * passes to the other team.
+ *
+ * @example
+ * expandPattern([1, 2, 1], "team2", "pick", "uma");
+ * // T2 pick, T1 pick, T1 pick, T2 pick
+ */
+export function expandPattern(
+  groups: number[],
+  firstTeam: Team,
+  action: DraftStepAction,
+  target: DraftStepTarget,
+): DraftScript {
+  const steps: DraftScript = [];
+  let team = firstTeam;
+  for (const size of groups) {
+    for (let i = 0; i < size; i++) {
+      steps.push({ team, action, target });
+    }
+    team = team === "team1" ? "team2" : "team1";
+  }
+  return steps;
+}
+
+/**
+ * Parses a pattern string like "1-2-2-2-2-1" into group sizes.
+ * Returns null if the string is not a dash-separated list of positive integers.
+ */
+export function parsePattern(pattern: string): number[] | null {
+  const parts = pattern.trim().split("-");
+  const groups = parts.map((part) => Number(part));
+  if (groups.some((n) => !Number.isInteger(n) || n <= 0)) return null;
+  return groups;
+}
+
+/**
+ * Builds a snake pattern where each team takes `count` steps:
+ * 1, 2, 2, ..., 2, 1 (e.g. 5 each → 1-2-2-2-2-1)
+ */
+function snakePattern(count: number): number[] {
+  if (count <= 0) return [];
+  if (count === 1) return [1, 1];
+  return [1, ...Array.from({ length: count - 1 }, () => 2), 1];
+}
+
+/**
+ * Builds the draft script for a ruleset:
+ * - Maps: T1/T2 alternate picks, then alternate vetoes starting with T1
+ * - Uma pre-bans: T1, T2 alternating
+ * - Uma picks: snake starting with T1 until each team has roster - 1 umas
+ * - Uma vetoes: T2, T1 alternating
+ * - Final uma picks: snake starting with T2 to refill each roster
+ *
+ * Without vetoes every uma is picked in a single snake.
+ *
+ * @example
+ * buildDraftScript(DEFAULT_RULESET);
+ * // Uma picks 1-2-2-2-2-1, vetoes T2/T1, final picks 1-2-1
+ */
+export function buildDraftScript(ruleset: DraftRuleset): DraftScript {
+  const alternate = (count: number) =>
+    Array.from({ length: count * 2 }, () => 1);
+  const {
+    preBansPerTeam,
+    mapPicksPerTeam,
+    mapBansPerTeam,
+    umaPicksPerTeam,
+    umaVetoesPerTeam,
+  } = ruleset;
+
+  const umaSteps: DraftScript =
+    umaVetoesPerTeam > 0
+      ? [
+          ...expandPattern(
+            snakePattern(umaPicksPerTeam - 1),
+            "team1",
+            "pick",
+            "uma",
+          ),
+          ...expandPattern(alternate(umaVetoesPerTeam), "team2", "ban", "uma"),
+          ...expandPattern(
+            snakePattern(umaVetoesPerTeam + 1),
+            "team2",
+            "pick",
+            "uma",
+          ),
+        ]
+      : expandPattern(snakePattern(umaPicksPerTeam), "team1", "pick", "uma");
+
+  return [
+    ...expandPattern(alternate(mapPicksPerTeam), "team1", "pick", "map"),
+    ...expandPattern(alternate(mapBansPerTeam), "team1", "ban", "map"),
+    ...expandPattern(alternate(preBansPerTeam), "team1", "pre-ban", "uma"),
+    ...umaSteps,
+  ];
+}
+
+/**
+ * Default league order (see DEFAULT_RULESET):
+ * - Maps: alternate T1/T2 for 4 picks each, then T1 and T2 veto one each
+ * - Uma pre-bans: T1, T2
+ * - Uma picks: T1(1), T2(2), T1(2), T2(2), T1(2), T2(1)
+ * - Uma vetoes: T2, T1
+ * - Final uma picks: T2(1), T1(2), T2(1)
+ */
+export const DEFAULT_DRAFT_SCRIPT: DraftScript =
+  buildDraftScript(DEFAULT_RULESET);
+
+/** Scripts built from each ruleset, so callers get the same array back */
+const scriptsByRuleset = new WeakMap<DraftRuleset, DraftScript>();
+
+/**
+ * Returns the script governing a draft: an explicit script if the draft was
+ * created with one, otherwise the order built from its ruleset
+ */
+export function getDraftScript(state: DraftState): DraftScript {
+  if (state.draftScript?.length) return state.draftScript;
+  if (!state.ruleset) return DEFAULT_DRAFT_SCRIPT;
+
+  let script = scriptsByRuleset.get(state.ruleset);
+  if (!script) {
+    script = buildDraftScript(state.ruleset);
+    scriptsByRuleset.set(state.ruleset, script);
+  }
+  return script;
+}
+
+/**
+ * Gets the draft phase a step is played in
+ */
+export function getPhaseForStep(step: DraftStep): DraftPhase {
+  if (step.target === "map") {
+    return step.action === "pick" ? "map-pick" : "map-ban";
+  }
+  if (step.action === "pre-ban") return "uma-pre-ban";
+  return step.action === "pick" ? "uma-pick" : "uma-ban";
+}
+
+/**
+ * Counts how many script steps have been played so far.
+ *
+ * Vetoes move an item from the opponent's picked list to their banned list,
+ * so every banned item represents both its original pick and the veto.
+ * Firebase drops empty arrays, hence the defensive length reads.
+ */
+export function getCompletedStepCount(state: DraftState): number {
+  let count = 0;
+  for (const team of [state.team1, state.team2]) {
+    count += team.pickedMaps?.length || 0;
+    count += (team.bannedMaps?.length || 0) * 2;
+    count += team.preBannedUmas?.length || 0;
+    count += team.pickedUmas?.length || 0;
+    count += (team.bannedUmas?.length || 0) * 2;
+  }
+  return count;
+}
+
+/**
+ * Gets the step that should be played next, or undefined once the script is done
+ */
+export function getCurrentStep(state: DraftState): DraftStep | undefined {
+  return getDraftScript(state)[getCompletedStepCount(state)];
+}
+
+/**
+ * Resolves the phase and team after an action has been applied.
+ * A pause is inserted whenever the script moves from map steps to uma steps.
+ */
+export function resolveTurn(state: DraftState): {
+  phase: DraftPhase;
+  currentTeam: Team;
+} {
+  const script = getDraftScript(state);
+  const index = getCompletedStepCount(state);
+  const nextStep = script[index];
+
+  if (!nextStep) {
+    return { phase: "complete", currentTeam: state.currentTeam };
+  }
+
+  const previousStep = index > 0 ? script[index - 1] : undefined;
+  if (previousStep?.target === "map" && nextStep.target === "uma") {
+    // Maintain current team during pause (set from the script when resuming)
+    return { phase: "post-map-pause", currentTeam: state.currentTeam };
+  }
+
+  return { phase: getPhaseForStep(nextStep), currentTeam: nextStep.team };
+}
+
+/**
+ * Gets the phase/team a paused draft resumes into
+ */
+export function getResumeTurn(state: DraftState): {
+  phase: DraftPhase;
+  currentTeam: Team;
+} {
+  const step = getCurrentStep(state);
+  if (!step) return { phase: "complete", currentTeam: state.currentTeam };
+  return { phase: getPhaseForStep(step), currentTeam: step.team };
+}
+
+// ─── Timeline ──────────────────────────────────────────────────────────
+
+export type TimelineStep = { team: Team; label: string };
+
+const getStepLabel = (step: DraftStep): string => {
+  if (step.action === "pre-ban") return "X";
+  return step.action === "ban" ? "B" : "P";
+};
+
+/**
+ * Resolves which timeline to display and the current step index given the
+ * draft phase and the number of completed script steps.
+ *
+ * Map picks and map bans are shown as separate sections, while every uma
+ * step is shown together as one "Uma Draft" strip.
+ */
+export function getTimelineForPhase(
+  phase: DraftPhase,
+  completedSteps: number,
+  script: DraftScript = DEFAULT_DRAFT_SCRIPT,
+): {
+  steps: TimelineStep[];
+  currentIndex: number;
+  sectionLabel: string;
+} | null {
+  let sectionLabel: string;
+  let inSection: (step: DraftStep) => boolean;
+
+  switch (phase) {
+    case "map-pick":
+      sectionLabel = "Map Picks";
+      inSection = (step) => step.target === "map" && step.action === "pick";
+      break;
+    case "map-ban":
+      sectionLabel = "Map Bans";
+      inSection = (step) => step.target === "map" && step.action !== "pick";
+      break;
+    case "uma-pre-ban":
+    case "uma-pick":
+    case "uma-ban":
+      sectionLabel = "Uma Draft";
+      inSection = (step) => step.target === "uma";
+      break;
+    default:
+      return null;
+  }
+
+  const steps: TimelineStep[] = [];
+  let currentIndex = 0;
+  script.forEach((step, index) => {
+    if (!inSection(step)) return;
+    if (index < completedSteps) currentIndex++;
+    steps.push({ team: step.team, label: getStepLabel(step) });
+  });
+
+  return { steps, currentIndex, sectionLabel };
+}
@@ -11,14 +11,26 @@
  * - Automatic presence management
  * - Host authority for state updates
  * - Pending action queue for player actions
+ * - Host migration when the host stays offline past the grace period
+ * - Hands draft actions to an attached action processor
  */
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import type { User } from "firebase/auth";
 import type { Unsubscribe } from "firebase/database";
 
 import * as firebaseRoom from "../services/firebaseRoom";
-import type { DraftState } from "../types";
+import {
+  getRoomDraftState,
+  normalizeDraftLog,
+  StaleDraftStateError,
+} from "../services/roomState";
+import { CONNECTION_TIMEOUTS } from "../config/multiplayer";
+import { isDraftAction } from "../draftActions";
+import { replayDraftLog } from "../draftLog";
+import { getPickOrderLines } from "../utils/pickOrder";
+import type { DraftRollback, DraftRuleset, DraftState, Team } from "../types";
+import type { DraftState3v3v3 } from "../types3v3v3";
 import type { DraftActionPayload } from "../types/multiplayer";
 import type {
   FirebaseRoom,
@@ -28,11 +40,16 @@ import type {
   PendingSelections,
   CreateRoomData,
   JoinRoomData,
+  DraftStateWriteOptions,
+  DraftState3v3v3WriteOptions,
   FirebaseConnectionState,
   RoomOperationResult,
   UseFirebaseRoomReturn,
 } from "../types/firebase";
 
+/** Times a stale draft state write is rebased onto the latest state */
+const MAX_STALE_WRITE_RETRIES = 3;
+
 /**
  * Hook for managing Firebase multiplayer room state
  *
@@ -85,11 +102,40 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
   const [firebaseRoomCodes, setFirebaseRoomCodes] = useState<Record<string, string>>({});
   const unsubscribeRoomCodesRef = useRef<Unsubscribe | null>(null);
 
+  // Players offline past the grace period, and when each offline player was
+  // first seen offline (local clock, so no server time skew)
+  const [awayPlayerIds, setAwayPlayerIds] = useState<string[]>([]);
+  const offlineSinceRef = useRef<Record<string, number>>({});
+  const hostClaimRef = useRef<string | null>(null);
+
+  // Room version the local draft state is based on, and the chain that
+  // keeps this client's draft state writes in order
+  const draftVersionRef = useRef<number | null>(null);
+  const draftWriteQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
   // Derived state
   const userId = user?.uid ?? null;
   const isHost = room?.hostId === userId;
   const isConnected = connectionState === "connected" && room !== null;
   const draftState = room?.draftState ?? null;
+  const draftState3v3v3 = room?.draftState3v3v3 ?? null;
+  const isProcessorAttached = !!room?.processor;
+
+  // Draft history and pick order replayed from the room's action log
+  const draftLog = room?.draftLog;
+  const team1Name = room?.team1Name ?? "";
+  const team2Name = room?.team2Name ?? "";
+  const draftReplay = useMemo(() => {
+    const log = normalizeDraftLog(draftLog);
+    return log ? replayDraftLog(log.base, log.entries) : null;
+  }, [draftLog]);
+  const draftHistory = draftReplay?.history ?? null;
+  const draftPickOrder = useMemo(
+    () =>
+      draftReplay &&
+      getPickOrderLines(draftReplay.applied, team1Name, team2Name),
+    [draftReplay, team1Name, team2Name],
+  );
 
   // Get players and spectators as arrays
   const players: FirebasePlayer[] = room?.players
@@ -212,6 +258,118 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
     [roomCode],
   );
 
+  /**
+   * Subscribes to pending actions while this user is the host
+   * Follows hostId rather than the join type, so a player who takes over
+   * the room starts processing actions and a replaced host stops.
+   * Draft actions are left to an attached action processor; resubscribing
+   * when it detaches picks up any it didn't get to.
+   */
+  useEffect(() => {
+    if (!roomCode || !isHost) return;
+
+    const unsubscribe = firebaseRoom.subscribeToPendingActions(
+      roomCode,
+      (action) => {
+        if (isProcessorAttached && isDraftAction(action.action)) return;
+        handlePendingAction(action);
+      },
+    );
+    unsubscribeActionsRef.current = unsubscribe;
+
+    return () => {
+      unsubscribe();
+      unsubscribeActionsRef.current = null;
+    };
+  }, [roomCode, isHost, isProcessorAttached, handlePendingAction]);
+
+  /**
+   * Follows the room version for clients that show the synced draft state
+   * The acting host keeps the version of its own last write instead, so a
+   * write from a host that missed someone else's update is rejected.
+   */
+  useEffect(() => {
+    if (!room) return;
+    if (draftVersionRef.current === null || !isHost || isProcessorAttached) {
+      draftVersionRef.current = room.version;
+    }
+  }, [room, isHost, isProcessorAttached]);
+
+  /**
+   * Tracks which players have been offline past the grace period
+   * Re-checks when the next offline player's grace period runs out.
+   */
+  useEffect(() => {
+    const roomPlayers = room?.players ?? {};
+    const offlineSince = offlineSinceRef.current;
+    const now = Date.now();
+
+    for (const id of Object.keys(offlineSince)) {
+      if (!roomPlayers[id]) delete offlineSince[id];
+    }
+    for (const player of Object.values(roomPlayers)) {
+      if (player.connected) {
+        delete offlineSince[player.id];
+      } else {
+        offlineSince[player.id] ??= now;
+      }
+    }
+
+    const updateAway = () => {
+      const checkedAt = Date.now();
+      const away = Object.keys(offlineSince)
+        .filter(
+          (id) =>
+            checkedAt - offlineSince[id] >=
+            CONNECTION_TIMEOUTS.AWAY_GRACE_PERIOD,
+        )
+        .sort();
+      setAwayPlayerIds((prev) =>
+        prev.join(",") === away.join(",") ? prev : away,
+      );
+    };
+    updateAway();
+
+    const remaining = Object.values(offlineSince)
+      .map((since) => since + CONNECTION_TIMEOUTS.AWAY_GRACE_PERIOD - now)
+      .filter((ms) => ms > 0);
+    if (remaining.length === 0) return;
+
+    const timer = setTimeout(updateAway, Math.min(...remaining));
+    return () => clearTimeout(timer);
+  }, [room?.players]);
+
+  /**
+   * Takes over as host when the host has been away past the grace period
+   * The longest-seated connected player claims the role; spectators never do.
+   * The lobby and 3v3v3 draft screens still take the host from the room
+   * config, so only 5v5 drafts that have started migrate.
+   */
+  useEffect(() => {
+    if (!room || !roomCode || !userId || isHost) return;
+    if (room.format !== "5v5" || room.draftState?.phase === "lobby") return;
+    if (!awayPlayerIds.includes(room.hostId)) return;
+    if (hostClaimRef.current === room.hostId) return;
+
+    const successor = Object.values(room.players ?? {})
+      .filter((player) => player.id !== room.hostId && player.connected)
+      .sort((a, b) => a.joinedAt - b.joinedAt)[0];
+    if (successor?.id !== userId) return;
+
+    hostClaimRef.current = room.hostId;
+    firebaseRoom
+      .claimHost(roomCode, room.hostId, userId)
+      .then((claimed) => {
+        if (claimed) {
+          console.log("[useFirebaseRoom] Host offline - took over as host");
+        }
+      })
+      .catch((err) => {
+        console.error("Error claiming host:", err);
+        hostClaimRef.current = null;
+      });
+  }, [room, roomCode, userId, isHost, awayPlayerIds]);
+
   /**
    * Creates a new room
    */
@@ -223,6 +381,7 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
 
       if (result.success && result.data) {
         setRoomCode(result.data);
+        draftVersionRef.current = firebaseRoom.INITIAL_ROOM_VERSION;
 
         // Subscribe to room updates
         unsubscribeRoomRef.current = firebaseRoom.subscribeToRoom(result.data, {
@@ -241,12 +400,6 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
           },
         });
 
-        // Host subscribes to pending actions
-        unsubscribeActionsRef.current = firebaseRoom.subscribeToPendingActions(
-          result.data,
-          handlePendingAction,
-        );
-
         // Subscribe to pending selections (ghost hovers)
         unsubscribeSelectionsRef.current =
           firebaseRoom.subscribeToPendingSelections(
@@ -308,18 +461,6 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
         // Subscribe to per-race room codes
         unsubscribeRoomCodesRef.current =
           firebaseRoom.subscribeToRoomCodes(data.roomCode, setFirebaseRoomCodes);
-
-        // Host also subscribes to pending actions (important for reconnection)
-        if (data.connectionType === "host") {
-          console.log(
-            "[useFirebaseRoom] Host rejoining - subscribing to pending actions",
-          );
-          unsubscribeActionsRef.current =
-            firebaseRoom.subscribeToPendingActions(
-              data.roomCode,
-              handlePendingAction,
-            );
-        }
       } else {
         console.error("Failed to join room:", result.error);
         setError(new Error(result.error ?? "Failed to join room"));
@@ -354,31 +495,186 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
     setError(null);
     setPendingSelections({});
     setFirebaseRoomCodes({});
+    setAwayPlayerIds([]);
+    offlineSinceRef.current = {};
+    hostClaimRef.current = null;
+    draftVersionRef.current = null;
   }, [roomCode]);
 
   /**
    * Updates the draft state (host only)
    * Note: isHost check is relaxed to allow updates during room creation before subscription fires
+   *
+   * Writes only succeed over the version the local state was based on. When
+   * another write got in first, the client resyncs to it and, if given a
+   * rebase, retries with the change reapplied to the latest state.
+   *
+   * @returns The draft state now in the room (the written or rebased state,
+   * or the other writer's state if this write was dropped), or null on error
    */
   const updateDraftState = useCallback(
-    async (newState: DraftState): Promise<void> => {
+    (
+      newState: DraftState,
+      { rebase, logEntry }: DraftStateWriteOptions = {},
+    ): Promise<DraftState | null> => {
       if (!roomCode) {
         console.error("Cannot update draft state: not in a room");
-        return;
+        return Promise.resolve(null);
       }
 
       // Note: We don't check isHost here because during room creation,
       // the room subscription may not have fired yet so isHost would be false.
       // The caller is responsible for ensuring they're the host.
 
-      try {
-        await firebaseRoom.updateDraftState(roomCode, newState);
-      } catch (err) {
-        console.error("Error updating draft state:", err);
-        setError(
-          err instanceof Error ? err : new Error("Failed to update state"),
-        );
+      const write = async (): Promise<DraftState | null> => {
+        let nextState = newState;
+        let nextEntry = logEntry;
+        for (let attempt = 0; ; attempt++) {
+          try {
+            const written = await firebaseRoom.updateDraftState(
+              roomCode,
+              nextState,
+              draftVersionRef.current ?? firebaseRoom.INITIAL_ROOM_VERSION,
+              nextEntry,
+            );
+            if (!written) return nextState;
+            draftVersionRef.current = written.version;
+
+            // The room fills in the pick order when a logged action completes
+            // the draft
+            const pickOrderHistoryText =
+              written.draftState?.pickOrderHistoryText;
+            return pickOrderHistoryText && !nextState.pickOrderHistoryText
+              ? { ...nextState, pickOrderHistoryText }
+              : nextState;
+          } catch (err) {
+            if (!(err instanceof StaleDraftStateError)) {
+              console.error("Error updating draft state:", err);
+              setError(
+                err instanceof Error
+                  ? err
+                  : new Error("Failed to update state"),
+              );
+              return null;
+            }
+
+            // Resync to the write that got in first
+            console.warn("[useFirebaseRoom] Stale draft state write:", err);
+            draftVersionRef.current = err.currentVersion;
+            const { latest } = err;
+            const rebased =
+              latest && rebase && attempt < MAX_STALE_WRITE_RETRIES
+                ? rebase(latest)
+                : null;
+            if (!latest || !rebased) return latest;
+            nextState = rebased;
+            // The logged action now applies in the latest state's phase
+            if (nextEntry) nextEntry = { ...nextEntry, phase: latest.phase };
+          }
+        }
+      };
+
+      const result = draftWriteQueueRef.current.then(write);
+      draftWriteQueueRef.current = result;
+      return result;
+    },
+    [roomCode],
+  );
+
+  /**
+   * Rolls the draft back to a step the opponent agreed to (host only)
+   * Queued behind this client's draft state writes.
+   *
+   * @returns The rolled back draft state, or null on error
+   */
+  const rollbackDraft = useCallback(
+    (request: DraftRollback, team: Team): Promise<DraftState | null> => {
+      if (!roomCode || !userId) {
+        console.error("Cannot roll back draft: not in a room");
+        return Promise.resolve(null);
+      }
+
+      const write = async (): Promise<DraftState | null> => {
+        try {
+          const written = await firebaseRoom.rollbackDraft(
+            roomCode,
+            request,
+            userId,
+            team,
+          );
+          draftVersionRef.current = written.version;
+          return getRoomDraftState(written) ?? null;
+        } catch (err) {
+          console.error("Error rolling back draft:", err);
+          setError(
+            err instanceof Error ? err : new Error("Failed to roll back draft"),
+          );
+          return null;
+        }
+      };
+
+      const result = draftWriteQueueRef.current.then(write);
+      draftWriteQueueRef.current = result;
+      return result;
+    },
+    [roomCode, userId],
+  );
+
+  /**
+   * Updates the 3v3v3 draft state (host only)
+   * Version-checked and queued like updateDraftState.
+   *
+   * @returns The 3v3v3 draft state now in the room, or null on error
+   */
+  const updateDraftState3v3v3 = useCallback(
+    (
+      newState: DraftState3v3v3,
+      { rebase }: DraftState3v3v3WriteOptions = {},
+    ): Promise<DraftState3v3v3 | null> => {
+      if (!roomCode) {
+        console.error("Cannot update draft state: not in a room");
+        return Promise.resolve(null);
       }
+
+      const write = async (): Promise<DraftState3v3v3 | null> => {
+        let nextState = newState;
+        for (let attempt = 0; ; attempt++) {
+          try {
+            const written = await firebaseRoom.updateDraftState3v3v3(
+              roomCode,
+              nextState,
+              draftVersionRef.current ?? firebaseRoom.INITIAL_ROOM_VERSION,
+            );
+            draftVersionRef.current = written.version;
+            return nextState;
+          } catch (err) {
+            if (!(err instanceof StaleDraftStateError)) {
+              console.error("Error updating 3v3v3 draft state:", err);
+              setError(
+                err instanceof Error
+                  ? err
+                  : new Error("Failed to update state"),
+              );
+              return null;
+            }
+
+            // Resync to the write that got in first
+            console.warn("[useFirebaseRoom] Stale 3v3v3 draft write:", err);
+            draftVersionRef.current = err.currentVersion;
+            const latest = err.latest3v3v3;
+            const rebased =
+              latest && rebase && attempt < MAX_STALE_WRITE_RETRIES
+                ? rebase(latest)
+                : null;
+            if (!latest || !rebased) return latest;
+            nextState = rebased;
+          }
+        }
+      };
+
+      const result = draftWriteQueueRef.current.then(write);
+      draftWriteQueueRef.current = result;
+      return result;
     },
     [roomCode],
   );
@@ -438,6 +734,76 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
     [roomCode],
   );
 
+  /**
+   * Updates the room ruleset (host only, before the draft starts)
+   * Queued behind this client's draft state writes. The ruleset doesn't
+   * depend on the rest of the draft, so a stale write is retried on top of
+   * the latest version.
+   */
+  const updateRuleset = useCallback(
+    (ruleset: DraftRuleset): Promise<void> => {
+      if (!roomCode) return Promise.resolve();
+
+      const write = async (): Promise<void> => {
+        for (let attempt = 0; ; attempt++) {
+          try {
+            const written = await firebaseRoom.updateRoomRuleset(
+              roomCode,
+              ruleset,
+              draftVersionRef.current ?? firebaseRoom.INITIAL_ROOM_VERSION,
+            );
+            draftVersionRef.current = written.version;
+            return;
+          } catch (err) {
+            if (
+              err instanceof StaleDraftStateError &&
+              attempt < MAX_STALE_WRITE_RETRIES
+            ) {
+              draftVersionRef.current = err.currentVersion;
+              continue;
+            }
+            console.error("Error updating ruleset:", err);
+            setError(
+              err instanceof Error
+                ? err
+                : new Error("Failed to update ruleset"),
+            );
+            return;
+          }
+        }
+      };
+
+      const result = draftWriteQueueRef.current.then(write);
+      draftWriteQueueRef.current = result;
+      return result;
+    },
+    [roomCode],
+  );
+
+  /**
+   * Updates the room's team names (host only)
+   */
+  const updateTeamNames = useCallback(
+    async (
+      team1Name: string,
+      team2Name: string,
+      team3Name?: string,
+    ): Promise<void> => {
+      if (!roomCode) return;
+      try {
+        await firebaseRoom.updateTeamNames(
+          roomCode,
+          team1Name,
+          team2Name,
+          team3Name,
+        );
+      } catch (err) {
+        console.error("Error updating team names:", err);
+      }
+    },
+    [roomCode],
+  );
+
   return {
     // Room management
     createRoom,
@@ -447,11 +813,16 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
     // State
     room,
     draftState,
+    draftState3v3v3,
     isHost,
     isConnected,
     connectionState,
     players,
     spectators,
+    awayPlayerIds,
+    isProcessorAttached,
+    draftHistory,
+    draftPickOrder,
     error,
 
     // User info
@@ -460,12 +831,16 @@ export function useFirebaseRoom(): UseFirebaseRoomReturn {
 
     // Actions
     updateDraftState,
+    rollbackDraft,
+    updateDraftState3v3v3,
     sendAction,
     setPendingActionHandler,
     updatePendingSelection,
     pendingSelections,
     firebaseRoomCodes,
     updateRoomCodes,
+    updateRuleset,
+    updateTeamNames,
   };
 }
 
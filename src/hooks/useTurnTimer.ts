@@ -4,8 +4,8 @@ import type { DraftPhase } from "../types";
 /** Default turn duration in seconds */
 export const DEFAULT_TURN_DURATION = 60;
 
-/** Phases where timer should be active */
-const ACTIVE_PHASES: DraftPhase[] = [
+/** Phases where timer should be active in a 5v5 draft */
+const ACTIVE_PHASES: readonly DraftPhase[] = [
   "map-pick",
   "map-ban",
   "uma-pick",
@@ -19,7 +19,7 @@ const getMonotonicNow = () =>
 /**
  * Configuration for the turn timer
  */
-interface TurnTimerConfig {
+interface TurnTimerConfig<TPhase extends string = DraftPhase> {
   /** Turn duration in seconds (default: 60) */
   duration?: number;
   /** Whether the timer is enabled (default: true) */
@@ -27,7 +27,9 @@ interface TurnTimerConfig {
   /** Callback when timer expires */
   onTimeout: () => void;
   /** Current draft phase */
-  phase: DraftPhase;
+  phase: TPhase;
+  /** Phases where the timer counts down (default: 5v5 pick/ban phases) */
+  activePhases?: readonly TPhase[];
   /** Current team's turn identifier (used to detect turn changes) */
   currentTurnKey: string;
   /** Whether this client should control the timer (host in multiplayer, always in local) */
@@ -61,20 +63,21 @@ interface UseTurnTimerResult {
  *
  * Timer automatically:
  * - Resets when turn changes (currentTurnKey changes)
- * - Pauses during non-active phases (lobby, wildcard-reveal, complete)
+ * - Pauses outside the active phases (lobby, wildcard-reveal, complete for 5v5)
  * - Calls onTimeout when timer reaches 0
  *
  * @param config - Timer configuration
  * @returns Timer state and control functions
  */
-export function useTurnTimer({
+export function useTurnTimer<TPhase extends string = DraftPhase>({
   duration = DEFAULT_TURN_DURATION,
   enabled = true,
   onTimeout,
   phase,
+  activePhases,
   currentTurnKey,
   isTimerAuthority,
-}: TurnTimerConfig): UseTurnTimerResult {
+}: TurnTimerConfig<TPhase>): UseTurnTimerResult {
   const [timeRemaining, setTimeRemaining] = useState(duration);
   const [isPaused, setIsPaused] = useState(false);
   const timeoutCalledRef = useRef(false);
@@ -98,7 +101,8 @@ export function useTurnTimer({
   }, [onTimeout]);
 
   // Determine if timer should be active based on phase
-  const isActivePhase = ACTIVE_PHASES.includes(phase);
+  const timedPhases: readonly string[] = activePhases ?? ACTIVE_PHASES;
+  const isActivePhase = timedPhases.includes(phase);
   // Timer counts down visually for everyone, but only authority triggers timeout
   const shouldCountDown = enabled && isActivePhase && !isPaused;
   const isRunning = shouldCountDown;
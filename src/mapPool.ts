@@ -0,0 +1,180 @@
+import type {
+  CourseSet,
+  DistanceCategory,
+  DraftRuleset,
+  DraftState,
+  Map,
+  MapPool,
+} from "./types";
+import { COURSE_MAPS } from "./data";
+
+// ─── Map Pool ──────────────────────────────────────────────────────────
+// Which courses a room drafts from. Maps are generated from the course data
+// of the room's server; the host narrows them down per room with filters
+// and per-map overrides.
+
+export const SURFACES: Map["surface"][] = ["Turf", "Dirt"];
+
+export const DISTANCE_CATEGORIES: DistanceCategory[] = [
+  "sprint",
+  "mile",
+  "medium",
+  "long",
+];
+
+/**
+ * Gets the distance category for a given distance
+ * @param distance - The distance in meters
+ * @returns Category: 'sprint' | 'mile' | 'medium' | 'long'
+ */
+export function getDistanceCategory(distance: number): DistanceCategory {
+  if (distance <= 1400) return "sprint";
+  if (distance <= 1800) return "mile";
+  if (distance <= 2400) return "medium";
+  return "long";
+}
+
+/**
+ * Default pool: every JP turf course plus the dirt courses raced in the
+ * league, without the local (NAR) and overseas tracks.
+ */
+export const DEFAULT_MAP_POOL: MapPool = {
+  courseSet: "jp",
+  surfaces: ["Turf", "Dirt"],
+  distanceCategories: ["sprint", "mile", "medium", "long"],
+  excludedTracks: [
+    "Kawasaki",
+    "Funabashi",
+    "Morioka",
+    "Longchamp",
+    "Santa Anita Park",
+    "Del Mar",
+  ],
+  excludedMapIds: [
+    "sapporo-1000-dirt",
+    "sapporo-2400-dirt",
+    "hakodate-1000-dirt",
+    "hakodate-2400-dirt",
+    "niigata-2500-dirt",
+    "fukushima-2400-dirt",
+    "nakayama-2400-dirt",
+    "nakayama-2500-dirt",
+    "tokyo-2400-dirt",
+    "chukyo-1200-dirt",
+    "chukyo-1900-dirt",
+    "hanshin-1200-dirt",
+    "kokura-1000-dirt",
+    "kokura-2400-dirt",
+  ],
+  includedMapIds: [],
+};
+
+/**
+ * Returns the map pool a draft is played from
+ * Firebase drops empty arrays, so missing lists are restored as empty.
+ */
+export function getMapPool(state: DraftState): MapPool {
+  if (!state.mapPool) return DEFAULT_MAP_POOL;
+  return {
+    ...state.mapPool,
+    surfaces: state.mapPool.surfaces ?? [],
+    distanceCategories: state.mapPool.distanceCategories ?? [],
+    excludedTracks: state.mapPool.excludedTracks ?? [],
+    excludedMapIds: state.mapPool.excludedMapIds ?? [],
+    includedMapIds: state.mapPool.includedMapIds ?? [],
+  };
+}
+
+/**
+ * Gets the tracks in a course set, in course data order
+ */
+export function getCourseSetTracks(courseSet: CourseSet): string[] {
+  return [...new Set(COURSE_MAPS[courseSet].map((map) => map.track))];
+}
+
+/**
+ * Checks whether a map passes the pool's filters and overrides
+ */
+export function isMapInPool(pool: MapPool, map: Map): boolean {
+  if (pool.includedMapIds.includes(map.id)) return true;
+  if (pool.excludedMapIds.includes(map.id)) return false;
+  return (
+    pool.surfaces.includes(map.surface) &&
+    pool.distanceCategories.includes(getDistanceCategory(map.distance)) &&
+    !pool.excludedTracks.includes(map.track)
+  );
+}
+
+/**
+ * Gets the maps a pool drafts from
+ *
+ * @param pool - Map pool
+ * @returns Maps from the pool's course set that pass its filters
+ */
+export function getPoolMaps(pool: MapPool): Map[] {
+  return COURSE_MAPS[pool.courseSet].filter((map) => isMapInPool(pool, map));
+}
+
+/**
+ * Includes or excludes a single map, keeping the override lists minimal
+ *
+ * @param pool - Map pool to update
+ * @param map - Map to toggle
+ * @returns Pool with the map's override flipped
+ */
+export function toggleMapInPool(pool: MapPool, map: Map): MapPool {
+  const included = isMapInPool(pool, map);
+  const withoutOverrides: MapPool = {
+    ...pool,
+    excludedMapIds: pool.excludedMapIds.filter((id) => id !== map.id),
+    includedMapIds: pool.includedMapIds.filter((id) => id !== map.id),
+  };
+  // Dropping the override may already give the state we want
+  if (isMapInPool(withoutOverrides, map) !== included) return withoutOverrides;
+
+  return included
+    ? {
+        ...withoutOverrides,
+        excludedMapIds: [...withoutOverrides.excludedMapIds, map.id],
+      }
+    : {
+        ...withoutOverrides,
+        includedMapIds: [...withoutOverrides.includedMapIds, map.id],
+      };
+}
+
+/**
+ * Checks that a pool has enough maps to play a draft under a ruleset
+ *
+ * @param pool - Map pool to validate
+ * @param ruleset - Rules the draft will be played under
+ * @returns List of human-readable problems (empty if the pool is valid)
+ */
+export function validateMapPool(
+  pool: MapPool,
+  ruleset: DraftRuleset,
+): string[] {
+  const errors: string[] = [];
+  const maps = getPoolMaps(pool);
+  // Both teams' picks plus the wildcard
+  const needed = ruleset.mapPicksPerTeam * 2 + 1;
+
+  if (maps.length < needed) {
+    errors.push(`Map pool needs at least ${needed} maps (has ${maps.length})`);
+  }
+  const turfMaps = maps.filter((map) => map.surface === "Turf").length;
+  const turfNeeded = Math.max(0, ruleset.mapPicksPerTeam - ruleset.maxDirtMaps);
+  if (turfMaps < turfNeeded * 2) {
+    errors.push(
+      `Dirt cap needs at least ${turfNeeded * 2} turf maps in the pool`,
+    );
+  }
+  const categories = new Set(
+    maps.map((map) => getDistanceCategory(map.distance)),
+  );
+  if (categories.size * ruleset.maxMapsPerDistance < ruleset.mapPicksPerTeam) {
+    errors.push("Distance cap is too low for the distances in the pool");
+  }
+
+  return errors;
+}
@@ -0,0 +1,112 @@
+import type { DraftRuleset, DraftState } from "./types";
+
+// ─── Draft Ruleset ─────────────────────────────────────────────────────
+// Rules chosen by the host when creating a 5v5 room. The draft script,
+// pick constraints and team panel slots are all derived from the ruleset,
+// so every client enforces the same rules.
+
+/**
+ * Default league rules: 4 map picks with 1 veto, 1 uma pre-ban,
+ * 6-uma rosters with 1 mid-draft veto, max 2 maps per distance category
+ * and max 2 dirt maps. Alternate outfits stay draftable.
+ */
+export const DEFAULT_RULESET: DraftRuleset = {
+  preBansPerTeam: 1,
+  mapPicksPerTeam: 4,
+  mapBansPerTeam: 1,
+  umaPicksPerTeam: 6,
+  umaVetoesPerTeam: 1,
+  maxMapsPerDistance: 2,
+  maxDirtMaps: 2,
+  exclusiveCharacters: false,
+};
+
+/** Ruleset fields that hold a count */
+export type NumericRulesetKey = Exclude<
+  keyof DraftRuleset,
+  "exclusiveCharacters"
+>;
+
+/**
+ * Allowed range for each ruleset field (inclusive)
+ */
+export const RULESET_LIMITS: Record<
+  NumericRulesetKey,
+  { min: number; max: number; label: string }
+> = {
+  preBansPerTeam: { min: 0, max: 3, label: "Uma pre-bans" },
+  mapPicksPerTeam: { min: 1, max: 6, label: "Map picks" },
+  mapBansPerTeam: { min: 0, max: 3, label: "Map vetoes" },
+  umaPicksPerTeam: { min: 1, max: 9, label: "Uma roster size" },
+  umaVetoesPerTeam: { min: 0, max: 3, label: "Uma vetoes" },
+  maxMapsPerDistance: { min: 1, max: 6, label: "Max maps per distance" },
+  maxDirtMaps: { min: 0, max: 6, label: "Max dirt maps" },
+};
+
+/**
+ * Returns the ruleset a draft is played under
+ */
+export function getRuleset(state: DraftState): DraftRuleset {
+  return state.ruleset ?? DEFAULT_RULESET;
+}
+
+/**
+ * Checks a ruleset for values the draft cannot be played with.
+ *
+ * @param ruleset - Ruleset to validate
+ * @returns List of human-readable problems (empty if the ruleset is valid)
+ */
+export function validateRuleset(ruleset: DraftRuleset): string[] {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(RULESET_LIMITS) as NumericRulesetKey[]) {
+    const value = ruleset[key];
+    const { min, max, label } = RULESET_LIMITS[key];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${label} must be a whole number from ${min} to ${max}`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  if (ruleset.mapBansPerTeam >= ruleset.mapPicksPerTeam) {
+    errors.push("Map vetoes must leave each team at least one map");
+  }
+  if (ruleset.umaVetoesPerTeam >= ruleset.umaPicksPerTeam) {
+    errors.push("Uma vetoes must be fewer than the roster size");
+  }
+  // Four distance categories (sprint, mile, medium, long)
+  if (ruleset.mapPicksPerTeam > ruleset.maxMapsPerDistance * 4) {
+    errors.push("Distance cap is too low for the number of map picks");
+  }
+
+  return errors;
+}
+
+/**
+ * Reads a ruleset from untrusted data (imported presets, shared links).
+ * Missing fields fall back to the defaults; values are not range-checked,
+ * use validateRuleset for that.
+ *
+ * @param value - Parsed JSON value
+ * @returns Ruleset, or null if any field has the wrong type
+ */
+export function parseRuleset(value: unknown): DraftRuleset | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  const ruleset: DraftRuleset = { ...DEFAULT_RULESET };
+
+  for (const key of Object.keys(RULESET_LIMITS) as NumericRulesetKey[]) {
+    const field = source[key];
+    if (field === undefined) continue;
+    if (typeof field !== "number") return null;
+    ruleset[key] = field;
+  }
+
+  const { exclusiveCharacters } = source;
+  if (exclusiveCharacters !== undefined) {
+    if (typeof exclusiveCharacters !== "boolean") return null;
+    ruleset.exclusiveCharacters = exclusiveCharacters;
+  }
+
+  return ruleset;
+}
@@ -0,0 +1,84 @@
+import type {
+  DraftRuleset,
+  DraftState,
+  ServerConfig,
+  UmaMusume,
+} from "./types";
+import { SAMPLE_UMAS } from "./data";
+
+// ─── Server Mode ───────────────────────────────────────────────────────
+// JP or Global. The server picks the course data set, and Global rooms
+// can only draft umas released on Global by the room's cut-off date.
+
+export const SERVERS: { id: ServerConfig["server"]; label: string }[] = [
+  { id: "jp", label: "JP" },
+  { id: "global", label: "Global" },
+];
+
+/**
+ * Default server: JP courses with every uma in the data draftable
+ */
+export const DEFAULT_SERVER_CONFIG: ServerConfig = { server: "jp" };
+
+/**
+ * Returns the server config a draft is played under
+ */
+export function getServerConfig(state: DraftState): ServerConfig {
+  return state.serverConfig ?? DEFAULT_SERVER_CONFIG;
+}
+
+/**
+ * Checks whether an uma is out on the room's server
+ * Umas without a release date are treated as released.
+ */
+export function isReleasedOnServer(
+  uma: UmaMusume,
+  config: ServerConfig,
+): boolean {
+  if (config.server !== "global" || !config.releaseCutoff) return true;
+  if (!uma.releaseDate) return true;
+  // Release dates are ISO timestamps, so comparing the date part is enough
+  return uma.releaseDate.slice(0, 10) <= config.releaseCutoff;
+}
+
+/**
+ * Gets the umas a room can draft
+ *
+ * @param config - Server config of the room
+ * @returns Umas released on the server by the cut-off date
+ */
+export function getServerUmas(config: ServerConfig): UmaMusume[] {
+  return SAMPLE_UMAS.filter((uma) => isReleasedOnServer(uma, config));
+}
+
+/**
+ * Checks that the server's uma pool is big enough for a ruleset
+ *
+ * @param config - Server config to validate
+ * @param ruleset - Rules the draft will be played under
+ * @returns List of human-readable problems (empty if the config is valid)
+ */
+export function validateServerConfig(
+  config: ServerConfig,
+  ruleset: DraftRuleset,
+): string[] {
+  const errors: string[] = [];
+
+  if (
+    config.releaseCutoff !== undefined &&
+    !/^\d{4}-\d{2}-\d{2}$/.test(config.releaseCutoff)
+  ) {
+    errors.push("Release cut-off must be a date (YYYY-MM-DD)");
+    return errors;
+  }
+
+  const available = getServerUmas(config).length;
+  const needed = (ruleset.umaPicksPerTeam + ruleset.preBansPerTeam) * 2;
+  if (available < needed) {
+    errors.push(
+      `Only ${available} umas are released by the cut-off (${needed} needed)`,
+    );
+  }
+
+  return errors;
+}
@@ -0,0 +1,311 @@
+/**
+ * Action Processor
+ *
+ * Standalone validator for a 5v5 room: consumes the room's pending actions
+ * (readies, resumes, picks and bans) and applies them with the draft logic.
+ * Runs outside the browser (see scripts/action-processor.ts) against the
+ * Firebase emulator or an in-memory room. Rooms without an attached processor
+ * keep the host client as the authority.
+ *
+ * Only draft actions go through it: the host client still writes team names,
+ * match reports, rollback requests and race starts to the draft state
+ * itself. Without database rules limiting who may write draftState and
+ * draftLog, the processor is not an authority either.
+ */
+
+import {
+  ref,
+  get,
+  set,
+  remove,
+  onChildAdded,
+  onDisconnect,
+  runTransaction,
+} from "firebase/database";
+import type { Database } from "firebase/database";
+
+import { buildPath } from "../config/dbPaths";
+import { applyDraftAction, isDraftAction } from "../draftActions";
+import type { DraftActionResult } from "../draftActions";
+import {
+  getRoomDraftState,
+  StaleDraftStateError,
+  writeDraftStateAt,
+} from "./roomState";
+import type { DraftState } from "../types";
+import type { DraftActionPayload } from "../types/multiplayer";
+import type {
+  FirebasePendingAction,
+  FirebaseProcessor,
+  FirebaseRoom,
+  NewDraftLogEntry,
+} from "../types/firebase";
+
+/**
+ * Room storage the processor runs against
+ */
+export interface ProcessorStore {
+  /** Reads the whole room */
+  getRoom(): Promise<FirebaseRoom | null>;
+  /** Marks the room as processed (cleared if the processor disconnects) */
+  attach(processor: FirebaseProcessor): Promise<void>;
+  /** Hands the room back to the host client */
+  detach(): Promise<void>;
+  /** Calls back once for every queued and newly queued action */
+  subscribeToPendingActions(
+    callback: (action: FirebasePendingAction) => void,
+  ): () => void;
+  /**
+   * Writes the draft state over the version it was based on, appending the
+   * action that produced it to the room's action log
+   * @throws StaleDraftStateError if the room has moved on
+   */
+  writeDraftState(
+    state: DraftState,
+    expectedVersion: number,
+    logEntry: NewDraftLogEntry,
+  ): Promise<void>;
+  removeAction(actionId: string): Promise<void>;
+}
+
+/**
+ * Store backed by a Realtime Database (e.g. the Firebase emulator)
+ *
+ * @param db - Database the processor signed in to
+ * @param roomCode - Room to process
+ */
+export function createFirebaseProcessorStore(
+  db: Database,
+  roomCode: string,
+): ProcessorStore {
+  const processorRef = ref(db, buildPath.processor(roomCode));
+
+  return {
+    async getRoom() {
+      const snapshot = await get(ref(db, buildPath.room(roomCode)));
+      return snapshot.exists() ? (snapshot.val() as FirebaseRoom) : null;
+    },
+    async attach(processor) {
+      await onDisconnect(processorRef).remove();
+      await set(processorRef, processor);
+    },
+    async detach() {
+      await onDisconnect(processorRef).cancel();
+      await remove(processorRef);
+    },
+    subscribeToPendingActions(callback) {
+      return onChildAdded(
+        ref(db, buildPath.pendingActions(roomCode)),
+        (snapshot) => {
+          if (snapshot.exists()) {
+            callback(snapshot.val() as FirebasePendingAction);
+          }
+        },
+      );
+    },
+    async writeDraftState(state, expectedVersion, logEntry) {
+      const result = await runTransaction(
+        ref(db, buildPath.room(roomCode)),
+        (current) => {
+          const room = current as FirebaseRoom | null;
+          // Nothing cached yet; Firebase retries with the server value
+          if (!room) return room;
+          return writeDraftStateAt(room, state, expectedVersion, logEntry);
+        },
+      );
+      if (!result.committed) {
+        throw new StaleDraftStateError(
+          expectedVersion,
+          result.snapshot.val() as FirebaseRoom | null,
+        );
+      }
+    },
+    async removeAction(actionId) {
+      await remove(
+        ref(db, `${buildPath.pendingActions(roomCode)}/${actionId}`),
+      );
+    },
+  };
+}
+
+/**
+ * In-memory store standing in for the database
+ */
+export interface MemoryProcessorStore extends ProcessorStore {
+  /** Current room contents */
+  readonly room: FirebaseRoom;
+  /** Queues an action as if a player had sent it */
+  sendAction(senderId: string, action: DraftActionPayload): void;
+}
+
+/**
+ * Store holding a room in memory, for running the processor without Firebase
+ *
+ * @param room - Initial room contents
+ */
+export function createMemoryProcessorStore(
+  room: FirebaseRoom,
+): MemoryProcessorStore {
+  const pendingActions: Record<string, FirebasePendingAction> = {};
+  const listeners = new Set<(action: FirebasePendingAction) => void>();
+  let nextActionId = 0;
+
+  const store: MemoryProcessorStore = {
+    room: structuredClone(room),
+    async getRoom() {
+      return structuredClone(store.room);
+    },
+    async attach(processor) {
+      store.room.processor = processor;
+    },
+    async detach() {
+      delete store.room.processor;
+    },
+    subscribeToPendingActions(callback) {
+      listeners.add(callback);
+      Object.values(pendingActions).forEach(callback);
+      return () => listeners.delete(callback);
+    },
+    async writeDraftState(state, expectedVersion, logEntry) {
+      const updated = writeDraftStateAt(
+        store.room,
+        state,
+        expectedVersion,
+        logEntry,
+      );
+      if (!updated) throw new StaleDraftStateError(expectedVersion, store.room);
+      Object.assign(store.room, structuredClone(updated));
+    },
+    async removeAction(actionId) {
+      delete pendingActions[actionId];
+    },
+    sendAction(senderId, action) {
+      const pendingAction: FirebasePendingAction = {
+        id: `action-${nextActionId++}`,
+        senderId,
+        action,
+        timestamp: Date.now(),
+      };
+      pendingActions[pendingAction.id] = pendingAction;
+      listeners.forEach((listener) => listener(pendingAction));
+    },
+  };
+  return store;
+}
+
+/** Times an action is re-applied after losing a write to another writer */
+const MAX_STALE_WRITE_RETRIES = 3;
+
+export interface ActionProcessorOptions {
+  /** Id written to the room while attached */
+  processorId?: string;
+  /** Called after each draft action is applied or rejected */
+  onAction?: (action: FirebasePendingAction, result: DraftActionResult) => void;
+}
+
+/**
+ * Running processor
+ */
+export interface ActionProcessor {
+  /** Resolves once every action received so far has been handled */
+  idle(): Promise<void>;
+  /** Finishes queued actions, then detaches from the room */
+  stop(): Promise<void>;
+}
+
+/**
+ * Attaches to a room and starts applying its draft actions
+ *
+ * Actions are applied one at a time in the order they were queued. Team
+ * names and match reports are left in the queue for the host client.
+ *
+ * @throws If the room doesn't exist or isn't a 5v5 room
+ */
+export async function startActionProcessor(
+  store: ProcessorStore,
+  options: ActionProcessorOptions = {},
+): Promise<ActionProcessor> {
+  const room = await store.getRoom();
+  if (!room) throw new Error("Room not found");
+  if (room.format !== "5v5") {
+    throw new Error("The action processor only runs 5v5 drafts");
+  }
+
+  await store.attach({
+    id: options.processorId ?? `processor-${Date.now()}`,
+    attachedAt: Date.now(),
+  });
+
+  let queue = Promise.resolve();
+
+  /**
+   * Applies an action to the latest room contents and writes the result,
+   * starting over if another writer got in first
+   */
+  const applyToLatest = async (
+    pendingAction: FirebasePendingAction,
+  ): Promise<DraftActionResult | null> => {
+    for (let attempt = 0; ; attempt++) {
+      const current = await store.getRoom();
+      const state = current && getRoomDraftState(current);
+      if (!current || !state) return null;
+
+      const team = current.players?.[pendingAction.senderId]?.team;
+      if (team !== "team1" && team !== "team2") {
+        return { ok: false, reason: "Sender isn't seated in the room" };
+      }
+      const hostTeam = current.players?.[current.hostId]?.team;
+      const result = applyDraftAction(
+        state,
+        pendingAction.action,
+        team,
+        hostTeam === "team1" || hostTeam === "team2" ? hostTeam : undefined,
+      );
+      if (!result.ok) return result;
+
+      try {
+        await store.writeDraftState(result.state, current.version, {
+          actor: pendingAction.senderId,
+          team,
+          action: pendingAction.action,
+          phase: state.phase,
+          timestamp: Date.now(),
+        });
+        return result;
+      } catch (err) {
+        if (
+          !(err instanceof StaleDraftStateError) ||
+          attempt >= MAX_STALE_WRITE_RETRIES
+        ) {
+          throw err;
+        }
+      }
+    }
+  };
+
+  const processAction = async (pendingAction: FirebasePendingAction) => {
+    const result = await applyToLatest(pendingAction);
+    if (!result) return;
+
+    await store.removeAction(pendingAction.id);
+    options.onAction?.(pendingAction, result);
+  };
+
+  const unsubscribe = store.subscribeToPendingActions((pendingAction) => {
+    if (!isDraftAction(pendingAction.action)) return;
+    queue = queue
+      .then(() => processAction(pendingAction))
+      .catch((err) => {
+        console.error("Error processing action:", pendingAction.id, err);
+      });
+  });
+
+  return {
+    idle: () => queue,
+    async stop() {
+      unsubscribe();
+      await queue;
+      await store.detach();
+    },
+  };
+}
@@ -22,10 +22,25 @@ import type { Unsubscribe } from "firebase/database";
 import { signInAnonymously, onAuthStateChanged } from "firebase/auth";
 import type { User } from "firebase/auth";
 
-import { db, auth, buildPath } from "../config/firebase";
+import { db, auth } from "../config/firebase";
+import { buildPath } from "../config/dbPaths";
 import { generateRoomCode, validateRoomCode } from "../utils/roomCode";
 import { getInitialDraftState } from "../draftLogic";
-import type { DraftState } from "../types";
+import { getInitialDraftState3v3v3 } from "../draftLogic3v3v3";
+import {
+  getRoomDraftState,
+  normalizeDraftState,
+  normalizeDraftState3v3v3,
+  rollbackDraftAt,
+  sanitizeForFirebase,
+  StaleDraftStateError,
+  writeDraftState3v3v3At,
+  writeDraftStateAt,
+  writeRulesetAt,
+} from "./roomState";
+import { ROOM_LIMITS } from "../config/multiplayer";
+import type { DraftRollback, DraftRuleset, DraftState, Team } from "../types";
+import type { DraftState3v3v3, Team3v3v3 } from "../types3v3v3";
 import type { DraftActionPayload } from "../types/multiplayer";
 import type {
   FirebaseRoom,
@@ -35,10 +50,14 @@ import type {
   PendingSelections,
   CreateRoomData,
   JoinRoomData,
+  NewDraftLogEntry,
   RoomOperationResult,
   RoomSubscriptionCallbacks,
 } from "../types/firebase";
 
+/** Version of a newly created room */
+export const INITIAL_ROOM_VERSION = 1;
+
 /**
  * Signs in anonymously and returns the user
  * Firebase anonymous auth provides a unique UID for each user
@@ -69,44 +88,31 @@ export function subscribeToAuthState(
 }
 
 /**
- * Normalizes draft state loaded from Firebase
- * Firebase doesn't store empty arrays, so we need to restore them
+ * Seats a joining player in a room
+ * 5v5 rooms have a single opponent seat (team2); 3v3v3 rooms fill team2
+ * then team3.
+ *
+ * @returns The free team, or null if every seat is taken
  */
-function normalizeDraftState(state: Partial<DraftState>): DraftState {
-  const defaultTeamData = {
-    pickedUmas: [],
-    bannedUmas: [],
-    pickedMaps: [],
-    bannedMaps: [],
-  };
-
-  return {
-    ...getInitialDraftState(),
-    ...state,
-    team1: {
-      ...defaultTeamData,
-      ...(state.team1 || {}),
-    },
-    team2: {
-      ...defaultTeamData,
-      ...(state.team2 || {}),
-    },
-    availableUmas: state.availableUmas || [],
-    availableMaps: state.availableMaps || [],
-  } as DraftState;
-}
+function getOpenSeat(
+  format: FirebaseRoom["format"],
+  players: Record<string, FirebasePlayer>,
+  hostId: string,
+): Team3v3v3 | null {
+  const opponents = Object.values(players).filter(
+    (entry) => entry.id !== hostId && entry.type !== "host",
+  );
 
-function sanitizeForFirebase(obj: unknown): unknown {
-  if (obj === null || obj === undefined) return null;
-  if (Array.isArray(obj)) return obj.map(sanitizeForFirebase);
-  if (typeof obj === "object") {
-    const out: Record<string, unknown> = {};
-    for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
-      if (v !== undefined) out[k] = sanitizeForFirebase(v);
-    }
-    return out;
+  if (format === "5v5") {
+    return opponents.length === 0 ? "team2" : null;
   }
-  return obj;
+
+  if (opponents.length >= ROOM_LIMITS.MAX_PLAYERS_3V3V3 - 1) return null;
+  const seats: Team3v3v3[] = ["team2", "team3"];
+  return (
+    seats.find((seat) => !opponents.some((entry) => entry.team === seat)) ??
+    null
+  );
 }
 
 /**
@@ -123,8 +129,13 @@ export async function createRoom(
     const user = await signInAnonymouslyIfNeeded();
     const roomCode = generateRoomCode();
 
+    const is3v3v3 = data.format === "3v3v3";
+
     // Generate initial draft state
     const initialDraftState = data.initialDraftState ?? getInitialDraftState();
+    const ruleset = is3v3v3
+      ? undefined
+      : (data.ruleset ?? initialDraftState.ruleset);
 
     // Create host player entry
     const hostPlayer: FirebasePlayer = {
@@ -151,10 +162,20 @@ export async function createRoom(
         [user.uid]: hostPlayer,
       },
       spectators: {},
-      draftState: initialDraftState,
-      version: 1,
+      version: INITIAL_ROOM_VERSION,
     };
 
+    if (is3v3v3) {
+      room.team3Name = data.team3Name ?? "Team 3";
+      room.draftState3v3v3 =
+        data.initialDraftState3v3v3 ?? getInitialDraftState3v3v3();
+    } else {
+      room.draftState = ruleset
+        ? { ...initialDraftState, ruleset }
+        : initialDraftState;
+      room.ruleset = ruleset;
+    }
+
     // Write to database
     const roomRef = ref(db, buildPath.room(roomCode));
     await set(roomRef, sanitizeForFirebase(room));
@@ -209,8 +230,13 @@ export async function joinRoom(
       return { success: false, error: "This draft has already completed" };
     }
 
-    // If trying to join as host, verify this is the original host
-    if (data.connectionType === "host" && room.hostId !== user.uid) {
+    // If trying to join as host, verify this is the original host (a host
+    // whose seat was handed over while offline rejoins it as a player)
+    if (
+      data.connectionType === "host" &&
+      room.hostId !== user.uid &&
+      !room.players?.[user.uid]
+    ) {
       return { success: false, error: "Not authorized as host" };
     }
 
@@ -224,16 +250,16 @@ export async function joinRoom(
       return { success: true };
     }
 
-    if (data.connectionType === "player") {
-      const activeOpponent = Object.values(room.players || {}).find(
-        (player) => player.id !== room.hostId && player.type !== "host",
-      );
-      if (activeOpponent) {
-        return {
-          success: false,
-          error: "This room already has a player. Use the spectator link instead.",
-        };
-      }
+    const roomFullError =
+      room.format === "3v3v3"
+        ? "This room already has three teams. Use the spectator link instead."
+        : "This room already has a player. Use the spectator link instead.";
+
+    if (
+      data.connectionType === "player" &&
+      !getOpenSeat(room.format, room.players || {}, room.hostId)
+    ) {
+      return { success: false, error: roomFullError };
     }
 
     // Create player entry (omit team for spectators — Firebase rejects undefined)
@@ -260,26 +286,26 @@ export async function joinRoom(
           return players;
         }
 
-        const hasExistingPlayer =
-          data.connectionType === "player" &&
-          Object.values(players).some(
-            (entry) => entry.id !== room.hostId && entry.type !== "host",
-          );
-        if (hasExistingPlayer) {
+        if (data.connectionType === "host") {
+          return { ...players, [user.uid]: player };
+        }
+
+        // Seat is chosen inside the transaction so simultaneous joins
+        // can't land on the same team
+        const seat = getOpenSeat(room.format, players, room.hostId);
+        if (!seat) {
           return;
         }
 
         return {
           ...players,
-          [user.uid]: player,
+          [user.uid]:
+            room.format === "3v3v3" ? { ...player, team: seat } : player,
         };
       });
 
       if (!joinResult.committed) {
-        return {
-          success: false,
-          error: "This room already has a player. Use the spectator link instead.",
-        };
+        return { success: false, error: roomFullError };
       }
     } else {
       const path = `${buildPath.spectators(data.roomCode)}/${user.uid}`;
@@ -360,6 +386,50 @@ export async function setupPresence(
   });
 }
 
+/**
+ * Hands the host role to another seated player
+ * Runs as a transaction on the room so it only commits if the former host is
+ * still the host and still offline; if two players race, one claim wins.
+ *
+ * @param roomCode - Room to migrate
+ * @param formerHostId - Host that went offline
+ * @param newHostId - Player taking over action processing and timers
+ * @returns true if this call made newHostId the host
+ */
+export async function claimHost(
+  roomCode: string,
+  formerHostId: string,
+  newHostId: string,
+): Promise<boolean> {
+  const roomRef = ref(db, buildPath.room(roomCode));
+  const result = await runTransaction(roomRef, (current) => {
+    const room = current as FirebaseRoom | null;
+    // Nothing cached yet; Firebase retries with the server value
+    if (!room) return room;
+
+    const formerHost = room.players?.[formerHostId];
+    const newHost = room.players?.[newHostId];
+    if (room.hostId !== formerHostId || !newHost || formerHost?.connected) {
+      return;
+    }
+
+    const players: Record<string, FirebasePlayer> = {
+      ...room.players,
+      [newHostId]: { ...newHost, type: "host" },
+    };
+    if (formerHost) {
+      players[formerHostId] = { ...formerHost, type: "player" };
+    }
+
+    return { ...room, hostId: newHostId, players, updatedAt: Date.now() };
+  });
+
+  return (
+    result.committed &&
+    (result.snapshot.val() as FirebaseRoom | null)?.hostId === newHostId
+  );
+}
+
 /**
  * Subscribes to room updates
  *
@@ -378,15 +448,23 @@ export function subscribeToRoom(
     (snapshot) => {
       if (snapshot.exists()) {
         const room = snapshot.val() as FirebaseRoom;
-        // Normalize draftState to restore empty arrays
+        // Normalize draftState to restore empty arrays, replaying the draft
+        // from the action log once there is one
         const normalizedRoom = {
           ...room,
-          draftState: room.draftState
-            ? normalizeDraftState(room.draftState)
-            : room.draftState,
+          draftState: getRoomDraftState(room),
+          draftState3v3v3: room.draftState3v3v3
+            ? normalizeDraftState3v3v3(room.draftState3v3v3)
+            : room.draftState3v3v3,
         };
+        // The room-level ruleset is authoritative for every client
+        if (normalizedRoom.draftState && room.ruleset) {
+          normalizedRoom.draftState.ruleset = room.ruleset;
+        }
         callbacks.onRoomUpdate?.(normalizedRoom);
-        callbacks.onDraftStateUpdate?.(normalizedRoom.draftState);
+        if (normalizedRoom.draftState) {
+          callbacks.onDraftStateUpdate?.(normalizedRoom.draftState);
+        }
         callbacks.onPlayersUpdate?.(room.players);
       }
     },
@@ -422,49 +500,108 @@ export function subscribeToDraftState(
 
 /**
  * Updates the draft state (host only)
+ * Written in one transaction that only succeeds if nobody else has written
+ * since expectedVersion, so racing writers can't silently overwrite each other.
  *
  * @param roomCode - Room to update
  * @param newState - New draft state
+ * @param expectedVersion - Room version newState was based on
+ * @param logEntry - Draft action that produced newState, appended to the
+ * room's action log in the same write
+ * @returns The room as written, or null if the state wasn't written
+ * @throws StaleDraftStateError if the room is no longer at expectedVersion
  */
 export async function updateDraftState(
   roomCode: string,
   newState: DraftState,
-): Promise<void> {
+  expectedVersion: number,
+  logEntry?: NewDraftLogEntry,
+): Promise<FirebaseRoom | null> {
   // Never write the local-only "reconnecting" phase to Firebase
   if ((newState as { phase?: string }).phase === "reconnecting") {
     console.warn("Blocked writing 'reconnecting' phase to Firebase");
-    return;
+    return null;
   }
 
-  const roomRef = ref(db, buildPath.room(roomCode));
-  const versionRef = ref(db, `${buildPath.room(roomCode)}/version`);
+  const result = await runTransaction(
+    ref(db, buildPath.room(roomCode)),
+    (current) => {
+      const room = current as FirebaseRoom | null;
+      // Nothing cached yet; Firebase retries with the server value
+      if (!room) return room;
+      return writeDraftStateAt(room, newState, expectedVersion, logEntry);
+    },
+  );
 
-  // Atomically increment version using a transaction
-  let newVersion = 1;
-  await runTransaction(versionRef, (currentVersion) => {
-    newVersion = (currentVersion || 0) + 1;
-    return newVersion;
-  });
+  const room = result.snapshot.val() as FirebaseRoom | null;
+  if (!room) throw new Error("Room not found");
+  if (!result.committed) throw new StaleDraftStateError(expectedVersion, room);
+  return room;
+}
 
-  // Strip undefined values recursively — Firebase rejects undefined
-  const sanitize = (obj: unknown): unknown => {
-    if (obj === null || obj === undefined) return null;
-    if (Array.isArray(obj)) return obj.map(sanitize);
-    if (typeof obj === "object") {
-      const out: Record<string, unknown> = {};
-      for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
-        if (v !== undefined) out[k] = sanitize(v);
-      }
-      return out;
-    }
-    return obj;
-  };
+/**
+ * Rolls the draft back to a step the opponent agreed to (host only)
+ * Applied in one transaction on top of whatever the room holds, so a write
+ * that lands first is rolled back along with the rest.
+ *
+ * @param roomCode - Room to update
+ * @param request - Rollback the opponent agreed to
+ * @param actor - Id of the host applying it
+ * @param team - Host's seat
+ * @returns The room as written
+ * @throws If the room doesn't exist or has nothing to roll back to
+ */
+export async function rollbackDraft(
+  roomCode: string,
+  request: DraftRollback,
+  actor: string,
+  team: Team,
+): Promise<FirebaseRoom> {
+  const result = await runTransaction(
+    ref(db, buildPath.room(roomCode)),
+    (current) => {
+      const room = current as FirebaseRoom | null;
+      // Nothing cached yet; Firebase retries with the server value
+      if (!room) return room;
+      return rollbackDraftAt(room, request, actor, team);
+    },
+  );
 
-  // Update draft state and timestamp (version already set by transaction)
-  await update(roomRef, {
-    draftState: sanitize(newState),
-    updatedAt: Date.now(),
-  });
+  const room = result.snapshot.val() as FirebaseRoom | null;
+  if (!room) throw new Error("Room not found");
+  if (!result.committed) throw new Error("Nothing to roll back to");
+  return room;
+}
+
+/**
+ * Updates the 3v3v3 draft state (host only)
+ * Conditional on expectedVersion like updateDraftState.
+ *
+ * @param roomCode - Room to update
+ * @param newState - New 3v3v3 draft state
+ * @param expectedVersion - Room version newState was based on
+ * @returns The room as written
+ * @throws StaleDraftStateError if the room is no longer at expectedVersion
+ */
+export async function updateDraftState3v3v3(
+  roomCode: string,
+  newState: DraftState3v3v3,
+  expectedVersion: number,
+): Promise<FirebaseRoom> {
+  const result = await runTransaction(
+    ref(db, buildPath.room(roomCode)),
+    (current) => {
+      const room = current as FirebaseRoom | null;
+      // Nothing cached yet; Firebase retries with the server value
+      if (!room) return room;
+      return writeDraftState3v3v3At(room, newState, expectedVersion);
+    },
+  );
+
+  const room = result.snapshot.val() as FirebaseRoom | null;
+  if (!room) throw new Error("Room not found");
+  if (!result.committed) throw new StaleDraftStateError(expectedVersion, room);
+  return room;
 }
 
 /**
@@ -543,6 +680,20 @@ export async function getRoom(roomCode: string): Promise<FirebaseRoom | null> {
   return snapshot.exists() ? (snapshot.val() as FirebaseRoom) : null;
 }
 
+/**
+ * Reads a room's draft format so joiners can open the matching draft screen
+ *
+ * @param roomCode - Room to look up
+ * @returns The room's format, or null if the room doesn't exist
+ */
+export async function getRoomFormat(
+  roomCode: string,
+): Promise<FirebaseRoom["format"] | null> {
+  await signInAnonymouslyIfNeeded();
+  const snapshot = await get(ref(db, `${buildPath.room(roomCode)}/format`));
+  return snapshot.exists() ? (snapshot.val() as FirebaseRoom["format"]) : null;
+}
+
 /**
  * Updates player/spectator last seen timestamp
  *
@@ -568,19 +719,55 @@ export async function updateLastSeen(
  * @param roomCode - Room to update
  * @param team1Name - New team 1 name
  * @param team2Name - New team 2 name
+ * @param team3Name - New team 3 name (3v3v3 only)
  */
 export async function updateTeamNames(
   roomCode: string,
   team1Name: string,
   team2Name: string,
+  team3Name?: string,
 ): Promise<void> {
   await update(ref(db, buildPath.room(roomCode)), {
     team1Name,
     team2Name,
+    ...(team3Name !== undefined ? { team3Name } : {}),
     updatedAt: Date.now(),
   });
 }
 
+/**
+ * Updates the room ruleset (host only, before the draft starts).
+ * Written to the room and its draft state in one transaction so clients
+ * never see the two disagree, conditional on expectedVersion like
+ * updateDraftState.
+ *
+ * @param roomCode - Room to update
+ * @param ruleset - New ruleset
+ * @param expectedVersion - Room version the change was based on
+ * @returns The room as written
+ * @throws StaleDraftStateError if the room is no longer at expectedVersion
+ */
+export async function updateRoomRuleset(
+  roomCode: string,
+  ruleset: DraftRuleset,
+  expectedVersion: number,
+): Promise<FirebaseRoom> {
+  const result = await runTransaction(
+    ref(db, buildPath.room(roomCode)),
+    (current) => {
+      const room = current as FirebaseRoom | null;
+      // Nothing cached yet; Firebase retries with the server value
+      if (!room) return room;
+      return writeRulesetAt(room, ruleset, expectedVersion);
+    },
+  );
+
+  const room = result.snapshot.val() as FirebaseRoom | null;
+  if (!room) throw new Error("Room not found");
+  if (!result.committed) throw new StaleDraftStateError(expectedVersion, room);
+  return room;
+}
+
 /**
  * Updates room status
  *
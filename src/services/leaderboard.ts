@@ -1,6 +1,7 @@
 import { onValue, ref } from "firebase/database";
 import type { Unsubscribe } from "firebase/database";
-import { buildPath, db } from "../config/firebase";
+import { db } from "../config/firebase";
+import { buildPath } from "../config/dbPaths";
 
 export interface LeaderboardEntry {
   discordUserId: string;
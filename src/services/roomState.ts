@@ -0,0 +1,366 @@
+/**
+ * Room State
+ *
+ * Converts draft state to and from the form stored in the Realtime Database.
+ * Free of browser-only imports so the action processor can share it.
+ */
+
+import { getInitialDraftState } from "../draftLogic";
+import { getInitialDraftState3v3v3 } from "../draftLogic3v3v3";
+import type { DraftRollback, DraftRuleset, DraftState, Team } from "../types";
+import type { DraftState3v3v3 } from "../types3v3v3";
+import type {
+  FirebaseDraftLog,
+  FirebaseDraftLogEntry,
+  FirebaseRoom,
+  NewDraftLogEntry,
+} from "../types/firebase";
+import {
+  buildRollbackAction,
+  getRollbackTarget,
+  replayDraftLog,
+} from "../draftLog";
+import { buildPickOrderFromLog } from "../utils/pickOrder";
+
+/**
+ * Normalizes draft state loaded from Firebase
+ * Firebase doesn't store empty arrays, so we need to restore them
+ */
+export function normalizeDraftState(state: Partial<DraftState>): DraftState {
+  const defaultTeamData = {
+    pickedUmas: [],
+    bannedUmas: [],
+    pickedMaps: [],
+    bannedMaps: [],
+  };
+
+  return {
+    ...getInitialDraftState(),
+    ...state,
+    team1: {
+      ...defaultTeamData,
+      ...(state.team1 || {}),
+    },
+    team2: {
+      ...defaultTeamData,
+      ...(state.team2 || {}),
+    },
+    availableUmas: state.availableUmas || [],
+    availableMaps: state.availableMaps || [],
+    // Never fall back to a fresh seed: it wouldn't match the rolls
+    seed: state.seed,
+  } as DraftState;
+}
+
+/**
+ * Normalizes 3v3v3 draft state loaded from Firebase
+ * Firebase doesn't store empty arrays, so we need to restore them
+ */
+export function normalizeDraftState3v3v3(
+  state: Partial<DraftState3v3v3>,
+): DraftState3v3v3 {
+  const defaultTeamData = {
+    pickedUmas: [],
+    bannedUmas: [],
+    pickedCards: [],
+  };
+
+  return {
+    ...getInitialDraftState3v3v3(),
+    ...state,
+    team1: { ...defaultTeamData, ...(state.team1 || {}) },
+    team2: { ...defaultTeamData, ...(state.team2 || {}) },
+    team3: { ...defaultTeamData, ...(state.team3 || {}) },
+    availableUmas: state.availableUmas || [],
+    preBannedCards: state.preBannedCards || [],
+    pickedCards: state.pickedCards || [],
+    availableCards: state.availableCards || [],
+  };
+}
+
+/**
+ * Strips undefined values recursively — Firebase rejects undefined
+ */
+export function sanitizeForFirebase(obj: unknown): unknown {
+  if (obj === null || obj === undefined) return null;
+  if (Array.isArray(obj)) return obj.map(sanitizeForFirebase);
+  if (typeof obj === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(obj as Record<string, unknown>)) {
+      if (v !== undefined) out[k] = sanitizeForFirebase(v);
+    }
+    return out;
+  }
+  return obj;
+}
+
+/**
+ * A draft state write was based on an outdated room version
+ * Another writer got in first; `latest` is what the room holds now.
+ */
+export class StaleDraftStateError extends Error {
+  /** Version the write expected to replace */
+  readonly expectedVersion: number;
+  /** Version the room is actually at */
+  readonly currentVersion: number;
+  /** Draft state of the winning write */
+  readonly latest: DraftState | null;
+  /** 3v3v3 draft state of the winning write */
+  readonly latest3v3v3: DraftState3v3v3 | null;
+
+  constructor(expectedVersion: number, room: FirebaseRoom | null) {
+    const currentVersion = room?.version ?? 0;
+    super(
+      `Draft state is at version ${currentVersion}, expected ${expectedVersion}`,
+    );
+    this.name = "StaleDraftStateError";
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+    this.latest = room?.draftState
+      ? normalizeDraftState(room.draftState)
+      : null;
+    this.latest3v3v3 = room?.draftState3v3v3
+      ? normalizeDraftState3v3v3(room.draftState3v3v3)
+      : null;
+  }
+}
+
+/**
+ * Normalizes a room's action log loaded from Firebase
+ *
+ * @returns Base state and entries ordered by seq, or null if nothing has
+ * been logged yet
+ */
+export function normalizeDraftLog(
+  log: FirebaseDraftLog | undefined,
+): { base: DraftState; entries: FirebaseDraftLogEntry[] } | null {
+  if (!log?.base) return null;
+  return {
+    base: normalizeDraftState(log.base),
+    // Firebase returns arrays with missing indexes as objects
+    entries: Object.values(log.entries ?? {}).sort((a, b) => a.seq - b.seq),
+  };
+}
+
+/**
+ * Replayed team with the conditions the stored team's picked maps carry
+ * Race-time policies roll a map's conditions when its race comes up, which
+ * isn't a logged action, so the replay leaves them empty.
+ */
+function withStoredConditions(
+  replayed: DraftState["team1"],
+  stored: DraftState["team1"],
+): DraftState["team1"] {
+  return {
+    ...replayed,
+    pickedMaps: replayed.pickedMaps.map((map) => {
+      if (map.conditions) return map;
+      const conditions = stored.pickedMaps.find(
+        (m) => m.id === map.id,
+      )?.conditions;
+      return conditions ? { ...map, conditions } : map;
+    }),
+  };
+}
+
+/**
+ * Stored draft state with the parts the action log decides replaced by a
+ * replayed state
+ */
+function mergeReplayedDraft(stored: DraftState, replayed: DraftState) {
+  return {
+    ...stored,
+    phase: replayed.phase,
+    currentTeam: replayed.currentTeam,
+    team1: withStoredConditions(replayed.team1, stored.team1),
+    team2: withStoredConditions(replayed.team2, stored.team2),
+    availableUmas: replayed.availableUmas,
+    availableMaps: replayed.availableMaps,
+    team1Ready: replayed.team1Ready,
+    team2Ready: replayed.team2Ready,
+  };
+}
+
+/**
+ * Draft state of a room, replayed from its action log
+ * The log decides the draft itself (phase, turn, picks, bans and ready
+ * flags); what it doesn't record, like team names, the turn length and match
+ * reports, comes from the stored state.
+ */
+export function getRoomDraftState(room: FirebaseRoom): DraftState | undefined {
+  if (!room.draftState) return undefined;
+  const stored = normalizeDraftState(room.draftState);
+  const log = normalizeDraftLog(room.draftLog);
+  if (!log) return stored;
+
+  return mergeReplayedDraft(
+    stored,
+    replayDraftLog(log.base, log.entries).state,
+  );
+}
+
+/**
+ * Transaction update that writes a draft state over the expected version
+ *
+ * When the write applies a draft action, the action is appended to the
+ * room's log in the same update (the first one also records the state it
+ * was applied to as the log's base). The pick order summary of a draft
+ * completed this way is built from the log.
+ *
+ * @param room - Room as currently stored
+ * @param newState - Draft state to write
+ * @param expectedVersion - Room version the new state was based on
+ * @param logEntry - Draft action that produced newState, if any
+ * @returns The updated room, or undefined to abort if the room moved on
+ */
+export function writeDraftStateAt(
+  room: FirebaseRoom,
+  newState: DraftState,
+  expectedVersion: number,
+  logEntry?: NewDraftLogEntry,
+): FirebaseRoom | undefined {
+  if ((room.version ?? 0) !== expectedVersion) return undefined;
+
+  let state = newState;
+  let draftLog = room.draftLog;
+  if (logEntry) {
+    const log = normalizeDraftLog(room.draftLog) ?? {
+      base: normalizeDraftState(room.draftState ?? {}),
+      entries: [],
+    };
+    const entries = [...log.entries, { ...logEntry, seq: log.entries.length }];
+    draftLog = { base: log.base, entries };
+
+    if (state.phase === "complete" && !state.pickOrderHistoryText) {
+      state = {
+        ...state,
+        pickOrderHistoryText: buildPickOrderFromLog(
+          log.base,
+          entries,
+          state.multiplayer?.team1Name || room.team1Name,
+          state.multiplayer?.team2Name || room.team2Name,
+        ),
+      };
+    }
+  }
+
+  return {
+    ...room,
+    draftState: sanitizeForFirebase(state) as DraftState,
+    ...(draftLog && {
+      draftLog: sanitizeForFirebase(draftLog) as FirebaseDraftLog,
+    }),
+    version: expectedVersion + 1,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Transaction update that writes a 3v3v3 draft state over the expected
+ * version
+ *
+ * @param room - Room as currently stored
+ * @param newState - 3v3v3 draft state to write
+ * @param expectedVersion - Room version the new state was based on
+ * @returns The updated room, or undefined to abort if the room moved on
+ */
+export function writeDraftState3v3v3At(
+  room: FirebaseRoom,
+  newState: DraftState3v3v3,
+  expectedVersion: number,
+): FirebaseRoom | undefined {
+  if ((room.version ?? 0) !== expectedVersion) return undefined;
+  return {
+    ...room,
+    draftState3v3v3: sanitizeForFirebase(newState) as DraftState3v3v3,
+    version: expectedVersion + 1,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Transaction update that writes the room ruleset over the expected version
+ * Written to the room and its draft state together so clients never see the
+ * two disagree.
+ *
+ * @param room - Room as currently stored
+ * @param ruleset - New ruleset
+ * @param expectedVersion - Room version the change was based on
+ * @returns The updated room, or undefined to abort if the room moved on
+ */
+export function writeRulesetAt(
+  room: FirebaseRoom,
+  ruleset: DraftRuleset,
+  expectedVersion: number,
+): FirebaseRoom | undefined {
+  if ((room.version ?? 0) !== expectedVersion) return undefined;
+  return {
+    ...room,
+    ruleset,
+    ...(room.draftState && {
+      draftState: { ...room.draftState, ruleset },
+    }),
+    version: expectedVersion + 1,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Transaction update that rolls a room's draft back to an agreed step
+ *
+ * The rollback is appended to the action log and the draft state is
+ * rewritten from the replay, so every client (spectators included) picks it
+ * up from the room like any other write. A finished draft's pick order
+ * summary is dropped since the draft is playing again.
+ *
+ * @param room - Room as currently stored
+ * @param request - Rollback the opponent agreed to
+ * @param actor - Id of the player applying it
+ * @param team - Seat of the player applying it
+ * @returns The updated room, or undefined to abort if there is nothing to
+ * roll back to
+ */
+export function rollbackDraftAt(
+  room: FirebaseRoom,
+  request: DraftRollback,
+  actor: string,
+  team: Team,
+): FirebaseRoom | undefined {
+  const log = normalizeDraftLog(room.draftLog);
+  const stored = getRoomDraftState(room);
+  if (!log || !stored) return undefined;
+
+  const target = getRollbackTarget(
+    replayDraftLog(log.base, log.entries),
+    request.step,
+  );
+  if (target === null) return undefined;
+
+  const entries = [
+    ...log.entries,
+    {
+      seq: log.entries.length,
+      actor,
+      team,
+      action: buildRollbackAction(target),
+      phase: stored.phase,
+      timestamp: Date.now(),
+    },
+  ];
+  const state: DraftState = {
+    ...mergeReplayedDraft(stored, replayDraftLog(log.base, entries).state),
+    pickOrderHistoryText: undefined,
+    rollback: { ...request, status: "applied" },
+  };
+
+  return {
+    ...room,
+    draftState: sanitizeForFirebase(state) as DraftState,
+    draftLog: sanitizeForFirebase({
+      base: log.base,
+      entries,
+    }) as FirebaseDraftLog,
+    version: (room.version ?? 0) + 1,
+    updatedAt: Date.now(),
+  };
+}
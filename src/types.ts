@@ -1,8 +1,76 @@
+/** Aptitude grade, best (S) to worst (G) */
+export type AptitudeGrade = "S" | "A" | "B" | "C" | "D" | "E" | "F" | "G";
+
+/**
+ * Surface, distance and running style aptitudes of an uma
+ * Keys follow TerumiCharacterData.json (aptitudeTurf → turf, ...).
+ */
+export interface UmaAptitudes {
+  turf: AptitudeGrade;
+  dirt: AptitudeGrade;
+  short: AptitudeGrade;
+  mile: AptitudeGrade;
+  middle: AptitudeGrade;
+  long: AptitudeGrade;
+  runner: AptitudeGrade;
+  leader: AptitudeGrade;
+  betweener: AptitudeGrade;
+  chaser: AptitudeGrade;
+}
+
+export interface UmaStats {
+  speed: number;
+  stamina: number;
+  power: number;
+  guts: number;
+  wit: number;
+}
+
 export interface UmaMusume {
   id: string;
+  /** Character shared by every outfit of the same uma */
+  charaId?: number;
   name: string;
   title?: string;
   imageUrl?: string;
+  /** Global release date (ISO, from startDate in TerumiCharacterData.json) */
+  releaseDate?: string;
+  aptitudes?: UmaAptitudes;
+  /** Starting stats before training */
+  baseStats?: UmaStats;
+  /** Unique and innate skills (ids in TerumiSimpleSkillData.json) */
+  skillIds?: number[];
+}
+
+/**
+ * One activation of a skill
+ * Raw conditions look like "distance_rate>=50&order_rate>50", see
+ * utils/skillConditions.ts for the readable form.
+ */
+export interface SkillActivation {
+  condition: string;
+  /** Must have held earlier in the race for the condition to count */
+  precondition?: string;
+  /** e.g. "Target Speed +0.15" */
+  effectSummary: string;
+  /** Base duration in seconds (0 for instant effects, negative for passives) */
+  duration: number;
+}
+
+/**
+ * Skill from TerumiSimpleSkillData.json
+ */
+export interface Skill {
+  id: number;
+  name: string;
+  description: string;
+  /** 1 normal, 2 gold, 3-5 unique (inherited uniques are 1) */
+  rarity: number;
+  /** "Unique", "Speed Boost", "Recovery", ... */
+  category: string;
+  /** Skill point cost (0 for an uma's own unique) */
+  cost: number;
+  activations: SkillActivation[];
 }
 
 export interface TrackConditions {
@@ -11,8 +79,34 @@ export interface TrackConditions {
   weather: "Sunny" | "Cloudy" | "Rainy" | "Snowy";
 }
 
+/**
+ * How track conditions are rolled for a draft
+ * Weights are relative (they don't need to add up to 100); a weight of 0
+ * rules an option out.
+ */
+export interface ConditionPolicy {
+  /** Chance of each season */
+  seasonWeights: Record<TrackConditions["season"], number>;
+  /** Chance of each weather, given the season */
+  weatherWeights: Record<
+    TrackConditions["season"],
+    Record<TrackConditions["weather"], number>
+  >;
+  /** Chance of each ground condition, given the weather */
+  groundWeights: Record<
+    TrackConditions["weather"],
+    Record<TrackConditions["ground"], number>
+  >;
+  /** Conditions fixed for specific maps, keyed by map id */
+  pinnedConditions?: Record<string, TrackConditions>;
+  /** Roll every map when the draft is created, or each race when it comes up */
+  rollTiming: "draft-start" | "race-time";
+}
+
 export interface Map {
   id: string;
+  /** Course id in course_data.json */
+  courseId?: number;
   track: string;
   distance: number;
   surface: "Turf" | "Dirt";
@@ -20,6 +114,91 @@ export interface Map {
   variant?: string;
   conditions?: TrackConditions;
   name: string; // computed: "Track - Distance Surface (Variant)"
+  /** Named race this map was drafted as (see utils/raceCalendar.ts) */
+  race?: { id: number; name: string; grade: RaceGrade };
+}
+
+export type RaceGrade = "G1" | "G2" | "G3";
+
+/**
+ * Graded race from TerumiRaceData.json
+ */
+export interface GradedRace {
+  id: number;
+  name: string;
+  grade: RaceGrade;
+  track: string;
+  distance: number;
+  surface: Map["surface"];
+  direction: Map["direction"];
+}
+
+/**
+ * Group of characters from SuccessionRelation.json
+ * Every pair of characters in the group gains the group's points of
+ * inheritance compatibility.
+ */
+export interface SuccessionRelation {
+  type: number;
+  points: number;
+  charaIds: number[];
+}
+
+/**
+ * One course from course_data.json
+ * Distances are in meters; slopes are in 1/10000 % and finish times in
+ * 1/10000 s, as stored in the game data.
+ */
+export interface CourseData {
+  raceTrackId: number;
+  distance: number;
+  distanceType: number;
+  /** 1 = Turf, 2 = Dirt */
+  surface: number;
+  /** 1 = right, 2 = left, 4 = straight */
+  turn: number;
+  /** 1 = single layout, 2 = Inner, 3 = Outer, 4 = Outer to Inner */
+  course: number;
+  corners: { start: number; length: number }[];
+  /** frontType 1 = home straight, 2 = back straight */
+  straights: { start: number; end: number; frontType: number }[];
+  slopes: { start: number; length: number; slope: number }[];
+  laneMax: number;
+  finishTimeMin: number;
+  finishTimeMax: number;
+}
+
+/** Which server's course data a room uses */
+export type CourseSet = "jp" | "global";
+
+/**
+ * Which game server a room plays on
+ * Picks the course data set and, on Global, which umas are released yet.
+ */
+export interface ServerConfig {
+  server: CourseSet;
+  /** Global only: umas released after this date (YYYY-MM-DD) can't be drafted */
+  releaseCutoff?: string;
+}
+
+export type DistanceCategory = "sprint" | "mile" | "medium" | "long";
+
+/**
+ * Maps a room drafts from
+ * Filters narrow the course set down; per-map overrides win over filters.
+ */
+export interface MapPool {
+  courseSet: CourseSet;
+  /** Surfaces allowed in the pool */
+  surfaces: Map["surface"][];
+  /** Distance categories allowed in the pool */
+  distanceCategories: DistanceCategory[];
+  /** Tracks left out of the pool */
+  excludedTracks: string[];
+  /** Maps left out even if the filters allow them, by map id */
+  excludedMapIds: string[];
+  /** Maps kept even if the filters drop them, by map id */
+  includedMapIds: string[];
 }
 
 export type DraftPhase =
@@ -37,6 +216,47 @@ export type DraftPhase =
 
 export type Team = "team1" | "team2";
 
+export type DraftStepAction = "pick" | "ban" | "pre-ban";
+export type DraftStepTarget = "uma" | "map";
+
+/**
+ * A single turn in the draft script
+ */
+export interface DraftStep {
+  /** Team that performs this step */
+  team: Team;
+  /** What the team does (ban = veto one of the opponent's picks) */
+  action: DraftStepAction;
+  /** Whether the step targets an uma or a map */
+  target: DraftStepTarget;
+}
+
+/** Ordered list of every pick/ban in a draft */
+export type DraftScript = DraftStep[];
+
+/**
+ * Host-configurable rules for a 5v5 draft.
+ * The draft script and every pick constraint are derived from these values.
+ */
+export interface DraftRuleset {
+  /** Umas each team removes from the pool before picks begin */
+  preBansPerTeam: number;
+  /** Maps each team picks */
+  mapPicksPerTeam: number;
+  /** Opponent maps each team vetoes after map picks */
+  mapBansPerTeam: number;
+  /** Final uma roster size per team */
+  umaPicksPerTeam: number;
+  /** Opponent umas each team vetoes mid-draft */
+  umaVetoesPerTeam: number;
+  /** Max maps a team may pick per distance category (sprint/mile/medium/long) */
+  maxMapsPerDistance: number;
+  /** Max dirt maps a team may pick */
+  maxDirtMaps: number;
+  /** Lock every outfit of a character once one is picked, pre-banned or banned */
+  exclusiveCharacters: boolean;
+}
+
 /**
  * Optional multiplayer configuration for a draft session
  */
@@ -56,6 +276,32 @@ export interface MultiplayerState {
   turnDuration?: number;
 }
 
+/**
+ * Rollback of a multiplayer draft asked for by the host
+ * The opponent has to agree before it is applied.
+ */
+export interface DraftRollback {
+  /** Picks and bans kept; every later one is undone */
+  step: number;
+  /** Pick order line of the first pick or ban undone */
+  label: string;
+  status: "pending" | "applied" | "declined";
+  /** When the host asked (identifies the request) */
+  requestedAt: number;
+}
+
+/**
+ * Race the host has started under a race-time condition policy
+ * The salt is only made when the race starts, so its conditions can't be
+ * worked out from the public seed beforehand.
+ */
+export interface StartedRace {
+  /** Position in the race schedule */
+  raceIndex: number;
+  mapId: string;
+  salt: string;
+}
+
 export interface DraftState {
   phase: DraftPhase;
   currentTeam: Team;
@@ -76,6 +322,18 @@ export interface DraftState {
   availableUmas: UmaMusume[];
   availableMaps: Map[];
   wildcardMap: Map;
+  /** Seed for the wildcard, track condition and timeout rolls */
+  seed?: string;
+  /** Pick/ban order for this draft (defaults to DEFAULT_DRAFT_SCRIPT) */
+  draftScript?: DraftScript;
+  /** Rules the draft is played under (defaults to DEFAULT_RULESET) */
+  ruleset?: DraftRuleset;
+  /** How track conditions are rolled (defaults to DEFAULT_CONDITION_POLICY) */
+  conditionPolicy?: ConditionPolicy;
+  /** Maps the draft is played from (defaults to DEFAULT_MAP_POOL) */
+  mapPool?: MapPool;
+  /** Server the room plays on (defaults to DEFAULT_SERVER_CONFIG) */
+  serverConfig?: ServerConfig;
   /** Finalized pick order text generated by host when draft completes */
   pickOrderHistoryText?: string;
   /** Optional multiplayer state - undefined means local mode */
@@ -83,4 +341,8 @@ export interface DraftState {
   /** Ready state for pause phases (multiplayer) */
   team1Ready?: boolean;
   team2Ready?: boolean;
+  /** Latest rollback request and its outcome (multiplayer) */
+  rollback?: DraftRollback | null;
+  /** Races started so far, with the salts their conditions were rolled with */
+  startedRaces?: StartedRace[];
 }
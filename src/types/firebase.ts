@@ -6,7 +6,14 @@
  * removing PeerJS-specific dependencies.
  */
 
-import type { DraftState, Team } from "../types";
+import type {
+  DraftPhase,
+  DraftRollback,
+  DraftRuleset,
+  DraftState,
+  Team,
+} from "../types";
+import type { DraftState3v3v3, Team3v3v3 } from "../types3v3v3";
 import type { ConnectionType, DraftActionPayload } from "./multiplayer";
 
 /**
@@ -21,7 +28,7 @@ export interface FirebasePlayer {
   /** Connection type (host, player, spectator) */
   type: ConnectionType;
   /** Team assignment for players (undefined for spectators) */
-  team?: Team;
+  team?: Team | Team3v3v3;
   /** Timestamp when player joined */
   joinedAt: number;
   /** Whether player is currently connected (managed by presence system) */
@@ -50,16 +57,90 @@ export interface FirebaseRoom {
   /** Team names */
   team1Name: string;
   team2Name: string;
+  /** Third team name (3v3v3 only) */
+  team3Name?: string;
   /** Connected players (keyed by Firebase UID) */
   players: Record<string, FirebasePlayer>;
   /** Connected spectators (keyed by Firebase UID) */
   spectators: Record<string, FirebasePlayer>;
-  /** Current draft state */
-  draftState: DraftState;
+  /** Current draft state (5v5 only) */
+  draftState?: DraftState;
+  /** Current draft state (3v3v3 only) */
+  draftState3v3v3?: DraftState3v3v3;
+  /** Rules chosen by the host (5v5 only, mirrored into draftState.ruleset) */
+  ruleset?: DraftRuleset;
+  /** Action processor applying draft actions (5v5 only, absent when none) */
+  processor?: FirebaseProcessor;
+  /** Append-only log of applied draft actions (5v5 only) */
+  draftLog?: FirebaseDraftLog;
   /** State version for conflict resolution */
   version: number;
 }
 
+/**
+ * Action processor attached to a room
+ * Removed when the processor disconnects, so the host takes actions back
+ */
+export interface FirebaseProcessor {
+  /** Unique id of the processor process */
+  id: string;
+  /** When the processor attached */
+  attachedAt: number;
+}
+
+/**
+ * Draft action in a room's action log
+ */
+export interface FirebaseDraftLogEntry {
+  /** Position in the log, from 0 */
+  seq: number;
+  /** Firebase UID of the player who sent the action (the host's for a turn
+   * it auto-selected) */
+  actor: string;
+  /** Team the action was applied for */
+  team: Team;
+  /** The action payload */
+  action: DraftActionPayload;
+  /** Phase the action was applied in */
+  phase: DraftPhase;
+  /** When the action was applied */
+  timestamp: number;
+}
+
+/**
+ * Append-only log the room's draft state is replayed from
+ * Starts with the first draft action; lobby setup is part of the base state.
+ */
+export interface FirebaseDraftLog {
+  /** Draft state before the first logged action */
+  base: DraftState;
+  /** Applied actions in order (Firebase drops an empty list) */
+  entries?: FirebaseDraftLogEntry[];
+}
+
+/** Draft action to log (its seq is assigned when it is appended) */
+export type NewDraftLogEntry = Omit<FirebaseDraftLogEntry, "seq">;
+
+/**
+ * Options for a draft state write
+ */
+export interface DraftStateWriteOptions {
+  /** Reapplies the change to the latest state if another write got in first
+   * (null drops it) */
+  rebase?: (latest: DraftState) => DraftState | null;
+  /** Draft action the new state applies, appended to the room's action log */
+  logEntry?: NewDraftLogEntry;
+}
+
+/**
+ * Options for a 3v3v3 draft state write
+ */
+export interface DraftState3v3v3WriteOptions {
+  /** Reapplies the change to the latest state if another write got in first
+   * (null drops it) */
+  rebase?: (latest: DraftState3v3v3) => DraftState3v3v3 | null;
+}
+
 /**
  * Pending action in the action queue
  * Players write actions here, host processes and removes them
@@ -118,8 +199,14 @@ export interface CreateRoomData {
   /** Initial team names */
   team1Name?: string;
   team2Name?: string;
+  /** Initial third team name (3v3v3 only) */
+  team3Name?: string;
   /** Initial draft state (generated if not provided) */
   initialDraftState?: DraftState;
+  /** Initial 3v3v3 draft state (generated if not provided) */
+  initialDraftState3v3v3?: DraftState3v3v3;
+  /** Ruleset chosen by the host (defaults to the initial state's ruleset) */
+  ruleset?: DraftRuleset;
 }
 
 /**
@@ -132,7 +219,10 @@ export interface JoinRoomData {
   playerName: string;
   /** Type of connection (player, spectator, or host for reconnection) */
   connectionType: ConnectionType;
-  /** Team to join (required for players/host, ignored for spectators) */
+  /**
+   * Team to join (required for players/host, ignored for spectators).
+   * 3v3v3 players are seated in the first free team instead.
+   */
   team?: Team;
 }
 
@@ -180,11 +270,22 @@ export interface UseFirebaseRoomReturn {
   // State
   room: FirebaseRoom | null;
   draftState: DraftState | null;
+  draftState3v3v3: DraftState3v3v3 | null;
   isHost: boolean;
   isConnected: boolean;
   connectionState: FirebaseConnectionState;
   players: FirebasePlayer[];
   spectators: FirebasePlayer[];
+  /** Players offline longer than the grace period */
+  awayPlayerIds: string[];
+  /** An action processor applies draft actions instead of the host */
+  isProcessorAttached: boolean;
+  /** Draft states replayed from the room's action log (null before the
+   * first draft action) */
+  draftHistory: DraftState[] | null;
+  /** Pick order lines of the picks and bans in effect, from the action log
+   * (null before the first draft action) */
+  draftPickOrder: string[] | null;
   error: Error | null;
 
   // User info
@@ -192,7 +293,31 @@ export interface UseFirebaseRoomReturn {
   roomCode: string | null;
 
   // Actions
-  updateDraftState: (newState: DraftState) => Promise<void>;
+  /**
+   * Update the draft state (host only), rebasing onto the latest state with
+   * `rebase` if another write got in first
+   * @returns The draft state now in the room, or null on error
+   */
+  updateDraftState: (
+    newState: DraftState,
+    options?: DraftStateWriteOptions,
+  ) => Promise<DraftState | null>;
+  /**
+   * Roll the draft back to a step the opponent agreed to (host only)
+   * @returns The rolled back draft state, or null on error
+   */
+  rollbackDraft: (
+    request: DraftRollback,
+    team: Team,
+  ) => Promise<DraftState | null>;
+  /**
+   * Update the 3v3v3 draft state (host only)
+   * @returns The 3v3v3 draft state now in the room, or null on error
+   */
+  updateDraftState3v3v3: (
+    newState: DraftState3v3v3,
+    options?: DraftState3v3v3WriteOptions,
+  ) => Promise<DraftState3v3v3 | null>;
   sendAction: (action: DraftActionPayload) => Promise<void>;
   /** Set a handler for incoming pending actions (host only) */
   setPendingActionHandler: (
@@ -209,4 +334,12 @@ export interface UseFirebaseRoomReturn {
   firebaseRoomCodes: Record<string, string>;
   /** Update per-race room codes in Firebase */
   updateRoomCodes: (codes: Record<string, string>) => Promise<void>;
+  /** Update the room ruleset (host only, before the draft starts) */
+  updateRuleset: (ruleset: DraftRuleset) => Promise<void>;
+  /** Update the room's team names (host only) */
+  updateTeamNames: (
+    team1Name: string,
+    team2Name: string,
+    team3Name?: string,
+  ) => Promise<void>;
 }
@@ -104,10 +104,14 @@ export interface DraftActionPayload {
     | "team-name"
     | "match-report"
     | "match-confirm"
-    | "match-reject";
-  itemType: "uma" | "map" | "control";
+    | "match-reject"
+    | "rollback"
+    | "rollback-confirm"
+    | "rollback-reject";
+  itemType: "uma" | "map" | "card" | "control";
   itemId: string;
   phase?: string; // Optional phase parameter for control actions
+  raceId?: number; // Named race a map pick was drafted as
 }
 
 /**
@@ -8,8 +8,81 @@ export interface Card {
   imageUrl?: string;
 }
 
+/**
+ * One training effect of a support card
+ * The data only lists the levels where the value changes; the value at
+ * any other level is the last step at or below it.
+ */
+export interface CardEffect {
+  type: number;
+  /** e.g. "Friendship Bonus", "Speed Bonus" */
+  name: string;
+  /** Value from each level it changes at (level 1 is the initial value) */
+  steps: { level: number; value: number }[];
+}
+
+/**
+ * Unique effect of an SSR/SR card, active from unlockLevel
+ */
+export interface CardUniqueEffect {
+  unlockLevel: number;
+  /** Extra values are parameters of conditional effects (e.g. "Effect Type 101") */
+  effects: {
+    type: number;
+    name: string;
+    value: number;
+    extraValues: number[];
+  }[];
+}
+
+/**
+ * A skill or stat gain a support card can hint during training
+ */
+export interface CardHint {
+  /** Missing for stat hints such as "+6 Guts" */
+  skillId?: number;
+  name: string;
+}
+
+/**
+ * Everything TerumiSupportCardData.json has on a card beyond its Card entry
+ * Kept out of Card itself so the synced draft state stays small; look it
+ * up by card id with getCardDetails.
+ */
+export interface SupportCardDetails {
+  cardId: string;
+  charaId: number;
+  /** Outfit title, e.g. "[The Brightest Star in Japan!]" */
+  title: string;
+  /** Level cap with every limit break (50 SSR, 45 SR, 40 R) */
+  maxLevel: number;
+  effects: CardEffect[];
+  uniqueEffect?: CardUniqueEffect;
+  hints: CardHint[];
+}
+
 export type Team3v3v3 = "team1" | "team2" | "team3";
 
+/** Card types that train a stat (every type except friend) */
+export type StatCardType = Exclude<NonNullable<Card["type"]>, "friend">;
+
+/**
+ * Deck-building rules for the 3v3v3 card draft
+ * Chosen by the host during card pre-bans and enforced on every card pick.
+ */
+export interface DeckConstraints {
+  /** Most SSR cards a team may hold */
+  maxSSR: number;
+  /** Cards of each stat type a finished deck must contain */
+  minPerStatType: number;
+  /** Most cards of any one stat type a team may hold */
+  maxPerStatType: number;
+  /** Most friend cards a team may hold */
+  maxFriendCards: number;
+  /** Disallow a card of a character already on the team (as an uma or card) */
+  uniqueCharacters: boolean;
+}
+
 export type Draft3v3v3Phase =
   | "team-names"
   | "card-preban"
@@ -36,4 +109,21 @@ export interface DraftState3v3v3 {
   preBannedCards: Card[];
   pickedCards: Card[]; // All picked cards (shared pool)
   availableCards: Card[];
+  /** Deck rules for the card draft (defaults apply when missing) */
+  deckConstraints?: DeckConstraints;
 }
+
+/**
+ * A single change to a 3v3v3 draft
+ * Picks and bans name the acting team so the reducer can reject
+ * out-of-turn actions; flow actions are taken by whoever runs the draft.
+ */
+export type DraftAction3v3v3 =
+  | { type: "start-draft" }
+  | { type: "toggle-card-preban"; cardId: string }
+  | { type: "set-deck-constraints"; constraints: DeckConstraints }
+  | { type: "start-uma-draft" }
+  | { type: "select-uma"; team: Team3v3v3; umaId: string }
+  | { type: "continue-to-card-pick" }
+  | { type: "select-card"; team: Team3v3v3; cardId: string }
+  | { type: "continue-to-complete" };
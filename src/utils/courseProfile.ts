@@ -0,0 +1,115 @@
+import { COURSE_DATA } from "../data";
+import type { CourseSet, Map } from "../types";
+
+/**
+ * Course Profile
+ *
+ * Turns the raw course data behind a map into what drafters care about:
+ * where the straights, corners and slopes are, how long the final straight
+ * is and how fast the race is expected to run.
+ */
+
+export interface CourseSegment {
+  type: "straight" | "corner";
+  /** Meters from the start */
+  start: number;
+  end: number;
+}
+
+export interface CourseSlope {
+  start: number;
+  end: number;
+  /** Gradient in percent (negative = downhill) */
+  gradient: number;
+}
+
+export interface CourseProfile {
+  distance: number;
+  segments: CourseSegment[];
+  slopes: CourseSlope[];
+  cornerCount: number;
+  /** Length of the last straight before the finish, in meters */
+  finalStraight: number;
+  /** Expected finish time range, in seconds */
+  finishTimeMin: number;
+  finishTimeMax: number;
+}
+
+/** Game data stores finish times in 1/10000 s and gradients in 1/10000 % */
+const DATA_UNIT = 10000;
+
+/**
+ * Builds the course profile for a map
+ *
+ * @param map - Map to inspect (maps from older drafts may lack a course id)
+ * @param courseSet - Course data the room uses
+ * @returns Profile, or null if the map has no course data
+ */
+export function getCourseProfile(
+  map: Map,
+  courseSet: CourseSet = "jp",
+): CourseProfile | null {
+  if (map.courseId === undefined) return null;
+  const course =
+    COURSE_DATA[courseSet][map.courseId] ?? COURSE_DATA.jp[map.courseId];
+  if (!course) return null;
+
+  // A few courses have sections running past the finish line
+  const marked: CourseSegment[] = [
+    ...course.straights.map(({ start, end }) => ({
+      type: "straight" as const,
+      start,
+      end: Math.min(end, course.distance),
+    })),
+    ...course.corners.map(({ start, length }) => ({
+      type: "corner" as const,
+      start,
+      end: Math.min(start + length, course.distance),
+    })),
+  ].sort((a, b) => a.start - b.start);
+
+  // Short gaps between marked sections are plain straight track
+  const segments: CourseSegment[] = [];
+  let position = 0;
+  for (const segment of marked) {
+    if (segment.start > position) {
+      segments.push({ type: "straight", start: position, end: segment.start });
+    }
+    segments.push(segment);
+    position = Math.max(position, segment.end);
+  }
+  if (position < course.distance) {
+    segments.push({ type: "straight", start: position, end: course.distance });
+  }
+
+  const homeStraight = course.straights.find(
+    (straight) => straight.end >= course.distance,
+  );
+  const finalStraight = homeStraight ? course.distance - homeStraight.start : 0;
+
+  return {
+    distance: course.distance,
+    segments,
+    slopes: course.slopes.map(({ start, length, slope }) => ({
+      start,
+      end: start + length,
+      gradient: slope / DATA_UNIT,
+    })),
+    cornerCount: course.corners.length,
+    finalStraight,
+    finishTimeMin: course.finishTimeMin / DATA_UNIT,
+    finishTimeMax: course.finishTimeMax / DATA_UNIT,
+  };
+}
+
+/**
+ * Formats a race time in seconds as m:ss.s
+ *
+ * @example
+ * formatRaceTime(147.5); // "2:27.5"
+ */
+export function formatRaceTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds - minutes * 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${rest}`;
+}
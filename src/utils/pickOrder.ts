@@ -0,0 +1,174 @@
+/**
+ * Pick Order
+ *
+ * Text summary of a 5v5 draft in the order picks and vetoes were made,
+ * read from a room's action log or, for local drafts, rebuilt by diffing
+ * consecutive draft states.
+ */
+
+import type { DraftState, Map, UmaMusume } from "../types";
+import type { FirebaseDraftLogEntry } from "../types/firebase";
+import { replayDraftLog } from "../draftLog";
+import type { ReplayedDraftAction } from "../draftLog";
+import { formatRaceTag } from "./raceCalendar";
+import { formatUmaName } from "./umaDisplay";
+
+const umaLabel = (u: { id: string | number; name: string; title?: string }) =>
+  formatUmaName(u);
+
+const formatVariant = (m: { variant?: string }) =>
+  m.variant ? ` (${m.variant})` : "";
+
+const mapLabel = (m: Map) =>
+  `${m.track}${formatVariant(m)} ${m.distance}m${formatRaceTag(m)}`;
+
+const formatPickOrder = (pickOrder: string[]) =>
+  pickOrder.length > 0
+    ? `=== PICK ORDER ===\n\n${pickOrder.map((s, i) => `${i + 1}. ${s}`).join("\n")}`
+    : "No pick order history available.";
+
+/** Pick order wording for each pick and ban phase */
+const PICK_ORDER_VERBS: Partial<Record<DraftState["phase"], string>> = {
+  "uma-pre-ban": "pre-ban",
+  "uma-pick": "pick",
+  "uma-ban": "veto",
+  "map-pick": "map pick",
+  "map-ban": "map veto",
+};
+
+/**
+ * Pick order line for each pick and ban a log replay applied
+ *
+ * @param applied - Actions in effect, from replayDraftLog
+ */
+export function getPickOrderLines(
+  applied: ReplayedDraftAction[],
+  team1Name: string,
+  team2Name: string,
+): string[] {
+  const names = { team1: team1Name || "Team 1", team2: team2Name || "Team 2" };
+  return applied.flatMap(({ entry, item }) => {
+    const verb = PICK_ORDER_VERBS[entry.phase];
+    if (!verb || !item) return [];
+    const label =
+      entry.action.itemType === "map"
+        ? mapLabel(item as Map)
+        : umaLabel(item as UmaMusume);
+    return [`${names[entry.team]} ${verb}: ${label}`];
+  });
+}
+
+/**
+ * Builds the pick order summary from a room's action log
+ *
+ * @param base - Draft state before the first logged action
+ * @param entries - Logged actions, ordered by seq
+ */
+export function buildPickOrderFromLog(
+  base: DraftState,
+  entries: FirebaseDraftLogEntry[],
+  team1Name: string,
+  team2Name: string,
+): string {
+  return formatPickOrder(
+    getPickOrderLines(
+      replayDraftLog(base, entries).applied,
+      team1Name,
+      team2Name,
+    ),
+  );
+}
+
+/**
+ * Builds the pick order summary shown when the draft completes
+ *
+ * @param history - Draft states from the start of the draft, oldest first
+ */
+export function buildPickOrderHistoryText(
+  history: DraftState[],
+  team1Name: string,
+  team2Name: string,
+): string {
+  const t1n = team1Name || "Team 1";
+  const t2n = team2Name || "Team 2";
+  const pickOrder: string[] = [];
+
+  for (let i = 1; i < history.length; i++) {
+    const prev = history[i - 1];
+    const curr = history[i];
+
+    // Pre-bans
+    if (
+      (curr.team1.preBannedUmas?.length || 0) >
+      (prev.team1.preBannedUmas?.length || 0)
+    ) {
+      const newBans = (curr.team1.preBannedUmas || []).slice(
+        prev.team1.preBannedUmas?.length || 0,
+      );
+      newBans.forEach((u) => pickOrder.push(`${t1n} pre-ban: ${umaLabel(u)}`));
+    }
+    if (
+      (curr.team2.preBannedUmas?.length || 0) >
+      (prev.team2.preBannedUmas?.length || 0)
+    ) {
+      const newBans = (curr.team2.preBannedUmas || []).slice(
+        prev.team2.preBannedUmas?.length || 0,
+      );
+      newBans.forEach((u) => pickOrder.push(`${t2n} pre-ban: ${umaLabel(u)}`));
+    }
+
+    // Uma picks
+    if (curr.team1.pickedUmas.length > prev.team1.pickedUmas.length) {
+      const newPicks = curr.team1.pickedUmas.slice(
+        prev.team1.pickedUmas.length,
+      );
+      newPicks.forEach((u) => pickOrder.push(`${t1n} pick: ${umaLabel(u)}`));
+    }
+    if (curr.team2.pickedUmas.length > prev.team2.pickedUmas.length) {
+      const newPicks = curr.team2.pickedUmas.slice(
+        prev.team2.pickedUmas.length,
+      );
+      newPicks.forEach((u) => pickOrder.push(`${t2n} pick: ${umaLabel(u)}`));
+    }
+
+    // Uma bans (veto) - opposing team performs the veto
+    if (curr.team1.bannedUmas.length > prev.team1.bannedUmas.length) {
+      const newBans = curr.team1.bannedUmas.slice(prev.team1.bannedUmas.length);
+      newBans.forEach((u) => pickOrder.push(`${t2n} veto: ${umaLabel(u)}`));
+    }
+    if (curr.team2.bannedUmas.length > prev.team2.bannedUmas.length) {
+      const newBans = curr.team2.bannedUmas.slice(prev.team2.bannedUmas.length);
+      newBans.forEach((u) => pickOrder.push(`${t1n} veto: ${umaLabel(u)}`));
+    }
+
+    // Map picks
+    if (curr.team1.pickedMaps.length > prev.team1.pickedMaps.length) {
+      const newPicks = curr.team1.pickedMaps.slice(
+        prev.team1.pickedMaps.length,
+      );
+      newPicks.forEach((m) =>
+        pickOrder.push(`${t1n} map pick: ${mapLabel(m)}`),
+      );
+    }
+    if (curr.team2.pickedMaps.length > prev.team2.pickedMaps.length) {
+      const newPicks = curr.team2.pickedMaps.slice(
+        prev.team2.pickedMaps.length,
+      );
+      newPicks.forEach((m) =>
+        pickOrder.push(`${t2n} map pick: ${mapLabel(m)}`),
+      );
+    }
+
+    // Map vetoes - opposing team performs the veto
+    if (curr.team1.bannedMaps.length > prev.team1.bannedMaps.length) {
+      const newBans = curr.team1.bannedMaps.slice(prev.team1.bannedMaps.length);
+      newBans.forEach((m) => pickOrder.push(`${t2n} map veto: ${mapLabel(m)}`));
+    }
+    if (curr.team2.bannedMaps.length > prev.team2.bannedMaps.length) {
+      const newBans = curr.team2.bannedMaps.slice(prev.team2.bannedMaps.length);
+      newBans.forEach((m) => pickOrder.push(`${t1n} map veto: ${mapLabel(m)}`));
+    }
+  }
+
+  return formatPickOrder(pickOrder);
+}
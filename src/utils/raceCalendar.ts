@@ -0,0 +1,93 @@
+import { GRADED_RACES } from "../data";
+import type { GradedRace, Map, RaceGrade } from "../types";
+
+/**
+ * Race Calendar
+ *
+ * Links maps to the graded races run on them. The race data has no inner
+ * or outer course, so a race links to every layout of its track, distance
+ * and surface.
+ */
+
+const GRADE_ORDER: RaceGrade[] = ["G1", "G2", "G3"];
+
+const courseKey = (race: {
+  track: string;
+  distance: number;
+  surface: string;
+}) => `${race.track}-${race.distance}-${race.surface}`;
+
+const RACES_BY_COURSE: Record<string, GradedRace[]> = {};
+for (const race of GRADED_RACES) {
+  (RACES_BY_COURSE[courseKey(race)] ??= []).push(race);
+}
+for (const races of Object.values(RACES_BY_COURSE)) {
+  races.sort(
+    (a, b) =>
+      GRADE_ORDER.indexOf(a.grade) - GRADE_ORDER.indexOf(b.grade) ||
+      a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Gets the graded races run on a map
+ *
+ * @returns Races sorted by grade (G1 first), then name
+ */
+export function getMapRaces(map: Map): GradedRace[] {
+  return RACES_BY_COURSE[courseKey(map)] ?? [];
+}
+
+/**
+ * Gets the best grade of any race run on a map
+ */
+export function getTopGrade(map: Map): RaceGrade | undefined {
+  return map.race?.grade ?? getMapRaces(map)[0]?.grade;
+}
+
+/**
+ * Names a map as a race for a pick
+ *
+ * @param map - Map being picked
+ * @param raceId - Race the map was drafted as (ignored if not run on the map)
+ * @returns The map with its race set, or unchanged
+ */
+export function withRace(map: Map, raceId: number | undefined): Map {
+  const race = getMapRaces(map).find((r) => r.id === raceId);
+  if (!race) return map;
+  return { ...map, race: { id: race.id, name: race.name, grade: race.grade } };
+}
+
+/**
+ * Finds named races among a set of maps, e.g. "arima" → Arima Kinen
+ *
+ * @param query - Part of a race name (case-insensitive)
+ * @param maps - Maps that can be drafted
+ * @returns Each matching race paired with a map it runs on, named as that race
+ */
+export function searchRaceMaps(query: string, maps: Map[]): Map[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return maps
+    .flatMap((map) =>
+      getMapRaces(map)
+        .filter((race) => race.name.toLowerCase().includes(needle))
+        .map((race) => withRace(map, race.id)),
+    )
+    .sort(
+      (a, b) =>
+        GRADE_ORDER.indexOf(getTopGrade(a) ?? "G3") -
+          GRADE_ORDER.indexOf(getTopGrade(b) ?? "G3") ||
+        (a.race?.name ?? "").localeCompare(b.race?.name ?? ""),
+    );
+}
+
+/**
+ * Describes a map's race for exports, e.g. " [G1 Japan Cup]" or " [G1]"
+ * when the map wasn't drafted as a named race
+ */
+export function formatRaceTag(map: Map): string {
+  if (map.race) return ` [${map.race.grade} ${map.race.name}]`;
+  const grade = getTopGrade(map);
+  return grade ? ` [${grade}]` : "";
+}
@@ -0,0 +1,234 @@
+/**
+ * Roster Export
+ *
+ * Versioned JSON hand-off of a completed draft to the Roster Viewer
+ * (roster.uma.guide), as a file or a deep link, and the importer that reads
+ * the same schema back for a local draft review.
+ */
+
+import { GROUNDS, SEASONS, WEATHERS } from "../conditionPolicy";
+import type { DraftState, Map, TrackConditions, UmaMusume } from "../types";
+import type { DraftState3v3v3 } from "../types3v3v3";
+
+/** Version written into exported rosters */
+export const ROSTER_FORMAT_VERSION = 1;
+
+/** Roster Viewer deep links carry the encoded roster in this query parameter */
+export const ROSTER_VIEWER_URL = "https://roster.uma.guide/";
+const ROSTER_PARAM = "roster";
+
+export interface RosterUma {
+  /** Outfit id (cardId in TerumiCharacterData.json) */
+  outfitId: string;
+  /** Character shared by every outfit of the same uma */
+  charaId?: number;
+  name: string;
+}
+
+export interface RosterTeam {
+  name: string;
+  umas: RosterUma[];
+  /** Support card ids (3v3v3 only) */
+  supportCardIds: string[];
+}
+
+export interface RosterMap {
+  mapId: string;
+  /** Course id in course_data.json */
+  courseId?: number;
+  name: string;
+  /** Team that picked the map, or "Tiebreaker" */
+  pickedBy: string;
+  /** Named race the map was drafted as */
+  raceId?: number;
+  conditions?: TrackConditions;
+}
+
+export interface RosterExport {
+  version: number;
+  format: "5v5" | "3v3v3";
+  exportedAt: number;
+  teams: RosterTeam[];
+  /** Maps in race order (empty for 3v3v3) */
+  maps: RosterMap[];
+}
+
+const toRosterUma = (uma: UmaMusume): RosterUma => ({
+  outfitId: uma.id,
+  charaId: uma.charaId,
+  name: uma.name,
+});
+
+/**
+ * Builds the roster of a completed 5v5 draft
+ *
+ * @param schedule - Maps in race order with the team that picked each
+ */
+export function buildRosterExport5v5(
+  state: DraftState,
+  teamNames: [string, string],
+  schedule: { map: Map; team: string }[],
+): RosterExport {
+  return {
+    version: ROSTER_FORMAT_VERSION,
+    format: "5v5",
+    exportedAt: Date.now(),
+    teams: [state.team1, state.team2].map((team, index) => ({
+      name: teamNames[index],
+      umas: team.pickedUmas.map(toRosterUma),
+      supportCardIds: [],
+    })),
+    maps: schedule.map(({ map, team }) => ({
+      mapId: map.id,
+      courseId: map.courseId,
+      name: map.name,
+      pickedBy: team,
+      raceId: map.race?.id,
+      conditions: map.conditions,
+    })),
+  };
+}
+
+/**
+ * Builds the roster of a completed 3v3v3 draft
+ */
+export function buildRosterExport3v3v3(
+  state: DraftState3v3v3,
+  teamNames: [string, string, string],
+): RosterExport {
+  return {
+    version: ROSTER_FORMAT_VERSION,
+    format: "3v3v3",
+    exportedAt: Date.now(),
+    teams: [state.team1, state.team2, state.team3].map((team, index) => ({
+      name: teamNames[index],
+      umas: team.pickedUmas.map(toRosterUma),
+      supportCardIds: team.pickedCards.map((card) => card.id),
+    })),
+    maps: [],
+  };
+}
+
+/**
+ * Serialize a roster as pretty-printed JSON (for file export)
+ */
+export function exportRosterJson(roster: RosterExport): string {
+  return JSON.stringify(roster, null, 2);
+}
+
+/**
+ * Deep link that opens a roster in the Roster Viewer
+ */
+export function buildRosterViewerUrl(roster: RosterExport): string {
+  const url = new URL(ROSTER_VIEWER_URL);
+  url.searchParams.set(ROSTER_PARAM, JSON.stringify(roster));
+  return url.toString();
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === "number" ? value : undefined;
+
+function parseConditions(value: unknown): TrackConditions | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const source = value as Record<string, unknown>;
+  const season = SEASONS.find((s) => s === source.season);
+  const ground = GROUNDS.find((g) => g === source.ground);
+  const weather = WEATHERS.find((w) => w === source.weather);
+  return season && ground && weather ? { season, ground, weather } : undefined;
+}
+
+function parseUma(value: unknown): RosterUma | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  if (!isString(source.outfitId) || !isString(source.name)) return null;
+  return {
+    outfitId: source.outfitId,
+    charaId: optionalNumber(source.charaId),
+    name: source.name,
+  };
+}
+
+function parseTeam(value: unknown): RosterTeam | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  if (!isString(source.name) || !Array.isArray(source.umas)) return null;
+
+  const umas = source.umas.map(parseUma);
+  if (umas.some((uma) => uma === null)) return null;
+
+  return {
+    name: source.name,
+    umas: umas.filter((uma): uma is RosterUma => uma !== null),
+    supportCardIds: Array.isArray(source.supportCardIds)
+      ? source.supportCardIds.filter(isString)
+      : [],
+  };
+}
+
+function parseMap(value: unknown): RosterMap | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  if (!isString(source.mapId) || !isString(source.name)) return null;
+  return {
+    mapId: source.mapId,
+    courseId: optionalNumber(source.courseId),
+    name: source.name,
+    pickedBy: isString(source.pickedBy) ? source.pickedBy : "",
+    raceId: optionalNumber(source.raceId),
+    conditions: parseConditions(source.conditions),
+  };
+}
+
+/**
+ * Reads a roster from untrusted data
+ * Returns null if it is malformed or from a newer format version
+ */
+function parseRoster(value: unknown): RosterExport | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  if (
+    typeof source.version !== "number" ||
+    source.version > ROSTER_FORMAT_VERSION
+  ) {
+    return null;
+  }
+  if (source.format !== "5v5" && source.format !== "3v3v3") return null;
+  if (!Array.isArray(source.teams) || source.teams.length === 0) return null;
+
+  const teams = source.teams.map(parseTeam);
+  const maps = Array.isArray(source.maps) ? source.maps.map(parseMap) : [];
+  if (teams.some((team) => team === null) || maps.some((map) => map === null))
+    return null;
+
+  return {
+    version: source.version,
+    format: source.format,
+    exportedAt:
+      typeof source.exportedAt === "number" ? source.exportedAt : Date.now(),
+    teams: teams.filter((team): team is RosterTeam => team !== null),
+    maps: maps.filter((map): map is RosterMap => map !== null),
+  };
+}
+
+/**
+ * Import a roster from exported JSON or a Roster Viewer deep link
+ *
+ * @param text - File contents or pasted link
+ * @returns Roster, or null if the text is not a valid roster
+ */
+export function importRoster(text: string): RosterExport | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  try {
+    const json = trimmed.startsWith("{")
+      ? trimmed
+      : new URL(trimmed).searchParams.get(ROSTER_PARAM);
+    return json ? parseRoster(JSON.parse(json)) : null;
+  } catch (err) {
+    console.warn("Failed to import roster:", err);
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+import { getDistanceCategory } from "../mapPool";
+import type {
+  AptitudeGrade,
+  DistanceCategory,
+  Map,
+  UmaAptitudes,
+  UmaMusume,
+} from "../types";
+import { APTITUDE_GRADES, meetsGrade } from "./umaAptitudes";
+
+/**
+ * Roster Fit
+ *
+ * Cross-references a team's umas with the races they'll run: each cell is
+ * the uma's grade for that race, taken as the worse of its surface and
+ * distance aptitudes.
+ */
+
+/** Distance aptitude that applies to each distance category */
+const DISTANCE_APTITUDES: Record<DistanceCategory, keyof UmaAptitudes> = {
+  sprint: "short",
+  mile: "mile",
+  medium: "middle",
+  long: "long",
+};
+
+/** Lowest grade that still counts as a viable race for an uma */
+export const VIABLE_GRADE: AptitudeGrade = "B";
+
+/**
+ * Gets how well an uma suits a map
+ *
+ * @returns Worse of the surface and distance grades, or null without aptitude data
+ */
+export function getMapFit(uma: UmaMusume, map: Map): AptitudeGrade | null {
+  if (!uma.aptitudes) return null;
+  const surface =
+    map.surface === "Dirt" ? uma.aptitudes.dirt : uma.aptitudes.turf;
+  const distance =
+    uma.aptitudes[DISTANCE_APTITUDES[getDistanceCategory(map.distance)]];
+  return APTITUDE_GRADES.indexOf(surface) > APTITUDE_GRADES.indexOf(distance)
+    ? surface
+    : distance;
+}
+
+export interface RosterFit {
+  /** grades[umaIndex][raceIndex] */
+  grades: (AptitudeGrade | null)[][];
+  /** Races where no uma has an A or better fit */
+  racesWithoutA: number[];
+  /** Umas without a single viable race */
+  umasWithoutRace: string[];
+}
+
+/**
+ * Builds the fit matrix of a roster against a race schedule
+ *
+ * @param umas - Team's picked umas
+ * @param maps - Maps in race order (from getMapSchedule)
+ * @returns Grades per uma and race, plus the gaps worth flagging
+ */
+export function getRosterFit(umas: UmaMusume[], maps: Map[]): RosterFit {
+  const grades = umas.map((uma) => maps.map((map) => getMapFit(uma, map)));
+  const isAtLeast = (grade: AptitudeGrade | null, min: AptitudeGrade) =>
+    grade !== null && meetsGrade(grade, min);
+
+  const racesWithoutA = maps
+    .map((_, raceIndex) => raceIndex)
+    .filter(
+      (raceIndex) => !grades.some((row) => isAtLeast(row[raceIndex], "A")),
+    );
+  const umasWithoutRace = umas
+    .filter(
+      (uma, umaIndex) =>
+        uma.aptitudes &&
+        !grades[umaIndex].some((grade) => isAtLeast(grade, VIABLE_GRADE)),
+    )
+    .map((uma) => uma.id);
+
+  return { grades, racesWithoutA, umasWithoutRace };
+}
@@ -0,0 +1,150 @@
+/**
+ * Ruleset Presets
+ *
+ * Named 5v5 rulesets saved to localStorage so organizers can reuse them,
+ * plus helpers to share a preset as a JSON file or a URL-encoded string.
+ */
+
+import { parseRuleset } from "../ruleset";
+import type { DraftRuleset } from "../types";
+
+const PRESETS_KEY = "umadraft_ruleset_presets";
+
+/** Version written into exported presets */
+export const PRESET_FORMAT_VERSION = 1;
+
+export interface RulesetPreset {
+  name: string;
+  ruleset: DraftRuleset;
+  updatedAt: number;
+}
+
+/**
+ * Reads a preset from untrusted data
+ * Returns null if the name or ruleset is missing or malformed
+ */
+function parsePreset(value: unknown): RulesetPreset | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  if (typeof source.name !== "string" || !source.name.trim()) return null;
+
+  const ruleset = parseRuleset(source.ruleset);
+  if (!ruleset) return null;
+
+  return {
+    name: source.name.trim(),
+    ruleset,
+    updatedAt:
+      typeof source.updatedAt === "number" ? source.updatedAt : Date.now(),
+  };
+}
+
+/**
+ * Get all saved presets from localStorage, sorted by name
+ * Malformed entries are skipped
+ */
+export function getRulesetPresets(): RulesetPreset[] {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    if (!stored) return [];
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .map(parsePreset)
+      .filter((preset): preset is RulesetPreset => preset !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (err) {
+    console.warn("Failed to read ruleset presets:", err);
+    return [];
+  }
+}
+
+/**
+ * Save the preset list to localStorage
+ */
+function writeRulesetPresets(presets: RulesetPreset[]): void {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn("Failed to save ruleset presets:", err);
+  }
+}
+
+/**
+ * Save a preset, replacing any existing preset with the same name
+ *
+ * @returns The updated preset list
+ */
+export function saveRulesetPreset(
+  name: string,
+  ruleset: DraftRuleset,
+): RulesetPreset[] {
+  const trimmed = name.trim();
+  const presets = getRulesetPresets().filter((p) => p.name !== trimmed);
+  presets.push({ name: trimmed, ruleset, updatedAt: Date.now() });
+  presets.sort((a, b) => a.name.localeCompare(b.name));
+  writeRulesetPresets(presets);
+  return presets;
+}
+
+/**
+ * Delete a preset by name
+ *
+ * @returns The updated preset list
+ */
+export function deleteRulesetPreset(name: string): RulesetPreset[] {
+  const presets = getRulesetPresets().filter((p) => p.name !== name);
+  writeRulesetPresets(presets);
+  return presets;
+}
+
+/**
+ * Serialize a preset as pretty-printed JSON (for file export)
+ */
+export function exportPresetJson(preset: RulesetPreset): string {
+  return JSON.stringify(
+    {
+      version: PRESET_FORMAT_VERSION,
+      name: preset.name,
+      ruleset: preset.ruleset,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Encode a preset as a URL-safe string for pasting into chat or links
+ */
+export function encodePreset(preset: RulesetPreset): string {
+  return encodeURIComponent(
+    JSON.stringify({
+      version: PRESET_FORMAT_VERSION,
+      name: preset.name,
+      ruleset: preset.ruleset,
+    }),
+  );
+}
+
+/**
+ * Import a preset from either exported JSON or an encoded share string
+ *
+ * @param text - File contents or pasted string
+ * @returns Preset, or null if the text is not a valid preset
+ */
+export function importPreset(text: string): RulesetPreset | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  try {
+    const json = trimmed.startsWith("{")
+      ? trimmed
+      : decodeURIComponent(trimmed);
+    return parsePreset(JSON.parse(json));
+  } catch (err) {
+    console.warn("Failed to import ruleset preset:", err);
+    return null;
+  }
+}
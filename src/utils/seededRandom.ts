@@ -0,0 +1,71 @@
+/**
+ * Seeded Random
+ *
+ * Deterministic PRNG for draft rolls (wildcard map, track conditions,
+ * timeout auto-selections). The seed is stored on the draft state so any
+ * client can recompute a roll and check it matches what the draft used.
+ */
+
+/** Hex characters in a generated seed */
+const SEED_LENGTH = 16;
+
+/** A function returning floats in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/**
+ * Generates a new random seed
+ *
+ * @returns A 16-character hex string
+ *
+ * @example
+ * const seed = generateSeed(); // "9f2c41b07ad35e18"
+ */
+export function generateSeed(): string {
+  const bytes = new Uint8Array(SEED_LENGTH / 2);
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Hashes a string into a 32-bit integer (FNV-1a)
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic random source (mulberry32)
+ *
+ * Each roll uses its own stream, so rolls don't depend on the order they
+ * were made in and can be verified one at a time.
+ *
+ * @param seed - Draft seed
+ * @param stream - Name of the roll, e.g. "wildcard" or "conditions:tokyo-2400-turf"
+ * @returns Random source returning floats in [0, 1)
+ *
+ * @example
+ * const random = createSeededRandom(seed, "wildcard");
+ * const index = Math.floor(random() * maps.length);
+ */
+export function createSeededRandom(seed: string, stream: string): RandomSource {
+  let state = hashString(`${seed}:${stream}`);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,293 @@
+import { getTrackName } from "../data";
+
+/**
+ * Skill Conditions
+ *
+ * Turns the raw activation conditions in TerumiSimpleSkillData.json
+ * (e.g. "distance_rate>=50&order_rate>50") into readable clauses.
+ * "&" joins clauses that must all hold, "@" separates alternatives.
+ */
+
+type Operator = "==" | "!=" | ">=" | "<=" | ">" | "<";
+
+interface Clause {
+  key: string;
+  op: Operator;
+  value: number;
+}
+
+const PHASES = ["Early race", "Mid race", "Late race", "Last spurt"];
+const RUNNING_STYLES = ["", "Runner", "Leader", "Betweener", "Chaser"];
+const DISTANCE_TYPES = ["", "Sprint", "Mile", "Medium", "Long"];
+const SEASONS = [
+  "",
+  "Spring",
+  "Summer",
+  "Fall",
+  "Winter",
+  "Cherry blossom spring",
+];
+const GROUNDS = ["", "Firm", "Good", "Soft", "Heavy"];
+const WEATHERS = ["", "Sunny", "Cloudy", "Rainy", "Snowy"];
+const SURFACES = ["", "Turf", "Dirt"];
+
+const ordinal = (n: number) => {
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+};
+
+/** "at least", "at most", ... for comparisons that read naturally that way */
+const compare = (op: Operator, value: number, unit = "") => {
+  const amount = `${value}${unit}`;
+  switch (op) {
+    case ">=":
+      return `at least ${amount}`;
+    case ">":
+      return `more than ${amount}`;
+    case "<=":
+      return `at most ${amount}`;
+    case "<":
+      return `less than ${amount}`;
+    case "!=":
+      return `not ${amount}`;
+    default:
+      return amount;
+  }
+};
+
+/** Looks up a label for an enum-like clause such as running_style==2 */
+const named = (labels: string[], clause: Clause) => {
+  const label = labels[clause.value] || `${clause.value}`;
+  return clause.op === "!=" ? `not ${label}` : label;
+};
+
+/** Clause formatters by condition key */
+const FORMATTERS: Record<string, (clause: Clause) => string> = {
+  always: () => "Always",
+  phase: ({ op, value }) => {
+    if (op === ">=") return `${PHASES[value]} or later`;
+    if (op === "<=") return `${PHASES[value]} or earlier`;
+    return PHASES[value] ?? `Phase ${value}`;
+  },
+  phase_random: ({ value }) =>
+    `Random point in the ${PHASES[value]?.toLowerCase()}`,
+  phase_laterhalf_random: ({ value }) =>
+    `Random point in the second half of the ${PHASES[value]?.toLowerCase()}`,
+  distance_rate: ({ op, value }) =>
+    op.startsWith(">")
+      ? `After ${value}% of the race`
+      : `Before ${value}% of the race`,
+  distance_rate_after_random: ({ value }) =>
+    `Random point after ${value}% of the race`,
+  remain_distance: ({ op, value }) =>
+    op === "=="
+      ? `${value}m from the finish`
+      : op.startsWith("<")
+        ? `Within ${value}m of the finish`
+        : `At least ${value}m from the finish`,
+  order: ({ op, value }) => {
+    if (op === "==") return `In ${ordinal(value)} place`;
+    if (op === "<=") return `${ordinal(value)} place or better`;
+    if (op === "<") return `Better than ${ordinal(value)} place`;
+    if (op === ">=") return `${ordinal(value)} place or worse`;
+    return `Worse than ${ordinal(value)} place`;
+  },
+  order_rate: ({ op, value }) =>
+    op.startsWith("<")
+      ? `Within the front ${value}% of the field`
+      : `Behind the front ${value}% of the field`,
+  order_rate_in40_continue: () => "Stayed in the front 40% of the field",
+  popularity: ({ op, value }) =>
+    op === "=="
+      ? `Popularity rank ${value}`
+      : `Popularity rank ${compare(op, value)}`,
+  running_style: (clause) => `Running style: ${named(RUNNING_STYLES, clause)}`,
+  distance_type: (clause) => `${named(DISTANCE_TYPES, clause)} race`,
+  ground_type: (clause) => `On ${named(SURFACES, clause).toLowerCase()}`,
+  season: (clause) => `Season: ${named(SEASONS, clause)}`,
+  ground_condition: (clause) => `Ground: ${named(GROUNDS, clause)}`,
+  weather: (clause) => `Weather: ${named(WEATHERS, clause)}`,
+  track_id: ({ value }) => `At ${getTrackName(value)}`,
+  rotation: ({ value }) =>
+    value === 1 ? "Right-handed course" : "Left-handed course",
+  is_basis_distance: ({ value }) =>
+    value === 1
+      ? "Standard distance (multiple of 400m)"
+      : "Non-standard distance",
+  grade: ({ value }) => (value === 100 ? "G1 race" : `Race grade ${value}`),
+  post_number: ({ op, value }) => `Gate ${compare(op, value)}`,
+  corner: ({ op, value }) =>
+    value === 0
+      ? op === "=="
+        ? "On a straight"
+        : "On a corner"
+      : `On corner ${value}`,
+  corner_random: ({ value }) => `Random point on corner ${value}`,
+  all_corner_random: () => "Random point on any corner",
+  straight_random: () => "Random point on a straight",
+  last_straight_random: () => "Random point on the final straight",
+  is_finalcorner: ({ value }) =>
+    value === 1
+      ? "On the final corner or final straight"
+      : "Before the final corner",
+  is_finalcorner_random: () => "Random point on the final corner",
+  is_finalcorner_laterhalf: () => "Second half of the final corner",
+  slope: ({ value }) => (value === 1 ? "On an uphill" : "On a downhill"),
+  up_slope_random: () => "Random point on an uphill",
+  down_slope_random: () => "Random point on a downhill",
+  is_lastspurt: () => "In the last spurt",
+  hp_per: ({ op, value }) => `HP ${compare(op, value, "%")}`,
+  accumulatetime: ({ op, value }) =>
+    `${capitalize(compare(op, value, "s"))} into the race`,
+  is_overtake: () => "While overtaking",
+  overtake_target_time: ({ op, value }) =>
+    `Chasing an uma to overtake for ${compare(op, value, "s")}`,
+  overtake_target_no_order_up_time: ({ op, value }) =>
+    `Chasing without gaining a place for ${compare(op, value, "s")}`,
+  change_order_onetime: ({ op }) =>
+    op.startsWith("<") ? "After passing an uma" : "After being passed",
+  change_order_up_end_after: ({ op, value }) =>
+    `Passed ${compare(op, value)} umas in the late race`,
+  change_order_up_finalcorner_after: ({ op, value }) =>
+    `Passed ${compare(op, value)} umas from the final corner`,
+  bashin_diff_infront: ({ op, value }) =>
+    `${capitalize(compare(op, value))} length${value === 1 ? "" : "s"} behind the uma ahead`,
+  bashin_diff_behind: ({ op, value }) =>
+    `${capitalize(compare(op, value))} length${value === 1 ? "" : "s"} ahead of the uma behind`,
+  distance_diff_top: ({ op, value }) =>
+    `${capitalize(compare(op, value, "m"))} behind the leader`,
+  distance_diff_rate: ({ op, value }) =>
+    `${capitalize(compare(op, value, "%"))} of the field's spread behind the leader`,
+  near_count: ({ op, value }) =>
+    `${capitalize(compare(op, value))} umas nearby`,
+  is_surrounded: () => "While surrounded",
+  is_behind_in: () => "Close behind on the inside",
+  blocked_front: () => "Blocked in front",
+  blocked_front_continuetime: ({ op, value }) =>
+    `Blocked in front for ${compare(op, value, "s")}`,
+  blocked_side_continuetime: ({ op, value }) =>
+    `Blocked to the side for ${compare(op, value, "s")}`,
+  infront_near_lane_time: ({ op, value }) =>
+    `Uma close ahead in the same lane for ${compare(op, value, "s")}`,
+  behind_near_lane_time: ({ op, value }) =>
+    `Uma close behind in the same lane for ${compare(op, value, "s")}`,
+  behind_near_lane_time_set1: ({ op, value }) =>
+    `Uma close behind in the same lane for ${compare(op, value, "s")}`,
+  is_move_lane: ({ value }) =>
+    value === 1 ? "Moving to an outer lane" : "Moving to an inner lane",
+  lane_type: ({ value }) =>
+    value === 0 ? "In the inner lane" : `Lane ${value}`,
+  temptation_count: ({ op, value }) =>
+    value === 0 && op === "=="
+      ? "Hasn't been rushed"
+      : `Rushed ${compare(op, value)} times`,
+  is_temptation: ({ value }) => (value === 1 ? "While rushed" : "Not rushed"),
+  temptation_count_infront: () => "An uma ahead was rushed",
+  temptation_count_behind: () => "An uma behind was rushed",
+  is_badstart: ({ value }) =>
+    value === 1 ? "After a late start" : "Clean start",
+  activate_count_start: ({ op, value }) =>
+    `Used ${compare(op, value)} skills in the early race`,
+  activate_count_middle: ({ op, value }) =>
+    `Used ${compare(op, value)} skills in the mid race`,
+  activate_count_end_after: ({ op, value }) =>
+    `Used ${compare(op, value)} skills in the late race`,
+  activate_count_heal: ({ op, value }) =>
+    `Used ${compare(op, value)} recovery skills`,
+  activate_count_all: ({ op, value }) => `Used ${compare(op, value)} skills`,
+  running_style_count_same: ({ op, value }) =>
+    `${capitalize(compare(op, value))} other umas with the same running style`,
+  running_style_count_same_rate: ({ op, value }) =>
+    `${capitalize(compare(op, value, "%"))} of the field shares the running style`,
+  running_style_equal_popularity_one: () =>
+    "Same running style as the favourite",
+  same_skill_horse_count: ({ op, value }) =>
+    `${capitalize(compare(op, value))} umas have this skill`,
+  is_exist_chara_id: ({ value }) => `Character ${value} is in the race`,
+  random_lot: ({ value }) => `${value}% chance`,
+};
+
+// running_style_count_nige_otherself, running_style_temptation_count_senko, ...
+const STYLE_KEYS: Record<string, string> = {
+  nige: "Runner",
+  senko: "Leader",
+  sashi: "Betweener",
+  oikomi: "Chaser",
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function formatRemainingRange(min: number, max: number): string {
+  return max - min <= 2
+    ? `${Math.round((min + max) / 2)}m from the finish`
+    : `${min}–${max}m from the finish`;
+}
+
+/** Formatters for a key bounded on both sides, e.g. distance_rate>=50&distance_rate<=60 */
+const RANGE_FORMATTERS: Record<string, (min: number, max: number) => string> = {
+  distance_rate: (min, max) => `Between ${min}% and ${max}% of the race`,
+  remain_distance: formatRemainingRange,
+  // Same as remain_distance, seen from the player's uma in team races
+  remain_distance_viewer_id: formatRemainingRange,
+};
+
+function formatClause(clause: Clause): string {
+  const formatter = FORMATTERS[clause.key];
+  if (formatter) return formatter(clause);
+
+  const styleCount = clause.key.match(
+    /^running_style(_temptation)?_count_(nige|senko|sashi|oikomi)(_otherself)?$/,
+  );
+  if (styleCount) {
+    const style = STYLE_KEYS[styleCount[2]];
+    return styleCount[1]
+      ? `A ${style} was rushed`
+      : `${capitalize(compare(clause.op, clause.value))} other ${style}s`;
+  }
+
+  // Unknown keys fall back to the raw clause, minus the underscores
+  return `${clause.key.replace(/_/g, " ")} ${clause.op} ${clause.value}`;
+}
+
+function parseClause(raw: string): Clause | null {
+  const match = raw.match(/^([a-z_0-9]+)(==|!=|>=|<=|>|<)(-?\d+)$/);
+  if (!match) return null;
+  return { key: match[1], op: match[2] as Operator, value: Number(match[3]) };
+}
+
+/**
+ * Formats a raw skill condition
+ *
+ * @param condition - Condition string from the skill data
+ * @returns One list of clauses per alternative (any alternative activates the skill)
+ *
+ * @example
+ * formatSkillCondition("distance_rate>=50&order_rate>50");
+ * // [["After 50% of the race", "Behind the front 50% of the field"]]
+ */
+export function formatSkillCondition(condition: string): string[][] {
+  if (!condition.trim()) return [];
+  return condition.split("@").map((alternative) => {
+    const raws = alternative.split("&").filter(Boolean);
+    const clauses = raws.map(parseClause);
+    const ranged = new Set<string>();
+
+    return raws.flatMap((raw, index) => {
+      const clause = clauses[index];
+      if (!clause) return [raw];
+      if (ranged.has(clause.key)) return [];
+
+      const rangeFormatter = RANGE_FORMATTERS[clause.key];
+      const sameKey = clauses.filter((c) => c?.key === clause.key);
+      const min = sameKey.find((c) => c?.op.startsWith(">"));
+      const max = sameKey.find((c) => c?.op.startsWith("<"));
+      if (rangeFormatter && min && max) {
+        ranged.add(clause.key);
+        return [rangeFormatter(min.value, max.value)];
+      }
+      return [formatClause(clause)];
+    });
+  });
+}
@@ -0,0 +1,96 @@
+import { SKILLS } from "../data";
+import type { Skill, UmaMusume } from "../types";
+
+/**
+ * Skills
+ *
+ * Lookups and search for the skill browser and the uma detail popover.
+ */
+
+const SKILLS_BY_ID = new Map(SKILLS.map((skill) => [skill.id, skill]));
+
+/** Skill categories in the order they're listed in the browser */
+export const SKILL_CATEGORIES: string[] = [
+  ...new Set(SKILLS.map((skill) => skill.category)),
+];
+
+export type SkillRarityFilter = "all" | "normal" | "gold" | "unique";
+
+export const SKILL_RARITY_FILTERS: { id: SkillRarityFilter; label: string }[] =
+  [
+    { id: "all", label: "Any rarity" },
+    { id: "normal", label: "Normal" },
+    { id: "gold", label: "Gold" },
+    { id: "unique", label: "Unique" },
+  ];
+
+export function getSkill(id: number): Skill | undefined {
+  return SKILLS_BY_ID.get(id);
+}
+
+/**
+ * Describes a skill's rarity, e.g. "Gold" or "Unique ★★★"
+ */
+export function getSkillRarityLabel(skill: Skill): string {
+  if (skill.rarity >= 3) return `Unique ${"★".repeat(skill.rarity - 2)}`;
+  if (skill.category === "Unique") return "Inherited unique";
+  return skill.rarity === 2 ? "Gold" : "Normal";
+}
+
+function matchesRarity(skill: Skill, rarity: SkillRarityFilter): boolean {
+  switch (rarity) {
+    case "normal":
+      return skill.rarity === 1 && skill.category !== "Unique";
+    case "gold":
+      return skill.rarity === 2;
+    case "unique":
+      return skill.category === "Unique";
+    default:
+      return true;
+  }
+}
+
+/**
+ * Searches skills by name, description and effect
+ *
+ * @param query - Free text (case-insensitive)
+ * @param category - Skill category, or "all"
+ * @param rarity - Rarity filter
+ * @returns Matching skills, highest rarity first
+ */
+export function searchSkills(
+  query: string,
+  category: string,
+  rarity: SkillRarityFilter,
+): Skill[] {
+  const needle = query.trim().toLowerCase();
+  return SKILLS.filter(
+    (skill) =>
+      (category === "all" || skill.category === category) &&
+      matchesRarity(skill, rarity) &&
+      (!needle ||
+        skill.name.toLowerCase().includes(needle) ||
+        skill.description.toLowerCase().includes(needle) ||
+        skill.activations.some((activation) =>
+          activation.effectSummary.toLowerCase().includes(needle),
+        )),
+  ).sort((a, b) => b.rarity - a.rarity || a.name.localeCompare(b.name));
+}
+
+/**
+ * Gets an uma's own skills
+ *
+ * @returns The unique skill(s) and the innate skills learned through awakening
+ */
+export function getUmaSkills(uma: UmaMusume): {
+  unique: Skill[];
+  innate: Skill[];
+} {
+  const skills = (uma.skillIds ?? [])
+    .map(getSkill)
+    .filter((skill): skill is Skill => skill !== undefined);
+  return {
+    unique: skills.filter((skill) => skill.category === "Unique"),
+    innate: skills.filter((skill) => skill.category !== "Unique"),
+  };
+}
@@ -0,0 +1,110 @@
+import { SAMPLE_UMAS, SUCCESSION_RELATIONS, UNIQUE_SPARKS } from "../data";
+import type { UmaMusume } from "../types";
+
+/**
+ * Succession
+ *
+ * Ranks parent pairings for a trainee by inheritance compatibility. Only the
+ * trainee-parent relations count; grandparents aren't known from a draft.
+ */
+
+/** Pairings listed per drafted uma */
+export const TOP_PAIRINGS = 3;
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+const RELATION_POINTS: Record<string, number> = {};
+for (const relation of SUCCESSION_RELATIONS) {
+  relation.charaIds.forEach((a, index) => {
+    for (const b of relation.charaIds.slice(index + 1)) {
+      const key = pairKey(a, b);
+      RELATION_POINTS[key] = (RELATION_POINTS[key] ?? 0) + relation.points;
+    }
+  });
+}
+
+/**
+ * Compatibility points between two characters (0 for the same character)
+ */
+export function getRelationPoints(charaA: number, charaB: number): number {
+  if (charaA === charaB) return 0;
+  return RELATION_POINTS[pairKey(charaA, charaB)] ?? 0;
+}
+
+/**
+ * One parent of a pairing
+ */
+export interface SuccessionParent {
+  /** The team's outfit of the character if drafted, otherwise its first release */
+  uma: UmaMusume;
+  /** Compatibility with the trainee */
+  points: number;
+  /** The character was drafted by the team */
+  onRoster: boolean;
+  /** Unique skill sparks the character's outfits can pass on */
+  sparks: string[];
+}
+
+export interface SuccessionPairing {
+  /** Higher-compatibility parent first */
+  parents: [SuccessionParent, SuccessionParent];
+  /** Sum of both parents' compatibility with the trainee */
+  points: number;
+}
+
+/**
+ * Ranks the best parent pairings for a trainee
+ *
+ * @param child - Uma being trained
+ * @param roster - Team's drafted umas (preferred as parents on equal points)
+ * @param limit - Pairings to return
+ * @returns Pairings sorted by points, then by parents on the roster
+ */
+export function rankParentPairs(
+  child: UmaMusume,
+  roster: UmaMusume[],
+  limit = TOP_PAIRINGS,
+): SuccessionPairing[] {
+  const childCharaId = child.charaId;
+  if (childCharaId === undefined) return [];
+
+  const outfitsByChara: Record<number, UmaMusume[]> = {};
+  for (const uma of SAMPLE_UMAS) {
+    if (uma.charaId === undefined || uma.charaId === childCharaId) continue;
+    (outfitsByChara[uma.charaId] ??= []).push(uma);
+  }
+
+  const candidates: SuccessionParent[] = Object.entries(outfitsByChara).map(
+    ([charaId, outfits]) => {
+      const drafted = roster.find((uma) => uma.charaId === Number(charaId));
+      return {
+        uma: drafted ?? outfits[0],
+        points: getRelationPoints(childCharaId, Number(charaId)),
+        onRoster: drafted !== undefined,
+        sparks: (drafted ? [drafted] : outfits)
+          .map((uma) => UNIQUE_SPARKS[uma.id])
+          .filter((spark): spark is string => spark !== undefined),
+      };
+    },
+  );
+
+  const pairings: SuccessionPairing[] = candidates.flatMap((first, index) =>
+    candidates.slice(index + 1).map((second) => ({
+      parents:
+        first.points >= second.points ? [first, second] : [second, first],
+      points: first.points + second.points,
+    })),
+  );
+
+  const rosterCount = (pairing: SuccessionPairing) =>
+    pairing.parents.filter((parent) => parent.onRoster).length;
+
+  return pairings
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        rosterCount(b) - rosterCount(a) ||
+        a.parents[0].uma.name.localeCompare(b.parents[0].uma.name),
+    )
+    .slice(0, limit);
+}
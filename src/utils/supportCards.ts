@@ -0,0 +1,88 @@
+import { SUPPORT_CARD_DETAILS } from "../data";
+import type { Card, CardEffect, SupportCardDetails } from "../types3v3v3";
+
+/**
+ * Support Cards
+ *
+ * Effect values by level and the side-by-side comparison shown on the
+ * 3v3v3 card-pick screen.
+ */
+
+/** Most cards the comparison panel holds at once */
+export const MAX_COMPARED_CARDS = 3;
+
+/** Effect types whose values are percentages */
+const PERCENT_EFFECT_TYPES = new Set([1, 2, 8, 15, 16, 18, 25, 26, 27, 28]);
+
+export function getCardDetails(card: Card): SupportCardDetails | undefined {
+  return SUPPORT_CARD_DETAILS[card.id];
+}
+
+/**
+ * Gets an effect's value at a card level
+ *
+ * @returns Value of the last step at or below the level (0 before the first step)
+ */
+export function getEffectValue(effect: CardEffect, level: number): number {
+  let value = 0;
+  for (const step of effect.steps) {
+    if (step.level > level) break;
+    value = step.value;
+  }
+  return value;
+}
+
+/**
+ * Formats an effect value, e.g. "+15%" for Friendship Bonus or "+2" for Speed Bonus
+ */
+export function formatEffectValue(type: number, value: number): string {
+  return `+${value}${PERCENT_EFFECT_TYPES.has(type) ? "%" : ""}`;
+}
+
+/**
+ * One row of the comparison table
+ */
+export interface CardEffectRow {
+  type: number;
+  name: string;
+  /** Value per compared card, in card order (0 if the card lacks the effect) */
+  values: number[];
+  /** Highest value in the row */
+  best: number;
+}
+
+/**
+ * Lines up the training effects of several cards
+ *
+ * @param cards - Cards to compare
+ * @param level - Card level (capped at each card's max level), or "max"
+ * @returns One row per effect any of the cards has at that level, in effect type order
+ */
+export function compareCardEffects(
+  cards: Card[],
+  level: number | "max",
+): CardEffectRow[] {
+  const details = cards.map(getCardDetails);
+  const rows = new Map<number, CardEffectRow>();
+
+  details.forEach((detail, cardIndex) => {
+    if (!detail) return;
+    const cardLevel =
+      level === "max" ? detail.maxLevel : Math.min(level, detail.maxLevel);
+    for (const effect of detail.effects) {
+      const row = rows.get(effect.type) ?? {
+        type: effect.type,
+        name: effect.name,
+        values: cards.map(() => 0),
+        best: 0,
+      };
+      row.values[cardIndex] = getEffectValue(effect, cardLevel);
+      row.best = Math.max(...row.values);
+      rows.set(effect.type, row);
+    }
+  });
+
+  return [...rows.values()]
+    .filter((row) => row.best > 0)
+    .sort((a, b) => a.type - b.type);
+}
@@ -1,47 +1,23 @@
+import type { ConditionPolicy } from "../types";
+import { DEFAULT_CONDITION_POLICY, rollConditions } from "../conditionPolicy";
+import type { RandomSource } from "./seededRandom";
+
 export interface TrackConditions {
   season: "Spring" | "Summer" | "Fall" | "Winter";
   ground: "Firm" | "Good" | "Soft" | "Heavy";
   weather: "Sunny" | "Cloudy" | "Rainy" | "Snowy";
 }
 
-export function generateTrackConditions(): TrackConditions {
-  const seasons: TrackConditions["season"][] = [
-    "Spring",
-    "Summer",
-    "Fall",
-    "Winter",
-  ];
-  const weathers: TrackConditions["weather"][] = [
-    "Sunny",
-    "Cloudy",
-    "Rainy",
-    "Snowy",
-  ];
-
-  const season = seasons[Math.floor(Math.random() * seasons.length)];
-
-  // Snowy weather only possible in Winter
-  const availableWeathers =
-    season === "Winter" ? weathers : weathers.filter((w) => w !== "Snowy");
-  const weather =
-    availableWeathers[Math.floor(Math.random() * availableWeathers.length)];
-
-  // Ground condition depends on weather
-  let ground: TrackConditions["ground"];
-  if (weather === "Sunny" || weather === "Cloudy") {
-    ground = Math.random() < 0.5 ? "Firm" : "Good";
-  } else if (weather === "Rainy") {
-    ground = Math.random() < 0.5 ? "Soft" : "Heavy";
-  } else {
-    // Snowy
-    ground = Math.random() < 0.5 ? "Good" : "Soft";
-  }
-
-  return {
-    season,
-    ground,
-    weather,
-  };
+/**
+ * Rolls a season, weather and ground condition
+ * @param random - Random source (pass a seeded one to make the roll reproducible)
+ * @param policy - Weight tables to roll with (default: uniform, snow only in winter)
+ */
+export function generateTrackConditions(
+  random: RandomSource = Math.random,
+  policy: ConditionPolicy = DEFAULT_CONDITION_POLICY,
+): TrackConditions {
+  return rollConditions(policy, random);
 }
 
 export function formatTrackConditions(conditions: TrackConditions): string {
@@ -0,0 +1,116 @@
+import type { AptitudeGrade, UmaAptitudes, UmaMusume } from "../types";
+
+/**
+ * Uma Aptitudes
+ *
+ * Grade comparisons, aptitude filters for the uma grids and the short
+ * badges shown on uma cards.
+ */
+
+/** Grades from best to worst */
+export const APTITUDE_GRADES: AptitudeGrade[] = [
+  "S",
+  "A",
+  "B",
+  "C",
+  "D",
+  "E",
+  "F",
+  "G",
+];
+
+export type AptitudeGroup = "surface" | "distance" | "style";
+
+/**
+ * Display order, labels and short badge labels for each aptitude
+ */
+export const APTITUDE_FIELDS: {
+  key: keyof UmaAptitudes;
+  label: string;
+  short: string;
+  group: AptitudeGroup;
+}[] = [
+  { key: "turf", label: "Turf", short: "Turf", group: "surface" },
+  { key: "dirt", label: "Dirt", short: "Dirt", group: "surface" },
+  { key: "short", label: "Sprint", short: "Spr", group: "distance" },
+  { key: "mile", label: "Mile", short: "Mile", group: "distance" },
+  { key: "middle", label: "Medium", short: "Med", group: "distance" },
+  { key: "long", label: "Long", short: "Long", group: "distance" },
+  { key: "runner", label: "Runner", short: "Run", group: "style" },
+  { key: "leader", label: "Leader", short: "Ldr", group: "style" },
+  { key: "betweener", label: "Betweener", short: "Btw", group: "style" },
+  { key: "chaser", label: "Chaser", short: "Chs", group: "style" },
+];
+
+/**
+ * A grid filter such as "Long A or better"
+ */
+export interface AptitudeFilter {
+  key: keyof UmaAptitudes;
+  minGrade: AptitudeGrade;
+}
+
+/**
+ * Checks whether a grade is at least as good as another
+ *
+ * @example
+ * meetsGrade("A", "B"); // true
+ * meetsGrade("C", "B"); // false
+ */
+export function meetsGrade(
+  grade: AptitudeGrade,
+  minGrade: AptitudeGrade,
+): boolean {
+  return APTITUDE_GRADES.indexOf(grade) <= APTITUDE_GRADES.indexOf(minGrade);
+}
+
+/**
+ * Describes a filter for its chip, e.g. "Long A+" or "Dirt B+"
+ */
+export function formatAptitudeFilter(filter: AptitudeFilter): string {
+  const field = APTITUDE_FIELDS.find((f) => f.key === filter.key);
+  const suffix = filter.minGrade === "S" ? "" : "+";
+  return `${field?.label ?? filter.key} ${filter.minGrade}${suffix}`;
+}
+
+/**
+ * Checks an uma against every active filter
+ * Umas without aptitude data only pass when no filter is active.
+ *
+ * @param uma - Uma to check
+ * @param filters - Active filters (all must match)
+ */
+export function matchesAptitudeFilters(
+  uma: UmaMusume,
+  filters: AptitudeFilter[],
+): boolean {
+  if (filters.length === 0) return true;
+  const { aptitudes } = uma;
+  if (!aptitudes) return false;
+  return filters.every((filter) =>
+    meetsGrade(aptitudes[filter.key], filter.minGrade),
+  );
+}
+
+/**
+ * Gets the A-or-better aptitudes of an uma, grouped for card badges
+ *
+ * @returns Short labels per group, e.g. { surface: ["Turf"], distance: ["Mile", "Med"], ... }
+ */
+export function getStrongAptitudes(
+  uma: UmaMusume,
+): Record<AptitudeGroup, string[]> {
+  const strong: Record<AptitudeGroup, string[]> = {
+    surface: [],
+    distance: [],
+    style: [],
+  };
+  if (!uma.aptitudes) return strong;
+
+  for (const field of APTITUDE_FIELDS) {
+    if (meetsGrade(uma.aptitudes[field.key], "A")) {
+      strong[field.group].push(field.short);
+    }
+  }
+  return strong;
+}
@@ -3,7 +3,11 @@ import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react(), tailwindcss()],
   base: "/",
-});
+  build: {
+    // The only SSR build is the Node action processor, which needs no assets
+    copyPublicDir: !isSsrBuild,
+  },
+}));